@@ -6,10 +6,19 @@ import dotenv from 'dotenv';
 // Import routes
 import authRoutes from './routes/authRoutes';
 import userRoutes from './routes/userRoutes';
+import auditRoutes from './routes/auditRoutes';
+import invitationRoutes from './routes/invitationRoutes';
+import wellKnownRoutes from './routes/wellKnownRoutes';
+import oauthRoutes from './routes/oauthRoutes';
+import oauthClientRoutes from './routes/oauthClientRoutes';
 
 // Import middleware
 import { errorHandler } from './middleware/errorMiddleware';
 import { notFoundHandler } from './middleware/notFoundMiddleware';
+import { getKeyRing } from './utils/jwtKeys.utils';
+import { getOidcProviders } from './config/oidcProviders';
+import { registerJob, startJobs } from './services/jobRunnerService';
+import { createAccountDeletionJob } from './services/accountDeletionService';
 
 // Load environment variables
 dotenv.config();
@@ -17,6 +26,17 @@ dotenv.config();
 // Create Express app
 const app: Application = express();
 
+// Trust the proxy in front of the app so req.ip (used for rate limiting) is the client's IP
+// (TRUST_PROXY is "true", a hop count, or a list of trusted addresses)
+const trustProxy = process.env.TRUST_PROXY;
+if (trustProxy === 'true') {
+    app.set('trust proxy', true);
+} else if (trustProxy && /^\d+$/.test(trustProxy)) {
+    app.set('trust proxy', parseInt(trustProxy));
+} else if (trustProxy) {
+    app.set('trust proxy', trustProxy);
+}
+
 // Middleware
 app.use(cors({
     origin: process.env.ALLOWED_ORIGINS?.split(',') || '*',
@@ -36,6 +56,11 @@ app.get('/health', (req, res) => {
 // API routes
 app.use('/api/auth', authRoutes);
 app.use('/api/users', userRoutes);
+app.use('/api/audit', auditRoutes);
+app.use('/api/invitations', invitationRoutes);
+app.use('/api/oauth/clients', oauthClientRoutes);
+app.use('/oauth', oauthRoutes);
+app.use('/.well-known', wellKnownRoutes);
 
 // Error handling middleware (must be last)
 app.use(notFoundHandler);
@@ -58,7 +83,16 @@ const PORT = process.env.PORT || 5000;
 
 const startServer = async (): Promise<void> => {
     try {
+        // Load the JWT signing keys and sign-in providers now so bad configuration stops startup
+        getKeyRing();
+        getOidcProviders();
+
         await connectDB();
+
+        // Background jobs (set JOBS_ENABLED=false to run them on other instances only)
+        registerJob(createAccountDeletionJob());
+        startJobs();
+
         app.listen(PORT, () => {
             console.log(`🚀 Server running on port ${PORT}`);
             console.log(`🌍 Environment: ${process.env.NODE_ENV || 'development'}`);
@@ -0,0 +1,14 @@
+/**
+ * Scopes that OAuth clients can request, with the description shown on the consent screen.
+ * Resource servers that introspect our tokens can rely on any scope added here.
+ */
+export const OAUTH_SCOPES = {
+    profile: 'Read your name and username',
+    email: 'Read your email address'
+} as const;
+
+export type OAuthScope = keyof typeof OAUTH_SCOPES;
+
+export const OAUTH_GRANT_TYPES = ['authorization_code', 'client_credentials'] as const;
+
+export type OAuthGrantType = typeof OAUTH_GRANT_TYPES[number];
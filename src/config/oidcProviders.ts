@@ -0,0 +1,102 @@
+import { buildClientUrl } from '../utils/url.utils';
+
+export interface OidcProviderConfig {
+    name: string;
+    /**
+     * `oidc` providers are configured through discovery and return an ID token;
+     * `oauth2` providers (GitHub) only return an access token for their user API
+     */
+    type: 'oidc' | 'oauth2';
+    issuer?: string;
+    authorizationEndpoint?: string;
+    tokenEndpoint?: string;
+    userinfoEndpoint?: string;
+    /** GitHub only: lists the user's email addresses with their verification status */
+    emailsEndpoint?: string;
+    clientId: string;
+    clientSecret?: string;
+    scopes: string[];
+    redirectUri: string;
+}
+
+type ProviderPreset = Omit<OidcProviderConfig, 'name' | 'clientId' | 'clientSecret' | 'redirectUri'>;
+
+/**
+ * Well-known providers. Any other name in OIDC_PROVIDERS is a generic OIDC
+ * provider and needs OIDC_<NAME>_ISSUER (e.g. a local mock provider).
+ */
+const PRESETS: Record<string, ProviderPreset> = {
+    google: {
+        type: 'oidc',
+        issuer: 'https://accounts.google.com',
+        scopes: ['openid', 'email', 'profile']
+    },
+    microsoft: {
+        type: 'oidc',
+        issuer: 'https://login.microsoftonline.com/common/v2.0',
+        scopes: ['openid', 'email', 'profile']
+    },
+    github: {
+        type: 'oauth2',
+        authorizationEndpoint: 'https://github.com/login/oauth/authorize',
+        tokenEndpoint: 'https://github.com/login/oauth/access_token',
+        userinfoEndpoint: 'https://api.github.com/user',
+        emailsEndpoint: 'https://api.github.com/user/emails',
+        scopes: ['read:user', 'user:email']
+    }
+};
+
+let providers: Map<string, OidcProviderConfig> | null = null;
+
+/**
+ * Read one provider from OIDC_<NAME>_* variables, on top of its preset if it has one
+ */
+const loadProvider = (name: string): OidcProviderConfig => {
+    const prefix = `OIDC_${name.toUpperCase().replace(/[^A-Z0-9]/g, '_')}_`;
+    const env = (key: string): string | undefined => process.env[prefix + key] || undefined;
+    const preset = PRESETS[name];
+
+    const clientId = env('CLIENT_ID');
+    if (!clientId) {
+        throw new Error(`${prefix}CLIENT_ID is required for OIDC provider "${name}"`);
+    }
+
+    const issuer = env('ISSUER') || preset?.issuer;
+    if (!preset && !issuer) {
+        throw new Error(`${prefix}ISSUER is required for OIDC provider "${name}"`);
+    }
+
+    return {
+        ...(preset || { type: 'oidc', scopes: ['openid', 'email', 'profile'] }),
+        name,
+        issuer,
+        clientId,
+        clientSecret: env('CLIENT_SECRET'),
+        scopes: env('SCOPES')?.split(/[\s,]+/).filter(Boolean) || preset?.scopes || ['openid', 'email', 'profile'],
+        redirectUri: env('REDIRECT_URI') || buildClientUrl(`/auth/callback/${name}`)
+    };
+};
+
+/**
+ * Providers enabled with OIDC_PROVIDERS (comma-separated names)
+ */
+export const getOidcProviders = (): OidcProviderConfig[] => {
+    if (!providers) {
+        providers = new Map(
+            (process.env.OIDC_PROVIDERS || '')
+                .split(',')
+                .map(name => name.trim().toLowerCase())
+                .filter(Boolean)
+                .map(name => [name, loadProvider(name)])
+        );
+    }
+
+    return [...providers.values()];
+};
+
+/**
+ * Get an enabled provider by name
+ */
+export const getOidcProvider = (name: string): OidcProviderConfig | undefined => {
+    return getOidcProviders().find(provider => provider.name === name);
+};
@@ -0,0 +1,97 @@
+import { RateLimitOptions } from '../middleware/rateLimitMiddleware';
+
+const SECOND = 1000;
+const MINUTE = 60 * SECOND;
+const HOUR = 60 * MINUTE;
+
+/**
+ * Rate limit policy for every route, keyed by route.
+ *
+ * Unauthenticated routes are limited per client IP; authenticated routes per user.
+ * Fixed windows suit rare actions with a hard cap (registration, emails); token
+ * buckets allow short bursts for routes clients call in quick succession.
+ */
+export const rateLimitPolicies = {
+    // Auth routes (/api/auth)
+    register: { name: 'auth-register', algorithm: 'fixed-window', limit: 5, windowMs: HOUR, keyBy: 'ip' },
+    login: { name: 'auth-login', algorithm: 'token-bucket', limit: 10, windowMs: 15 * MINUTE, keyBy: 'ip' },
+    refresh: { name: 'auth-refresh', algorithm: 'token-bucket', limit: 30, windowMs: 15 * MINUTE, keyBy: 'ip' },
+    verifyEmail: { name: 'auth-verify-email', algorithm: 'fixed-window', limit: 10, windowMs: 15 * MINUTE, keyBy: 'ip' },
+    resendVerification: { name: 'auth-resend-verification', algorithm: 'fixed-window', limit: 3, windowMs: HOUR, keyBy: 'ip' },
+    forgotPassword: { name: 'auth-forgot-password', algorithm: 'fixed-window', limit: 3, windowMs: HOUR, keyBy: 'ip' },
+    resetPassword: { name: 'auth-reset-password', algorithm: 'fixed-window', limit: 10, windowMs: HOUR, keyBy: 'ip' },
+    twoFactorVerify: { name: 'auth-2fa-verify', algorithm: 'token-bucket', limit: 10, windowMs: 15 * MINUTE, keyBy: 'ip' },
+    oidcProviders: { name: 'auth-oidc-providers', algorithm: 'token-bucket', limit: 60, windowMs: MINUTE, keyBy: 'ip' },
+    oidcAuthorize: { name: 'auth-oidc-authorize', algorithm: 'token-bucket', limit: 20, windowMs: 15 * MINUTE, keyBy: 'ip' },
+    oidcCallback: { name: 'auth-oidc-callback', algorithm: 'token-bucket', limit: 20, windowMs: 15 * MINUTE, keyBy: 'ip' },
+    currentUser: { name: 'auth-me', algorithm: 'token-bucket', limit: 60, windowMs: MINUTE, keyBy: 'user' },
+    logout: { name: 'auth-logout', algorithm: 'token-bucket', limit: 20, windowMs: MINUTE, keyBy: 'user' },
+    listSessions: { name: 'auth-sessions-list', algorithm: 'token-bucket', limit: 30, windowMs: MINUTE, keyBy: 'user' },
+    revokeOtherSessions: { name: 'auth-sessions-revoke-others', algorithm: 'fixed-window', limit: 10, windowMs: 15 * MINUTE, keyBy: 'user' },
+    revokeSession: { name: 'auth-sessions-revoke', algorithm: 'fixed-window', limit: 30, windowMs: 15 * MINUTE, keyBy: 'user' },
+    twoFactorSetup: { name: 'auth-2fa-setup', algorithm: 'fixed-window', limit: 10, windowMs: 15 * MINUTE, keyBy: 'user' },
+    twoFactorEnable: { name: 'auth-2fa-enable', algorithm: 'fixed-window', limit: 10, windowMs: 15 * MINUTE, keyBy: 'user' },
+    twoFactorDisable: { name: 'auth-2fa-disable', algorithm: 'fixed-window', limit: 5, windowMs: 15 * MINUTE, keyBy: 'user' },
+    twoFactorRecoveryCodes: { name: 'auth-2fa-recovery-codes', algorithm: 'fixed-window', limit: 5, windowMs: 15 * MINUTE, keyBy: 'user' },
+    getTwoFactorPolicy: { name: 'auth-2fa-policy-get', algorithm: 'token-bucket', limit: 30, windowMs: MINUTE, keyBy: 'user' },
+    updateTwoFactorPolicy: { name: 'auth-2fa-policy-update', algorithm: 'fixed-window', limit: 10, windowMs: 15 * MINUTE, keyBy: 'user' },
+
+    // User routes (/api/users)
+    profileRead: { name: 'users-profile-read', algorithm: 'token-bucket', limit: 60, windowMs: MINUTE, keyBy: 'user' },
+    profileUpdate: { name: 'users-profile-update', algorithm: 'fixed-window', limit: 20, windowMs: 15 * MINUTE, keyBy: 'user' },
+    uploadProfilePicture: { name: 'users-profile-picture-upload', algorithm: 'fixed-window', limit: 10, windowMs: 15 * MINUTE, keyBy: 'user' },
+    deleteProfilePicture: { name: 'users-profile-picture-delete', algorithm: 'fixed-window', limit: 20, windowMs: 15 * MINUTE, keyBy: 'user' },
+    getProfilePicture: { name: 'users-picture-get', algorithm: 'token-bucket', limit: 300, windowMs: MINUTE, keyBy: 'ip' },
+    changePassword: { name: 'users-change-password', algorithm: 'fixed-window', limit: 5, windowMs: 15 * MINUTE, keyBy: 'user' },
+    deleteAccount: { name: 'users-delete-account', algorithm: 'fixed-window', limit: 5, windowMs: HOUR, keyBy: 'user' },
+    listIdentities: { name: 'users-identities-list', algorithm: 'token-bucket', limit: 30, windowMs: MINUTE, keyBy: 'user' },
+    linkIdentity: { name: 'users-identities-link', algorithm: 'fixed-window', limit: 10, windowMs: 15 * MINUTE, keyBy: 'user' },
+    unlinkIdentity: { name: 'users-identities-unlink', algorithm: 'fixed-window', limit: 10, windowMs: 15 * MINUTE, keyBy: 'user' },
+    listApiKeys: { name: 'users-api-keys-list', algorithm: 'token-bucket', limit: 30, windowMs: MINUTE, keyBy: 'user' },
+    createApiKey: { name: 'users-api-keys-create', algorithm: 'fixed-window', limit: 10, windowMs: HOUR, keyBy: 'user' },
+    revokeApiKey: { name: 'users-api-keys-revoke', algorithm: 'fixed-window', limit: 30, windowMs: 15 * MINUTE, keyBy: 'user' },
+    requestDataExport: { name: 'users-data-export-request', algorithm: 'fixed-window', limit: 3, windowMs: 24 * HOUR, keyBy: 'user' },
+    getDataExport: { name: 'users-data-export-get', algorithm: 'token-bucket', limit: 30, windowMs: MINUTE, keyBy: 'user' },
+    downloadDataExport: { name: 'users-data-export-download', algorithm: 'fixed-window', limit: 10, windowMs: 15 * MINUTE, keyBy: 'ip' },
+    listUsers: { name: 'users-list', algorithm: 'token-bucket', limit: 60, windowMs: MINUTE, keyBy: 'user' },
+    exportUsers: { name: 'users-export', algorithm: 'fixed-window', limit: 10, windowMs: 15 * MINUTE, keyBy: 'user' },
+    listPendingDeletions: { name: 'users-deletions-list', algorithm: 'token-bucket', limit: 30, windowMs: MINUTE, keyBy: 'user' },
+    getUser: { name: 'users-get', algorithm: 'token-bucket', limit: 120, windowMs: MINUTE, keyBy: 'user' },
+    createUser: { name: 'users-create', algorithm: 'fixed-window', limit: 30, windowMs: 15 * MINUTE, keyBy: 'user' },
+    updateUser: { name: 'users-update', algorithm: 'fixed-window', limit: 60, windowMs: 15 * MINUTE, keyBy: 'user' },
+    deleteUser: { name: 'users-delete', algorithm: 'fixed-window', limit: 20, windowMs: 15 * MINUTE, keyBy: 'user' },
+    restoreUser: { name: 'users-restore', algorithm: 'fixed-window', limit: 30, windowMs: 15 * MINUTE, keyBy: 'user' },
+    importUsers: { name: 'users-import', algorithm: 'fixed-window', limit: 10, windowMs: HOUR, keyBy: 'user' },
+    bulkUpdateUsers: { name: 'users-bulk', algorithm: 'fixed-window', limit: 10, windowMs: 15 * MINUTE, keyBy: 'user' },
+    updateRole: { name: 'users-update-role', algorithm: 'fixed-window', limit: 30, windowMs: 15 * MINUTE, keyBy: 'user' },
+    updateStatus: { name: 'users-update-status', algorithm: 'fixed-window', limit: 30, windowMs: 15 * MINUTE, keyBy: 'user' },
+    listUserSessions: { name: 'users-sessions-list', algorithm: 'token-bucket', limit: 30, windowMs: MINUTE, keyBy: 'user' },
+    revokeUserSessions: { name: 'users-sessions-revoke', algorithm: 'fixed-window', limit: 30, windowMs: 15 * MINUTE, keyBy: 'user' },
+    unlockUser: { name: 'users-unlock', algorithm: 'fixed-window', limit: 30, windowMs: 15 * MINUTE, keyBy: 'user' },
+    listUserApiKeys: { name: 'users-api-keys-list-any', algorithm: 'token-bucket', limit: 30, windowMs: MINUTE, keyBy: 'user' },
+    revokeUserApiKey: { name: 'users-api-keys-revoke-any', algorithm: 'fixed-window', limit: 30, windowMs: 15 * MINUTE, keyBy: 'user' },
+    resetTwoFactor: { name: 'users-reset-2fa', algorithm: 'fixed-window', limit: 30, windowMs: 15 * MINUTE, keyBy: 'user' },
+
+    // Invitation routes (/api/invitations)
+    listInvitations: { name: 'invitations-list', algorithm: 'token-bucket', limit: 60, windowMs: MINUTE, keyBy: 'user' },
+    createInvitation: { name: 'invitations-create', algorithm: 'fixed-window', limit: 50, windowMs: HOUR, keyBy: 'user' },
+    resendInvitation: { name: 'invitations-resend', algorithm: 'fixed-window', limit: 20, windowMs: HOUR, keyBy: 'user' },
+    revokeInvitation: { name: 'invitations-revoke', algorithm: 'fixed-window', limit: 30, windowMs: 15 * MINUTE, keyBy: 'user' },
+
+    // Audit routes (/api/audit)
+    auditQuery: { name: 'audit-query', algorithm: 'token-bucket', limit: 60, windowMs: MINUTE, keyBy: 'user' },
+
+    // OAuth authorization server routes (/oauth)
+    oauthAuthorize: { name: 'oauth-authorize', algorithm: 'token-bucket', limit: 30, windowMs: MINUTE, keyBy: 'user' },
+    oauthToken: { name: 'oauth-token', algorithm: 'token-bucket', limit: 60, windowMs: MINUTE, keyBy: 'ip' },
+    oauthIntrospect: { name: 'oauth-introspect', algorithm: 'token-bucket', limit: 300, windowMs: MINUTE, keyBy: 'ip' },
+    oauthRevoke: { name: 'oauth-revoke', algorithm: 'token-bucket', limit: 60, windowMs: MINUTE, keyBy: 'ip' },
+    oauthUserinfo: { name: 'oauth-userinfo', algorithm: 'token-bucket', limit: 120, windowMs: MINUTE, keyBy: 'ip' },
+
+    // OAuth client admin routes (/api/oauth/clients)
+    listOAuthClients: { name: 'oauth-clients-list', algorithm: 'token-bucket', limit: 60, windowMs: MINUTE, keyBy: 'user' },
+    manageOAuthClients: { name: 'oauth-clients-manage', algorithm: 'fixed-window', limit: 30, windowMs: 15 * MINUTE, keyBy: 'user' },
+
+    // Well-known routes (/.well-known)
+    jwks: { name: 'well-known-jwks', algorithm: 'token-bucket', limit: 60, windowMs: MINUTE, keyBy: 'ip' }
+} satisfies Record<string, RateLimitOptions>;
@@ -0,0 +1,86 @@
+/**
+ * Permissions checked by routes, with a short description of what each allows
+ */
+export const PERMISSIONS = {
+    'profile:read': 'View your own profile',
+    'profile:update': 'Update your own profile',
+    'api-keys:manage': 'View and revoke your own API keys',
+    'users:list': 'List and search users',
+    'users:read': 'View any user',
+    'users:create': 'Create accounts on behalf of others',
+    'users:update': "Edit any user's details",
+    'users:delete': 'Permanently delete users',
+    'users:restore': 'Restore deleted accounts',
+    'users:update-role': 'Change the role of a user',
+    'users:deactivate': 'Activate or deactivate users',
+    'users:unlock': 'Clear login lockouts',
+    'users:export': 'Export users as CSV or NDJSON',
+    'users:export-sensitive': 'Include personal details such as phone numbers and addresses in exports',
+    'sessions:read-any': 'View the sessions of any user',
+    'sessions:revoke-any': 'Sign any user out of their sessions',
+    'two-factor:reset': 'Reset the two-factor authentication of any user',
+    'two-factor:manage-policy': 'Choose which roles must use two-factor authentication',
+    'audit:read': 'View the security audit log',
+    'oauth-clients:manage': 'Register and manage OAuth clients',
+    'api-keys:manage-any': 'View and revoke the API keys of any user',
+    'invitations:manage': 'Invite users and manage invitations'
+} as const;
+
+export type Permission = keyof typeof PERMISSIONS;
+
+export interface RoleDefinition {
+    description: string;
+    /** Seniority: users can only manage users of a strictly lower rank */
+    rank: number;
+    /** Roles whose permissions this role also has */
+    inherits?: string[];
+    permissions: Permission[];
+}
+
+/**
+ * Role registry. Adding a role or changing what a role can do only requires
+ * editing this map; the User schema, validators and middleware read from it.
+ */
+export const ROLES: Record<string, RoleDefinition> = {
+    user: {
+        description: 'Regular account',
+        rank: 10,
+        permissions: ['profile:read', 'profile:update', 'api-keys:manage']
+    },
+    moderator: {
+        description: 'Can look up users',
+        rank: 50,
+        inherits: ['user'],
+        permissions: ['users:read']
+    },
+    admin: {
+        description: 'Full user management',
+        rank: 100,
+        inherits: ['moderator'],
+        permissions: [
+            'users:list',
+            'users:create',
+            'users:update',
+            'users:delete',
+            'users:restore',
+            'users:update-role',
+            'users:deactivate',
+            'users:unlock',
+            'users:export',
+            'users:export-sensitive',
+            'sessions:read-any',
+            'sessions:revoke-any',
+            'two-factor:reset',
+            'two-factor:manage-policy',
+            'audit:read',
+            'oauth-clients:manage',
+            'api-keys:manage-any',
+            'invitations:manage'
+        ]
+    }
+};
+
+/**
+ * Role given to new accounts
+ */
+export const DEFAULT_ROLE = 'user';
@@ -0,0 +1,197 @@
+import { Request, Response } from 'express';
+import { validationResult } from 'express-validator';
+import { AppError } from '../utils/AppError';
+import { createApiKey, getAvailableScopes, listApiKeys, revokeApiKey } from '../services/apiKeyService';
+import { recordAuditEvent } from '../services/auditService';
+
+/**
+ * List the current user's API keys
+ * @route GET /api/users/api-keys
+ */
+export const getMyApiKeys = async (req: Request, res: Response): Promise<void> => {
+    try {
+        const apiKeys = await listApiKeys(req.user!.id);
+
+        res.status(200).json({
+            success: true,
+            data: {
+                apiKeys,
+                availableScopes: getAvailableScopes(req.user!.role)
+            }
+        });
+    } catch (error) {
+        console.error('Get API keys error:', error);
+        res.status(500).json({
+            success: false,
+            message: 'Failed to retrieve API keys'
+        });
+    }
+};
+
+/**
+ * Create an API key for the current user. The key is only returned here.
+ * @route POST /api/users/api-keys
+ */
+export const createMyApiKey = async (req: Request, res: Response): Promise<void> => {
+    try {
+        // Check validation errors
+        const errors = validationResult(req);
+        if (!errors.isEmpty()) {
+            res.status(400).json({
+                success: false,
+                errors: errors.array()
+            });
+            return;
+        }
+
+        const { name, scopes, expiresAt } = req.body;
+        const { apiKey, key } = await createApiKey(req.user!.id, req.user!.role, {
+            name,
+            scopes,
+            expiresAt: expiresAt ? new Date(expiresAt) : undefined
+        });
+
+        await recordAuditEvent(req, {
+            action: 'api-key.create',
+            target: req.user!.id,
+            metadata: { keyId: apiKey._id.toString(), name: apiKey.name, scopes: apiKey.scopes }
+        });
+
+        res.status(201).json({
+            success: true,
+            message: 'API key created. Store it now; it will not be shown again.',
+            data: {
+                apiKey,
+                key
+            }
+        });
+    } catch (error) {
+        if (error instanceof AppError) {
+            res.status(error.statusCode).json({
+                success: false,
+                message: error.message
+            });
+            return;
+        }
+
+        console.error('Create API key error:', error);
+        res.status(500).json({
+            success: false,
+            message: 'Failed to create API key'
+        });
+    }
+};
+
+/**
+ * Revoke one of the current user's API keys
+ * @route DELETE /api/users/api-keys/:keyId
+ */
+export const revokeMyApiKey = async (req: Request, res: Response): Promise<void> => {
+    try {
+        // Check validation errors
+        const errors = validationResult(req);
+        if (!errors.isEmpty()) {
+            res.status(400).json({
+                success: false,
+                errors: errors.array()
+            });
+            return;
+        }
+
+        const apiKey = await revokeApiKey(req.user!.id, req.params.keyId);
+
+        if (!apiKey) {
+            res.status(404).json({
+                success: false,
+                message: 'API key not found'
+            });
+            return;
+        }
+
+        await recordAuditEvent(req, {
+            action: 'api-key.revoke',
+            target: req.user!.id,
+            metadata: { keyId: apiKey._id.toString(), name: apiKey.name }
+        });
+
+        res.status(200).json({
+            success: true,
+            message: 'API key revoked successfully'
+        });
+    } catch (error) {
+        console.error('Revoke API key error:', error);
+        res.status(500).json({
+            success: false,
+            message: 'Failed to revoke API key'
+        });
+    }
+};
+
+/**
+ * List a user's API keys (Admin only)
+ * @route GET /api/users/:id/api-keys
+ */
+export const getUserApiKeys = async (req: Request, res: Response): Promise<void> => {
+    try {
+        const apiKeys = await listApiKeys(req.params.id);
+
+        res.status(200).json({
+            success: true,
+            data: {
+                apiKeys
+            }
+        });
+    } catch (error) {
+        console.error('Get user API keys error:', error);
+        res.status(500).json({
+            success: false,
+            message: 'Failed to retrieve API keys'
+        });
+    }
+};
+
+/**
+ * Revoke one of a user's API keys (Admin only)
+ * @route DELETE /api/users/:id/api-keys/:keyId
+ */
+export const revokeUserApiKey = async (req: Request, res: Response): Promise<void> => {
+    try {
+        // Check validation errors
+        const errors = validationResult(req);
+        if (!errors.isEmpty()) {
+            res.status(400).json({
+                success: false,
+                errors: errors.array()
+            });
+            return;
+        }
+
+        const { id, keyId } = req.params;
+        const apiKey = await revokeApiKey(id, keyId);
+
+        if (!apiKey) {
+            res.status(404).json({
+                success: false,
+                message: 'API key not found'
+            });
+            return;
+        }
+
+        await recordAuditEvent(req, {
+            action: 'api-key.revoke',
+            target: id,
+            metadata: { keyId: apiKey._id.toString(), name: apiKey.name }
+        });
+
+        res.status(200).json({
+            success: true,
+            message: 'API key revoked successfully'
+        });
+    } catch (error) {
+        console.error('Revoke user API key error:', error);
+        res.status(500).json({
+            success: false,
+            message: 'Failed to revoke API key'
+        });
+    }
+};
@@ -0,0 +1,80 @@
+import { Request, Response } from 'express';
+import { validationResult } from 'express-validator';
+import { FilterQuery } from 'mongoose';
+import AuditEvent, { IAuditEvent } from '../models/AuditEvent';
+
+/**
+ * Query the security audit log (Admin only)
+ * @route GET /api/audit
+ */
+export const getAuditEvents = async (req: Request, res: Response): Promise<void> => {
+    try {
+        // Check validation errors
+        const errors = validationResult(req);
+        if (!errors.isEmpty()) {
+            res.status(400).json({
+                success: false,
+                errors: errors.array()
+            });
+            return;
+        }
+
+        const { page = 1, limit = 20, actor, target, action, from, to } = req.query;
+
+        // Build query
+        const query: FilterQuery<IAuditEvent> = {};
+
+        if (actor) {
+            query.actor = actor;
+        }
+
+        if (target) {
+            query.target = target;
+        }
+
+        if (action) {
+            query.action = action;
+        }
+
+        if (from || to) {
+            query.createdAt = {
+                ...(from && { $gte: new Date(from as string) }),
+                ...(to && { $lte: new Date(to as string) })
+            };
+        }
+
+        // Pagination
+        const pageNum = parseInt(page as string);
+        const limitNum = parseInt(limit as string);
+        const skip = (pageNum - 1) * limitNum;
+
+        const [events, total] = await Promise.all([
+            AuditEvent.find(query)
+                .populate('actor', 'email username')
+                .populate('target', 'email username')
+                .skip(skip)
+                .limit(limitNum)
+                .sort({ createdAt: -1 }),
+            AuditEvent.countDocuments(query)
+        ]);
+
+        res.status(200).json({
+            success: true,
+            data: {
+                events,
+                pagination: {
+                    page: pageNum,
+                    limit: limitNum,
+                    total,
+                    pages: Math.ceil(total / limitNum)
+                }
+            }
+        });
+    } catch (error) {
+        console.error('Get audit events error:', error);
+        res.status(500).json({
+            success: false,
+            message: 'Failed to retrieve audit events'
+        });
+    }
+};
@@ -1,8 +1,45 @@
 import { Request, Response } from 'express';
 import { validationResult } from 'express-validator';
+import { FilterQuery } from 'mongoose';
 import User, { IUser } from '../models/User';
-import { generateToken, generateRefreshToken, verifyToken } from '../utils/jwt.utils';
 import { AppError } from '../utils/AppError';
+import { refreshSession, revokeSession, startSession } from '../services/sessionService';
+import {
+    getEmailVerificationPolicy,
+    sendVerificationEmail,
+    verifyEmailToken
+} from '../services/emailVerificationService';
+import { revokeAccessToken } from '../services/tokenRevocationService';
+import { requestPasswordReset, resetPassword as resetPasswordWithToken } from '../services/passwordResetService';
+import { getLoginChallenge, LoginChallenge } from '../services/twoFactorService';
+import { recordAuditEvent } from '../services/auditService';
+import { canSignIn, cancelDeletionOnSignIn } from '../services/accountDeletionService';
+import {
+    claimInvitation,
+    completeInvitation,
+    findPendingInvitation,
+    getRegistrationMode,
+    releaseInvitation
+} from '../services/invitationService';
+import { IInvitation } from '../models/Invitation';
+import {
+    accountKey,
+    checkAttempt,
+    ipKey,
+    recordFailure,
+    recordSuccess,
+    sendAttemptBlocked
+} from '../services/loginAttemptService';
+
+/**
+ * Shape the response for a login that still needs a second factor
+ */
+export const toChallengeResponse = (challenge: LoginChallenge) => ({
+    twoFactorRequired: challenge.purpose === 'verify',
+    twoFactorEnrollmentRequired: challenge.purpose === 'enroll',
+    challengeToken: challenge.challengeToken,
+    expiresIn: challenge.expiresIn
+});
 
 /**
  * Register a new user
@@ -20,7 +57,34 @@ export const register = async (req: Request, res: Response): Promise<void> => {
             return;
         }
 
-        const { email, password, username, firstName, lastName, phoneNumber } = req.body;
+        const { email, password, username, firstName, lastName, phoneNumber, inviteToken } = req.body;
+
+        // An invitation must be for this email; without one, registration must be open
+        let invitation: IInvitation | null = null;
+        if (inviteToken) {
+            invitation = await findPendingInvitation(inviteToken);
+            if (!invitation) {
+                res.status(400).json({
+                    success: false,
+                    message: 'Invalid or expired invitation'
+                });
+                return;
+            }
+
+            if (invitation.email !== email) {
+                res.status(400).json({
+                    success: false,
+                    message: 'This invitation was sent to a different email address'
+                });
+                return;
+            }
+        } else if (getRegistrationMode() === 'invite-only') {
+            res.status(403).json({
+                success: false,
+                message: 'Registration is by invitation only'
+            });
+            return;
+        }
 
         // Check if user already exists
         const existingUser = await User.findOne({
@@ -36,26 +100,92 @@ export const register = async (req: Request, res: Response): Promise<void> => {
             return;
         }
 
-        // Create new user
-        const user = await User.create({
-            email,
-            password,
-            username,
-            firstName,
-            lastName,
-            phoneNumber
+        if (invitation && !await claimInvitation(invitation)) {
+            res.status(400).json({
+                success: false,
+                message: 'Invalid or expired invitation'
+            });
+            return;
+        }
+
+        // Create new user (invitees get the invited role, and the invitation proves their email)
+        let user: IUser;
+        try {
+            user = await User.create({
+                email,
+                password,
+                username,
+                firstName,
+                lastName,
+                phoneNumber,
+                ...(invitation && { role: invitation.role, isEmailVerified: true })
+            });
+        } catch (error) {
+            if (invitation) {
+                await releaseInvitation(invitation);
+            }
+            throw error;
+        }
+
+        if (invitation) {
+            await completeInvitation(invitation, user._id.toString());
+        }
+
+        await recordAuditEvent(req, {
+            action: 'user.register',
+            actor: user._id.toString(),
+            target: user._id.toString(),
+            metadata: invitation ? { invitationId: invitation._id.toString(), role: user.role } : undefined
         });
 
-        // Generate tokens
-        const accessToken = generateToken({
-            id: user._id.toString(),
+        // Send verification email (registration succeeds even if delivery fails)
+        if (!user.isEmailVerified) {
+            try {
+                await sendVerificationEmail(user);
+            } catch (mailError) {
+                console.error('Verification email error:', mailError);
+            }
+        }
+
+        const userResponse = {
+            id: user._id,
             email: user.email,
-            role: user.role
-        });
+            username: user.username,
+            firstName: user.firstName,
+            lastName: user.lastName,
+            role: user.role,
+            fullName: user.getFullName(),
+            isEmailVerified: user.isEmailVerified
+        };
+
+        // Unverified accounts cannot log in yet, so no tokens are issued
+        if (getEmailVerificationPolicy() === 'block-login' && !user.isEmailVerified) {
+            res.status(201).json({
+                success: true,
+                message: 'User registered successfully. Please verify your email address to log in.',
+                data: {
+                    user: userResponse
+                }
+            });
+            return;
+        }
 
-        const refreshToken = generateRefreshToken({
-            id: user._id.toString()
-        });
+        // A role that requires 2FA must enroll before receiving tokens
+        const challenge = await getLoginChallenge(user);
+        if (challenge) {
+            res.status(201).json({
+                success: true,
+                message: 'User registered successfully. Two-factor authentication must be set up before logging in.',
+                data: {
+                    user: userResponse,
+                    ...toChallengeResponse(challenge)
+                }
+            });
+            return;
+        }
+
+        // Start a session and generate its tokens
+        const tokens = await startSession(user, req, req.body.deviceName);
 
         // Update last login
         user.lastLogin = new Date();
@@ -65,20 +195,8 @@ export const register = async (req: Request, res: Response): Promise<void> => {
             success: true,
             message: 'User registered successfully',
             data: {
-                user: {
-                    id: user._id,
-                    email: user.email,
-                    username: user.username,
-                    firstName: user.firstName,
-                    lastName: user.lastName,
-                    role: user.role,
-                    fullName: user.getFullName()
-                },
-                tokens: {
-                    accessToken,
-                    refreshToken,
-                    expiresIn: process.env.JWT_EXPIRES_IN || '7d'
-                }
+                user: userResponse,
+                tokens
             }
         });
     } catch (error) {
@@ -110,14 +228,36 @@ export const login = async (req: Request, res: Response): Promise<void> => {
         }
 
         // Find user by email or username (with password field)
-        const user = await User.findOne({
-            $or: [
-                { email: email?.toLowerCase() },
-                { username }
-            ]
-        }).select('+password');
+        const conditions: FilterQuery<IUser>[] = [];
+        if (email) conditions.push({ email: email.toLowerCase() });
+        if (username) conditions.push({ username });
+
+        const user = await User.findOne({ $or: conditions }).select('+password');
+
+        // Throttle failures per account (or typed identifier if unknown) and per client IP
+        const attemptKeys = [
+            accountKey(user ? user._id.toString() : email || username),
+            ipKey(req.ip)
+        ];
+        const attempt = await checkAttempt(attemptKeys);
+        if (attempt.status !== 'allowed') {
+            await recordAuditEvent(req, {
+                action: 'auth.login-failed',
+                actor: null,
+                target: user ? user._id.toString() : null,
+                metadata: { reason: attempt.status, identifier: email || username }
+            });
+            sendAttemptBlocked(res, attempt);
+            return;
+        }
 
         if (!user) {
+            await recordFailure(attemptKeys);
+            await recordAuditEvent(req, {
+                action: 'auth.login-failed',
+                actor: null,
+                metadata: { reason: 'unknown-user', identifier: email || username }
+            });
             res.status(401).json({
                 success: false,
                 message: 'Invalid credentials'
@@ -125,8 +265,14 @@ export const login = async (req: Request, res: Response): Promise<void> => {
             return;
         }
 
-        // Check if user is active
-        if (!user.isActive) {
+        // Check if user is active (accounts pending deletion may sign in to cancel it)
+        if (!canSignIn(user)) {
+            await recordAuditEvent(req, {
+                action: 'auth.login-failed',
+                actor: null,
+                target: user._id.toString(),
+                metadata: { reason: 'inactive' }
+            });
             res.status(403).json({
                 success: false,
                 message: 'Your account has been deactivated. Please contact support.'
@@ -137,6 +283,13 @@ export const login = async (req: Request, res: Response): Promise<void> => {
         // Verify password
         const isPasswordValid = await user.comparePassword(password);
         if (!isPasswordValid) {
+            await recordFailure(attemptKeys);
+            await recordAuditEvent(req, {
+                action: 'auth.login-failed',
+                actor: null,
+                target: user._id.toString(),
+                metadata: { reason: 'invalid-password' }
+            });
             res.status(401).json({
                 success: false,
                 message: 'Invalid credentials'
@@ -144,24 +297,52 @@ export const login = async (req: Request, res: Response): Promise<void> => {
             return;
         }
 
-        // Generate tokens
-        const accessToken = generateToken({
-            id: user._id.toString(),
-            email: user.email,
-            role: user.role
-        });
+        await recordSuccess([attemptKeys[0]]);
 
-        const refreshToken = generateRefreshToken({
-            id: user._id.toString()
-        });
+        // Check email verification
+        if (!user.isEmailVerified && getEmailVerificationPolicy() === 'block-login') {
+            res.status(403).json({
+                success: false,
+                message: 'Please verify your email address before logging in'
+            });
+            return;
+        }
+
+        // Require a second factor when the user enabled it or their role requires it
+        const challenge = await getLoginChallenge(user);
+        if (challenge) {
+            res.status(200).json({
+                success: true,
+                message: challenge.purpose === 'verify'
+                    ? 'Two-factor authentication required'
+                    : 'Two-factor authentication must be set up before logging in',
+                data: toChallengeResponse(challenge)
+            });
+            return;
+        }
+
+        // Signing in cancels a pending account deletion
+        const deletionCancelled = await cancelDeletionOnSignIn(req, user);
+
+        // Start a session and generate its tokens
+        const tokens = await startSession(user, req, req.body.deviceName);
 
         // Update last login
         user.lastLogin = new Date();
         await user.save();
 
+        await recordAuditEvent(req, {
+            action: 'auth.login',
+            actor: user._id.toString(),
+            target: user._id.toString(),
+            metadata: { method: 'password' }
+        });
+
         res.status(200).json({
             success: true,
-            message: 'Login successful',
+            message: deletionCancelled
+                ? 'Login successful. Your account deletion has been cancelled.'
+                : 'Login successful',
             data: {
                 user: {
                     id: user._id,
@@ -173,11 +354,7 @@ export const login = async (req: Request, res: Response): Promise<void> => {
                     fullName: user.getFullName(),
                     lastLogin: user.lastLogin
                 },
-                tokens: {
-                    accessToken,
-                    refreshToken,
-                    expiresIn: process.env.JWT_EXPIRES_IN || '7d'
-                }
+                tokens
             }
         });
     } catch (error) {
@@ -206,58 +383,218 @@ export const refreshToken = async (req: Request, res: Response): Promise<void> =
             return;
         }
 
-        // Verify refresh token
-        const decoded = verifyToken(refreshToken, true) as { id: string };
+        // Rotate refresh token (revokes the presented one) and issue a new access token
+        const tokens = await refreshSession(refreshToken, req);
+
+        res.status(200).json({
+            success: true,
+            message: 'Token refreshed successfully',
+            data: tokens
+        });
+    } catch (error) {
+        if (error instanceof AppError) {
+            res.status(error.statusCode).json({
+                success: false,
+                message: error.message
+            });
+            return;
+        }
+
+        console.error('Refresh token error:', error);
+        res.status(500).json({
+            success: false,
+            message: 'Failed to refresh token'
+        });
+    }
+};
+
+/**
+ * Logout user
+ * @route POST /api/auth/logout
+ */
+export const logout = async (req: Request, res: Response): Promise<void> => {
+    try {
+        // Revoke the access token used for this request until it expires
+        if (req.user?.jti && req.user.exp) {
+            await revokeAccessToken(req.user.jti, new Date(req.user.exp * 1000), req.user.id, 'logout');
+        }
+
+        // End the session along with its refresh tokens
+        if (req.user?.sid) {
+            await revokeSession(req.user.id, req.user.sid, 'logout');
+        }
+
+        await recordAuditEvent(req, { action: 'auth.logout', target: req.user?.id });
+
+        res.status(200).json({
+            success: true,
+            message: 'Logged out successfully'
+        });
+    } catch (error) {
+        console.error('Logout error:', error);
+        res.status(500).json({
+            success: false,
+            message: 'Failed to logout'
+        });
+    }
+};
+
+/**
+ * Verify email address
+ * @route POST /api/auth/verify-email
+ */
+export const verifyEmail = async (req: Request, res: Response): Promise<void> => {
+    try {
+        // Check validation errors
+        const errors = validationResult(req);
+        if (!errors.isEmpty()) {
+            res.status(400).json({
+                success: false,
+                errors: errors.array()
+            });
+            return;
+        }
+
+        const user = await verifyEmailToken(req.body.token);
 
-        // Get user
-        const user = await User.findById(decoded.id);
         if (!user) {
-            res.status(404).json({
+            res.status(400).json({
                 success: false,
-                message: 'User not found'
+                message: 'Invalid or expired verification token'
             });
             return;
         }
 
-        // Generate new access token
-        const newAccessToken = generateToken({
-            id: user._id.toString(),
-            email: user.email,
-            role: user.role
+        await recordAuditEvent(req, {
+            action: 'user.email-verify',
+            actor: user._id.toString(),
+            target: user._id.toString()
         });
 
         res.status(200).json({
             success: true,
-            message: 'Token refreshed successfully',
+            message: 'Email verified successfully',
             data: {
-                accessToken: newAccessToken,
-                expiresIn: process.env.JWT_EXPIRES_IN || '7d'
+                user: {
+                    id: user._id,
+                    email: user.email,
+                    isEmailVerified: user.isEmailVerified
+                }
             }
         });
     } catch (error) {
-        res.status(401).json({
+        console.error('Verify email error:', error);
+        res.status(500).json({
             success: false,
-            message: 'Invalid refresh token'
+            message: 'Failed to verify email'
         });
     }
 };
 
 /**
- * Logout user
- * @route POST /api/auth/logout
+ * Resend verification email
+ * @route POST /api/auth/verify-email/resend
  */
-export const logout = async (req: Request, res: Response): Promise<void> => {
-    // In a production app, you might want to:
-    // 1. Blacklist the token
-    // 2. Clear refresh token from database
-    // 3. Clear any server-side sessions
+export const resendVerificationEmail = async (req: Request, res: Response): Promise<void> => {
+    try {
+        // Check validation errors
+        const errors = validationResult(req);
+        if (!errors.isEmpty()) {
+            res.status(400).json({
+                success: false,
+                errors: errors.array()
+            });
+            return;
+        }
+
+        const user = await User.findOne({ email: req.body.email });
+
+        if (user && user.isActive && !user.isEmailVerified) {
+            await sendVerificationEmail(user);
+        }
+
+        // Same response either way so the endpoint cannot be used to probe for accounts
+        res.status(200).json({
+            success: true,
+            message: 'If the account exists and is not verified yet, a verification email has been sent'
+        });
+    } catch (error) {
+        console.error('Resend verification error:', error);
+        res.status(500).json({
+            success: false,
+            message: 'Failed to send verification email'
+        });
+    }
+};
+
+/**
+ * Request a password reset email
+ * @route POST /api/auth/forgot-password
+ */
+export const forgotPassword = async (req: Request, res: Response): Promise<void> => {
+    // Check validation errors
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+        res.status(400).json({
+            success: false,
+            errors: errors.array()
+        });
+        return;
+    }
+
+    // Not awaited: response content and timing must not reveal whether the account exists
+    requestPasswordReset(req.body.email).catch((error) => {
+        console.error('Forgot password error:', error);
+    });
 
     res.status(200).json({
         success: true,
-        message: 'Logged out successfully'
+        message: 'If an account with that email exists, a password reset link has been sent'
     });
 };
 
+/**
+ * Reset password with a reset token
+ * @route POST /api/auth/reset-password
+ */
+export const resetPassword = async (req: Request, res: Response): Promise<void> => {
+    try {
+        // Check validation errors
+        const errors = validationResult(req);
+        if (!errors.isEmpty()) {
+            res.status(400).json({
+                success: false,
+                errors: errors.array()
+            });
+            return;
+        }
+
+        const { token, newPassword } = req.body;
+        const userId = await resetPasswordWithToken(token, newPassword);
+
+        if (!userId) {
+            res.status(400).json({
+                success: false,
+                message: 'Invalid or expired reset token'
+            });
+            return;
+        }
+
+        await recordAuditEvent(req, { action: 'user.password-reset', actor: userId, target: userId });
+
+        res.status(200).json({
+            success: true,
+            message: 'Password reset successfully. Please log in with your new password.'
+        });
+    } catch (error) {
+        console.error('Reset password error:', error);
+        res.status(500).json({
+            success: false,
+            message: 'Failed to reset password'
+        });
+    }
+};
+
 /**
  * Get current user
  * @route GET /api/auth/me
@@ -0,0 +1,135 @@
+import { Request, Response } from 'express';
+import { validationResult } from 'express-validator';
+import { AppError } from '../utils/AppError';
+import { getDataExport, redeemDataExport, requestDataExport } from '../services/dataExportService';
+import { recordAuditEvent } from '../services/auditService';
+
+/**
+ * Start exporting everything stored about the current user. Returns a
+ * one-time download link that works once the export is ready.
+ * @route POST /api/users/me/export
+ */
+export const createMyDataExport = async (req: Request, res: Response): Promise<void> => {
+    try {
+        const { dataExport, token } = await requestDataExport(req.user!.id);
+
+        await recordAuditEvent(req, {
+            action: 'user.data-export',
+            target: req.user!.id,
+            metadata: { exportId: dataExport._id.toString() }
+        });
+
+        res.status(202).json({
+            success: true,
+            message: 'Your data export is being prepared. The download link works once, when it is ready.',
+            data: {
+                export: dataExport,
+                downloadUrl: `/api/users/me/export/download?token=${token}`
+            }
+        });
+    } catch (error) {
+        if (error instanceof AppError) {
+            res.status(error.statusCode).json({
+                success: false,
+                message: error.message
+            });
+            return;
+        }
+
+        console.error('Create data export error:', error);
+        res.status(500).json({
+            success: false,
+            message: 'Failed to start data export'
+        });
+    }
+};
+
+/**
+ * Check the progress of one of the current user's data exports
+ * @route GET /api/users/me/export/:exportId
+ */
+export const getMyDataExport = async (req: Request, res: Response): Promise<void> => {
+    try {
+        // Check validation errors
+        const errors = validationResult(req);
+        if (!errors.isEmpty()) {
+            res.status(400).json({
+                success: false,
+                errors: errors.array()
+            });
+            return;
+        }
+
+        const dataExport = await getDataExport(req.user!.id, req.params.exportId);
+
+        if (!dataExport) {
+            res.status(404).json({
+                success: false,
+                message: 'Data export not found'
+            });
+            return;
+        }
+
+        res.status(200).json({
+            success: true,
+            data: {
+                export: dataExport
+            }
+        });
+    } catch (error) {
+        console.error('Get data export error:', error);
+        res.status(500).json({
+            success: false,
+            message: 'Failed to retrieve data export'
+        });
+    }
+};
+
+/**
+ * Download a data export archive (gzipped JSON). The token in the link is the
+ * credential, so no login is needed, and it works only once.
+ * @route GET /api/users/me/export/download
+ */
+export const downloadDataExport = async (req: Request, res: Response): Promise<void> => {
+    try {
+        // Check validation errors
+        const errors = validationResult(req);
+        if (!errors.isEmpty()) {
+            res.status(400).json({
+                success: false,
+                errors: errors.array()
+            });
+            return;
+        }
+
+        const dataExport = await redeemDataExport(req.query.token as string);
+
+        if (!dataExport || !dataExport.archive) {
+            res.status(404).json({
+                success: false,
+                message: 'Download link is invalid, expired, already used, or the export is not ready yet'
+            });
+            return;
+        }
+
+        await recordAuditEvent(req, {
+            action: 'user.data-export-download',
+            actor: dataExport.user.toString(),
+            target: dataExport.user.toString(),
+            metadata: { exportId: dataExport._id.toString() }
+        });
+
+        const date = dataExport.createdAt.toISOString().slice(0, 10);
+        res.status(200);
+        res.setHeader('Content-Type', 'application/gzip');
+        res.setHeader('Content-Disposition', `attachment; filename="my-data-${date}.json.gz"`);
+        res.setHeader('Cache-Control', 'no-store');
+        res.send(dataExport.archive);
+    } catch (error) {
+        console.error('Download data export error:', error);
+        res.status(500).json({
+            success: false,
+            message: 'Failed to download data export'
+        });
+    }
+};
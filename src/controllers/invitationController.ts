@@ -0,0 +1,222 @@
+import { Request, Response } from 'express';
+import { validationResult } from 'express-validator';
+import { AppError } from '../utils/AppError';
+import { DEFAULT_ROLE } from '../config/roles';
+import { InvitationStatus } from '../models/Invitation';
+import {
+    createInvitation,
+    getRegistrationMode,
+    listInvitations,
+    resendInvitation,
+    revokeInvitation
+} from '../services/invitationService';
+import { recordAuditEvent } from '../services/auditService';
+
+/**
+ * List invitations (Admin only)
+ * @route GET /api/invitations
+ */
+export const getInvitations = async (req: Request, res: Response): Promise<void> => {
+    try {
+        // Check validation errors
+        const errors = validationResult(req);
+        if (!errors.isEmpty()) {
+            res.status(400).json({
+                success: false,
+                errors: errors.array()
+            });
+            return;
+        }
+
+        const { page = 1, limit = 20, status, email } = req.query;
+
+        // Pagination
+        const pageNum = parseInt(page as string);
+        const limitNum = parseInt(limit as string);
+
+        const { invitations, total } = await listInvitations({
+            status: status as InvitationStatus | undefined,
+            email: email as string | undefined,
+            page: pageNum,
+            limit: limitNum
+        });
+
+        res.status(200).json({
+            success: true,
+            data: {
+                invitations,
+                registrationMode: getRegistrationMode(),
+                pagination: {
+                    page: pageNum,
+                    limit: limitNum,
+                    total,
+                    pages: Math.ceil(total / limitNum)
+                }
+            }
+        });
+    } catch (error) {
+        console.error('Get invitations error:', error);
+        res.status(500).json({
+            success: false,
+            message: 'Failed to retrieve invitations'
+        });
+    }
+};
+
+/**
+ * Invite a user by email, optionally with a role (Admin only)
+ * @route POST /api/invitations
+ */
+export const createUserInvitation = async (req: Request, res: Response): Promise<void> => {
+    try {
+        // Check validation errors
+        const errors = validationResult(req);
+        if (!errors.isEmpty()) {
+            res.status(400).json({
+                success: false,
+                errors: errors.array()
+            });
+            return;
+        }
+
+        const { email, role = DEFAULT_ROLE } = req.body;
+        const invitation = await createInvitation(email, role, req.user!.id);
+
+        await recordAuditEvent(req, {
+            action: 'invitation.create',
+            metadata: { invitationId: invitation._id.toString(), email: invitation.email, role: invitation.role }
+        });
+
+        res.status(201).json({
+            success: true,
+            message: 'Invitation sent successfully',
+            data: {
+                invitation
+            }
+        });
+    } catch (error) {
+        if (error instanceof AppError) {
+            res.status(error.statusCode).json({
+                success: false,
+                message: error.message
+            });
+            return;
+        }
+
+        console.error('Create invitation error:', error);
+        res.status(500).json({
+            success: false,
+            message: 'Failed to send invitation'
+        });
+    }
+};
+
+/**
+ * Resend an invitation with a new link and expiry (Admin only)
+ * @route POST /api/invitations/:id/resend
+ */
+export const resendUserInvitation = async (req: Request, res: Response): Promise<void> => {
+    try {
+        // Check validation errors
+        const errors = validationResult(req);
+        if (!errors.isEmpty()) {
+            res.status(400).json({
+                success: false,
+                errors: errors.array()
+            });
+            return;
+        }
+
+        const invitation = await resendInvitation(req.params.id);
+
+        if (!invitation) {
+            res.status(404).json({
+                success: false,
+                message: 'Invitation not found'
+            });
+            return;
+        }
+
+        await recordAuditEvent(req, {
+            action: 'invitation.resend',
+            metadata: { invitationId: invitation._id.toString(), email: invitation.email }
+        });
+
+        res.status(200).json({
+            success: true,
+            message: 'Invitation resent successfully',
+            data: {
+                invitation
+            }
+        });
+    } catch (error) {
+        if (error instanceof AppError) {
+            res.status(error.statusCode).json({
+                success: false,
+                message: error.message
+            });
+            return;
+        }
+
+        console.error('Resend invitation error:', error);
+        res.status(500).json({
+            success: false,
+            message: 'Failed to resend invitation'
+        });
+    }
+};
+
+/**
+ * Revoke an invitation (Admin only)
+ * @route DELETE /api/invitations/:id
+ */
+export const revokeUserInvitation = async (req: Request, res: Response): Promise<void> => {
+    try {
+        // Check validation errors
+        const errors = validationResult(req);
+        if (!errors.isEmpty()) {
+            res.status(400).json({
+                success: false,
+                errors: errors.array()
+            });
+            return;
+        }
+
+        const invitation = await revokeInvitation(req.params.id);
+
+        if (!invitation) {
+            res.status(404).json({
+                success: false,
+                message: 'Invitation not found'
+            });
+            return;
+        }
+
+        await recordAuditEvent(req, {
+            action: 'invitation.revoke',
+            metadata: { invitationId: invitation._id.toString(), email: invitation.email }
+        });
+
+        res.status(200).json({
+            success: true,
+            message: 'Invitation revoked successfully',
+            data: {
+                invitation
+            }
+        });
+    } catch (error) {
+        if (error instanceof AppError) {
+            res.status(error.statusCode).json({
+                success: false,
+                message: error.message
+            });
+            return;
+        }
+
+        console.error('Revoke invitation error:', error);
+        res.status(500).json({
+            success: false,
+            message: 'Failed to revoke invitation'
+        });
+    }
+};
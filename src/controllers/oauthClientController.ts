@@ -0,0 +1,266 @@
+import { Request, Response } from 'express';
+import { validationResult } from 'express-validator';
+import OAuthClient from '../models/OAuthClient';
+import { AppError } from '../utils/AppError';
+import {
+    createOAuthClient,
+    deleteOAuthClient,
+    rotateClientSecret,
+    updateOAuthClient
+} from '../services/oauthClientService';
+import { recordAuditEvent } from '../services/auditService';
+
+/**
+ * List registered OAuth clients (Admin only)
+ * @route GET /api/oauth/clients
+ */
+export const getOAuthClients = async (req: Request, res: Response): Promise<void> => {
+    try {
+        const clients = await OAuthClient.find().sort({ createdAt: -1 });
+
+        res.status(200).json({
+            success: true,
+            data: {
+                clients
+            }
+        });
+    } catch (error) {
+        console.error('Get OAuth clients error:', error);
+        res.status(500).json({
+            success: false,
+            message: 'Failed to retrieve OAuth clients'
+        });
+    }
+};
+
+/**
+ * Get an OAuth client by ID (Admin only)
+ * @route GET /api/oauth/clients/:id
+ */
+export const getOAuthClientById = async (req: Request, res: Response): Promise<void> => {
+    try {
+        const client = await OAuthClient.findById(req.params.id);
+
+        if (!client) {
+            res.status(404).json({
+                success: false,
+                message: 'OAuth client not found'
+            });
+            return;
+        }
+
+        res.status(200).json({
+            success: true,
+            data: {
+                client
+            }
+        });
+    } catch (error) {
+        console.error('Get OAuth client error:', error);
+        res.status(500).json({
+            success: false,
+            message: 'Failed to retrieve OAuth client'
+        });
+    }
+};
+
+/**
+ * Register an OAuth client. The secret of a confidential client is only returned here.
+ * @route POST /api/oauth/clients
+ */
+export const createClient = async (req: Request, res: Response): Promise<void> => {
+    try {
+        // Check validation errors
+        const errors = validationResult(req);
+        if (!errors.isEmpty()) {
+            res.status(400).json({
+                success: false,
+                errors: errors.array()
+            });
+            return;
+        }
+
+        const { name, type, redirectUris, grantTypes, scopes, firstParty } = req.body;
+        const { client, clientSecret } = await createOAuthClient(
+            { name, type, redirectUris, grantTypes, scopes, firstParty },
+            req.user!.id
+        );
+
+        await recordAuditEvent(req, {
+            action: 'oauth.client-create',
+            after: client.toJSON(),
+            metadata: { clientId: client.clientId }
+        });
+
+        res.status(201).json({
+            success: true,
+            message: clientSecret
+                ? 'OAuth client created. Store the client secret now; it will not be shown again.'
+                : 'OAuth client created',
+            data: {
+                client,
+                clientSecret
+            }
+        });
+    } catch (error) {
+        if (error instanceof AppError) {
+            res.status(error.statusCode).json({
+                success: false,
+                message: error.message
+            });
+            return;
+        }
+
+        console.error('Create OAuth client error:', error);
+        res.status(500).json({
+            success: false,
+            message: 'Failed to create OAuth client'
+        });
+    }
+};
+
+/**
+ * Update an OAuth client's settings (Admin only)
+ * @route PATCH /api/oauth/clients/:id
+ */
+export const updateClient = async (req: Request, res: Response): Promise<void> => {
+    try {
+        // Check validation errors
+        const errors = validationResult(req);
+        if (!errors.isEmpty()) {
+            res.status(400).json({
+                success: false,
+                errors: errors.array()
+            });
+            return;
+        }
+
+        const before = await OAuthClient.findById(req.params.id);
+        const { name, redirectUris, grantTypes, scopes, firstParty, isActive } = req.body;
+        const client = await updateOAuthClient(req.params.id, {
+            name,
+            redirectUris,
+            grantTypes,
+            scopes,
+            firstParty,
+            isActive
+        });
+
+        if (!before || !client) {
+            res.status(404).json({
+                success: false,
+                message: 'OAuth client not found'
+            });
+            return;
+        }
+
+        await recordAuditEvent(req, {
+            action: 'oauth.client-update',
+            before: before.toJSON(),
+            after: client.toJSON(),
+            metadata: { clientId: client.clientId }
+        });
+
+        res.status(200).json({
+            success: true,
+            message: 'OAuth client updated successfully',
+            data: {
+                client
+            }
+        });
+    } catch (error) {
+        if (error instanceof AppError) {
+            res.status(error.statusCode).json({
+                success: false,
+                message: error.message
+            });
+            return;
+        }
+
+        console.error('Update OAuth client error:', error);
+        res.status(500).json({
+            success: false,
+            message: 'Failed to update OAuth client'
+        });
+    }
+};
+
+/**
+ * Replace a confidential client's secret (Admin only)
+ * @route POST /api/oauth/clients/:id/rotate-secret
+ */
+export const rotateSecret = async (req: Request, res: Response): Promise<void> => {
+    try {
+        const result = await rotateClientSecret(req.params.id);
+
+        if (!result) {
+            res.status(404).json({
+                success: false,
+                message: 'OAuth client not found'
+            });
+            return;
+        }
+
+        await recordAuditEvent(req, {
+            action: 'oauth.client-secret-rotate',
+            metadata: { clientId: result.client.clientId }
+        });
+
+        res.status(200).json({
+            success: true,
+            message: 'Client secret rotated. Store it now; it will not be shown again.',
+            data: {
+                clientSecret: result.clientSecret
+            }
+        });
+    } catch (error) {
+        if (error instanceof AppError) {
+            res.status(error.statusCode).json({
+                success: false,
+                message: error.message
+            });
+            return;
+        }
+
+        console.error('Rotate client secret error:', error);
+        res.status(500).json({
+            success: false,
+            message: 'Failed to rotate client secret'
+        });
+    }
+};
+
+/**
+ * Delete an OAuth client (Admin only)
+ * @route DELETE /api/oauth/clients/:id
+ */
+export const deleteClient = async (req: Request, res: Response): Promise<void> => {
+    try {
+        const client = await deleteOAuthClient(req.params.id);
+
+        if (!client) {
+            res.status(404).json({
+                success: false,
+                message: 'OAuth client not found'
+            });
+            return;
+        }
+
+        await recordAuditEvent(req, {
+            action: 'oauth.client-delete',
+            before: client.toJSON(),
+            metadata: { clientId: client.clientId }
+        });
+
+        res.status(200).json({
+            success: true,
+            message: 'OAuth client deleted successfully'
+        });
+    } catch (error) {
+        console.error('Delete OAuth client error:', error);
+        res.status(500).json({
+            success: false,
+            message: 'Failed to delete OAuth client'
+        });
+    }
+};
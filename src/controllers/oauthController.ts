@@ -0,0 +1,282 @@
+import { Request, Response } from 'express';
+import { validationResult } from 'express-validator';
+import {
+    approveAuthorization,
+    authenticateClient,
+    denyAuthorization,
+    describeScopes,
+    exchangeAuthorizationCode,
+    getActiveAccessToken,
+    getErrorRedirect,
+    getUserInfo,
+    introspectToken,
+    isConsentRequired,
+    issueClientCredentialsToken,
+    OAuthError,
+    revokeOAuthToken,
+    validateAuthorizationRequest
+} from '../services/oauthService';
+import { recordAuditEvent } from '../services/auditService';
+
+/**
+ * Read client credentials from HTTP Basic auth or, failing that, the request body
+ * (client_secret_basic and client_secret_post)
+ */
+const getClientCredentials = (req: Request): { clientId?: string; clientSecret?: string } => {
+    const authHeader = req.headers.authorization;
+    if (authHeader && authHeader.startsWith('Basic ')) {
+        const decoded = Buffer.from(authHeader.substring(6), 'base64').toString();
+        const separator = decoded.indexOf(':');
+        try {
+            return {
+                clientId: decodeURIComponent(decoded.slice(0, separator)),
+                clientSecret: decodeURIComponent(decoded.slice(separator + 1))
+            };
+        } catch (error) {
+            // Malformed credentials fail client authentication
+            return {};
+        }
+    }
+
+    return {
+        clientId: req.body.client_id,
+        clientSecret: req.body.client_secret
+    };
+};
+
+/**
+ * Fail a token endpoint request that did not pass validation: malformed client
+ * credentials with invalid_client, any other parameter with invalid_request
+ */
+const checkTokenEndpointRequest = (req: Request): void => {
+    const errors = validationResult(req).array();
+    if (errors.length === 0) {
+        return;
+    }
+
+    if (errors.some(error => error.type === 'field' && ['client_id', 'client_secret'].includes(error.path))) {
+        throw new OAuthError('invalid_client', 'Client authentication failed', 401);
+    }
+
+    throw new OAuthError('invalid_request', String(errors[0].msg));
+};
+
+/**
+ * Send an error in the format of RFC 6749 section 5.2
+ */
+const sendOAuthError = (res: Response, error: unknown, context: string): void => {
+    if (error instanceof OAuthError) {
+        if (error.statusCode === 401) {
+            res.set('WWW-Authenticate', 'Basic realm="oauth"');
+        }
+        res.status(error.statusCode).json({
+            error: error.error,
+            error_description: error.message
+        });
+        return;
+    }
+
+    console.error(`${context} error:`, error);
+    res.status(500).json({
+        error: 'server_error',
+        error_description: 'The request could not be completed'
+    });
+};
+
+/**
+ * Send an authorization request error. Errors the client may see are returned
+ * with the redirect that reports them; the rest are only shown to the user.
+ */
+const sendAuthorizationError = (res: Response, error: unknown): void => {
+    if (error instanceof OAuthError) {
+        res.status(error.statusCode).json({
+            success: false,
+            message: error.message,
+            error: error.error,
+            redirectUrl: getErrorRedirect(error)
+        });
+        return;
+    }
+
+    console.error('OAuth authorize error:', error);
+    res.status(500).json({
+        success: false,
+        message: 'Failed to process authorization request'
+    });
+};
+
+/**
+ * Check an authorization request and describe it for the consent screen.
+ * The user logs in through /api/auth/login first, so the usual 2FA and lockout rules apply.
+ * @route GET /oauth/authorize
+ */
+export const getAuthorization = async (req: Request, res: Response): Promise<void> => {
+    try {
+        const request = await validateAuthorizationRequest(req.query);
+
+        res.status(200).json({
+            success: true,
+            data: {
+                client: {
+                    clientId: request.client.clientId,
+                    name: request.client.name,
+                    firstParty: request.client.firstParty
+                },
+                scopes: describeScopes(request.scopes),
+                redirectUri: request.redirectUri,
+                consentRequired: await isConsentRequired(req.user!.id, request)
+            }
+        });
+    } catch (error) {
+        sendAuthorizationError(res, error);
+    }
+};
+
+/**
+ * Approve or deny an authorization request and return the redirect back to the client
+ * @route POST /oauth/authorize
+ */
+export const decideAuthorization = async (req: Request, res: Response): Promise<void> => {
+    try {
+        // Check validation errors
+        const errors = validationResult(req);
+        if (!errors.isEmpty()) {
+            res.status(400).json({
+                success: false,
+                errors: errors.array()
+            });
+            return;
+        }
+
+        const request = await validateAuthorizationRequest(req.body);
+        const approved = req.body.approve === true || req.body.approve === 'true';
+
+        if (!approved) {
+            res.status(200).json({
+                success: true,
+                data: {
+                    redirectUrl: denyAuthorization(request)
+                }
+            });
+            return;
+        }
+
+        const consentRequired = await isConsentRequired(req.user!.id, request);
+        const redirectUrl = await approveAuthorization(req.user!.id, request);
+
+        if (consentRequired) {
+            await recordAuditEvent(req, {
+                action: 'oauth.consent-grant',
+                target: req.user!.id,
+                metadata: { clientId: request.client.clientId, scopes: request.scopes }
+            });
+        }
+
+        res.status(200).json({
+            success: true,
+            data: {
+                redirectUrl
+            }
+        });
+    } catch (error) {
+        sendAuthorizationError(res, error);
+    }
+};
+
+/**
+ * Issue an access token (authorization_code or client_credentials grant)
+ * @route POST /oauth/token
+ */
+export const token = async (req: Request, res: Response): Promise<void> => {
+    // Token responses must never be cached (RFC 6749 section 5.1)
+    res.set('Cache-Control', 'no-store');
+
+    try {
+        checkTokenEndpointRequest(req);
+
+        const { clientId, clientSecret } = getClientCredentials(req);
+        const client = await authenticateClient(clientId, clientSecret);
+        const { grant_type: grantType } = req.body;
+
+        let response;
+        if (grantType === 'authorization_code') {
+            response = await exchangeAuthorizationCode(client, req.body);
+        } else if (grantType === 'client_credentials') {
+            response = await issueClientCredentialsToken(client, req.body.scope);
+        } else {
+            throw new OAuthError(
+                'unsupported_grant_type',
+                'Only the authorization_code and client_credentials grants are supported'
+            );
+        }
+
+        res.status(200).json(response);
+    } catch (error) {
+        sendOAuthError(res, error, 'OAuth token');
+    }
+};
+
+/**
+ * Tell a resource server whether a token is active and what it grants (RFC 7662)
+ * @route POST /oauth/introspect
+ */
+export const introspect = async (req: Request, res: Response): Promise<void> => {
+    try {
+        checkTokenEndpointRequest(req);
+
+        // Only confidential clients (resource servers) may inspect tokens
+        const { clientId, clientSecret } = getClientCredentials(req);
+        const client = await authenticateClient(clientId, clientSecret);
+        if (client.type !== 'confidential') {
+            throw new OAuthError('unauthorized_client', 'Public clients cannot introspect tokens', 403);
+        }
+
+        res.status(200).json(await introspectToken(req.body.token));
+    } catch (error) {
+        sendOAuthError(res, error, 'OAuth introspect');
+    }
+};
+
+/**
+ * Revoke an access token issued to the calling client (RFC 7009)
+ * @route POST /oauth/revoke
+ */
+export const revoke = async (req: Request, res: Response): Promise<void> => {
+    try {
+        checkTokenEndpointRequest(req);
+
+        const { clientId, clientSecret } = getClientCredentials(req);
+        const client = await authenticateClient(clientId, clientSecret);
+
+        await revokeOAuthToken(client, req.body.token);
+        res.status(200).end();
+    } catch (error) {
+        sendOAuthError(res, error, 'OAuth revoke');
+    }
+};
+
+/**
+ * Return the claims about the user that the token's scopes allow
+ * @route GET /oauth/userinfo
+ */
+export const userinfo = async (req: Request, res: Response): Promise<void> => {
+    try {
+        const authHeader = req.headers.authorization;
+        const accessToken = authHeader && authHeader.startsWith('Bearer ') ? authHeader.substring(7) : null;
+        const payload = accessToken ? await getActiveAccessToken(accessToken) : null;
+        const claims = payload ? await getUserInfo(payload) : null;
+
+        if (!claims) {
+            res.set('WWW-Authenticate', 'Bearer error="invalid_token"');
+            res.status(401).json({
+                error: 'invalid_token',
+                error_description: 'The access token is invalid, expired or not issued for a user'
+            });
+            return;
+        }
+
+        res.status(200).json(claims);
+    } catch (error) {
+        sendOAuthError(res, error, 'OAuth userinfo');
+    }
+};
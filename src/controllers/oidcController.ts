@@ -0,0 +1,298 @@
+import { Request, Response } from 'express';
+import { validationResult } from 'express-validator';
+import { AppError } from '../utils/AppError';
+import { getOidcProviders } from '../config/oidcProviders';
+import { beginAuthorization, completeAuthorization } from '../services/oidcService';
+import {
+    linkExternalIdentity,
+    listExternalIdentities,
+    signInWithExternalIdentity,
+    unlinkExternalIdentity
+} from '../services/externalIdentityService';
+import { startSession } from '../services/sessionService';
+import { canSignIn, cancelDeletionOnSignIn } from '../services/accountDeletionService';
+import { getLoginChallenge } from '../services/twoFactorService';
+import { recordAuditEvent } from '../services/auditService';
+import { toChallengeResponse } from './authController';
+
+/**
+ * List the enabled sign-in providers
+ * @route GET /api/auth/oidc/providers
+ */
+export const getProviders = async (req: Request, res: Response): Promise<void> => {
+    try {
+        res.status(200).json({
+            success: true,
+            data: {
+                providers: getOidcProviders().map(provider => provider.name)
+            }
+        });
+    } catch (error) {
+        console.error('Get sign-in providers error:', error);
+        res.status(500).json({
+            success: false,
+            message: 'Failed to retrieve sign-in providers'
+        });
+    }
+};
+
+/**
+ * Start signing in with a provider
+ * @route GET /api/auth/oidc/:provider/authorize
+ */
+export const authorize = async (req: Request, res: Response): Promise<void> => {
+    try {
+        const authorizationUrl = await beginAuthorization(req.params.provider, 'login');
+
+        res.status(200).json({
+            success: true,
+            data: {
+                authorizationUrl
+            }
+        });
+    } catch (error) {
+        if (error instanceof AppError) {
+            res.status(error.statusCode).json({
+                success: false,
+                message: error.message
+            });
+            return;
+        }
+
+        console.error('OIDC authorize error:', error);
+        res.status(500).json({
+            success: false,
+            message: 'Failed to start sign-in with provider'
+        });
+    }
+};
+
+/**
+ * Complete a provider sign-in or link request with the code and state from the redirect
+ * @route POST /api/auth/oidc/:provider/callback
+ */
+export const callback = async (req: Request, res: Response): Promise<void> => {
+    try {
+        // Check validation errors
+        const errors = validationResult(req);
+        if (!errors.isEmpty()) {
+            res.status(400).json({
+                success: false,
+                errors: errors.array()
+            });
+            return;
+        }
+
+        const { provider } = req.params;
+        const { code, state, deviceName } = req.body;
+        const result = await completeAuthorization(provider, code, state);
+
+        // Linking must be completed by the same user who started it
+        if (result.intent === 'link') {
+            if (!req.user || req.user.id !== result.userId) {
+                res.status(403).json({
+                    success: false,
+                    message: 'Log in to the account that started linking to complete it'
+                });
+                return;
+            }
+
+            const identity = await linkExternalIdentity(req.user.id, result.profile);
+            await recordAuditEvent(req, {
+                action: 'user.identity-link',
+                target: req.user.id,
+                metadata: { provider, email: identity.email }
+            });
+
+            res.status(200).json({
+                success: true,
+                message: 'Sign-in provider linked successfully',
+                data: {
+                    identity
+                }
+            });
+            return;
+        }
+
+        const { user, created } = await signInWithExternalIdentity(result.profile);
+        if (created) {
+            await recordAuditEvent(req, {
+                action: 'user.register',
+                actor: user._id.toString(),
+                target: user._id.toString(),
+                metadata: { provider }
+            });
+        }
+
+        // Check if user is active (accounts pending deletion may sign in to cancel it)
+        if (!canSignIn(user)) {
+            await recordAuditEvent(req, {
+                action: 'auth.login-failed',
+                actor: null,
+                target: user._id.toString(),
+                metadata: { reason: 'inactive', method: `oidc:${provider}` }
+            });
+            res.status(403).json({
+                success: false,
+                message: 'Your account has been deactivated. Please contact support.'
+            });
+            return;
+        }
+
+        // The provider replaces the password, not the second factor
+        const challenge = await getLoginChallenge(user);
+        if (challenge) {
+            res.status(200).json({
+                success: true,
+                message: challenge.purpose === 'verify'
+                    ? 'Two-factor authentication required'
+                    : 'Two-factor authentication must be set up before logging in',
+                data: toChallengeResponse(challenge)
+            });
+            return;
+        }
+
+        // Signing in cancels a pending account deletion
+        const deletionCancelled = await cancelDeletionOnSignIn(req, user);
+
+        // Start a session and generate its tokens
+        const tokens = await startSession(user, req, deviceName);
+
+        // Update last login
+        user.lastLogin = new Date();
+        await user.save();
+
+        await recordAuditEvent(req, {
+            action: 'auth.login',
+            actor: user._id.toString(),
+            target: user._id.toString(),
+            metadata: { method: `oidc:${provider}` }
+        });
+
+        res.status(created ? 201 : 200).json({
+            success: true,
+            message: created
+                ? 'User registered successfully'
+                : deletionCancelled
+                    ? 'Login successful. Your account deletion has been cancelled.'
+                    : 'Login successful',
+            data: {
+                user: {
+                    id: user._id,
+                    email: user.email,
+                    username: user.username,
+                    firstName: user.firstName,
+                    lastName: user.lastName,
+                    role: user.role,
+                    fullName: user.getFullName(),
+                    lastLogin: user.lastLogin
+                },
+                tokens
+            }
+        });
+    } catch (error) {
+        if (error instanceof AppError) {
+            res.status(error.statusCode).json({
+                success: false,
+                message: error.message
+            });
+            return;
+        }
+
+        console.error('OIDC callback error:', error);
+        res.status(500).json({
+            success: false,
+            message: 'Failed to sign in with provider'
+        });
+    }
+};
+
+/**
+ * List the current user's linked sign-in providers
+ * @route GET /api/users/identities
+ */
+export const getMyIdentities = async (req: Request, res: Response): Promise<void> => {
+    try {
+        const identities = await listExternalIdentities(req.user!.id);
+
+        res.status(200).json({
+            success: true,
+            data: {
+                identities
+            }
+        });
+    } catch (error) {
+        console.error('Get identities error:', error);
+        res.status(500).json({
+            success: false,
+            message: 'Failed to retrieve linked sign-in providers'
+        });
+    }
+};
+
+/**
+ * Start linking a sign-in provider to the current user
+ * @route POST /api/users/identities/:provider
+ */
+export const linkIdentity = async (req: Request, res: Response): Promise<void> => {
+    try {
+        const authorizationUrl = await beginAuthorization(req.params.provider, 'link', req.user!.id);
+
+        res.status(200).json({
+            success: true,
+            data: {
+                authorizationUrl
+            }
+        });
+    } catch (error) {
+        if (error instanceof AppError) {
+            res.status(error.statusCode).json({
+                success: false,
+                message: error.message
+            });
+            return;
+        }
+
+        console.error('Link identity error:', error);
+        res.status(500).json({
+            success: false,
+            message: 'Failed to start linking sign-in provider'
+        });
+    }
+};
+
+/**
+ * Unlink a sign-in provider from the current user
+ * @route DELETE /api/users/identities/:provider
+ */
+export const unlinkIdentity = async (req: Request, res: Response): Promise<void> => {
+    try {
+        const { provider } = req.params;
+        await unlinkExternalIdentity(req.user!.id, provider);
+
+        await recordAuditEvent(req, {
+            action: 'user.identity-unlink',
+            target: req.user!.id,
+            metadata: { provider }
+        });
+
+        res.status(200).json({
+            success: true,
+            message: 'Sign-in provider unlinked successfully'
+        });
+    } catch (error) {
+        if (error instanceof AppError) {
+            res.status(error.statusCode).json({
+                success: false,
+                message: error.message
+            });
+            return;
+        }
+
+        console.error('Unlink identity error:', error);
+        res.status(500).json({
+            success: false,
+            message: 'Failed to unlink sign-in provider'
+        });
+    }
+};
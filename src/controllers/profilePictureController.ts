@@ -0,0 +1,117 @@
+import { Request, Response } from 'express';
+import { AppError } from '../utils/AppError';
+import {
+    getProfilePictureFile,
+    readProfilePictureUpload,
+    removeProfilePicture,
+    saveProfilePicture
+} from '../services/profilePictureService';
+
+/**
+ * Upload a new profile picture for the current user, replacing the previous one
+ * @route PUT /api/users/profile/picture
+ */
+export const uploadProfilePicture = async (req: Request, res: Response): Promise<void> => {
+    try {
+        if (!req.is('multipart/form-data') || !Buffer.isBuffer(req.body)) {
+            res.status(415).json({
+                success: false,
+                message: 'Upload the picture as multipart/form-data'
+            });
+            return;
+        }
+
+        const upload = readProfilePictureUpload(req.body, req.headers['content-type']!);
+        const profilePicture = await saveProfilePicture(req.user!.id, upload);
+
+        res.status(200).json({
+            success: true,
+            message: 'Profile picture updated successfully',
+            data: {
+                profilePicture
+            }
+        });
+    } catch (error) {
+        if (error instanceof AppError) {
+            res.status(error.statusCode).json({
+                success: false,
+                message: error.message
+            });
+            return;
+        }
+
+        console.error('Upload profile picture error:', error);
+        res.status(500).json({
+            success: false,
+            message: 'Failed to upload profile picture'
+        });
+    }
+};
+
+/**
+ * Remove the current user's profile picture
+ * @route DELETE /api/users/profile/picture
+ */
+export const deleteProfilePicture = async (req: Request, res: Response): Promise<void> => {
+    try {
+        const removed = await removeProfilePicture(req.user!.id);
+
+        if (!removed) {
+            res.status(404).json({
+                success: false,
+                message: 'You have no profile picture'
+            });
+            return;
+        }
+
+        res.status(200).json({
+            success: true,
+            message: 'Profile picture removed successfully'
+        });
+    } catch (error) {
+        if (error instanceof AppError) {
+            res.status(error.statusCode).json({
+                success: false,
+                message: error.message
+            });
+            return;
+        }
+
+        console.error('Delete profile picture error:', error);
+        res.status(500).json({
+            success: false,
+            message: 'Failed to remove profile picture'
+        });
+    }
+};
+
+/**
+ * Serve a stored profile picture (for storage backends without public URLs)
+ * @route GET /api/users/pictures/:fileName
+ */
+export const getProfilePicture = async (req: Request, res: Response): Promise<void> => {
+    try {
+        const picture = await getProfilePictureFile(req.params.fileName);
+
+        if (!picture) {
+            res.status(404).json({
+                success: false,
+                message: 'Picture not found'
+            });
+            return;
+        }
+
+        res.status(200);
+        res.setHeader('Content-Type', picture.contentType);
+        res.setHeader('X-Content-Type-Options', 'nosniff');
+        // A new picture always gets a new file name, so a file never changes
+        res.setHeader('Cache-Control', 'public, max-age=31536000, immutable');
+        res.send(picture.data);
+    } catch (error) {
+        console.error('Get profile picture error:', error);
+        res.status(500).json({
+            success: false,
+            message: 'Failed to load picture'
+        });
+    }
+};
@@ -0,0 +1,167 @@
+import { Request, Response } from 'express';
+import { validationResult } from 'express-validator';
+import User from '../models/User';
+import {
+    listActiveSessions,
+    revokeAllSessions,
+    revokeSession,
+    toSessionResponse
+} from '../services/sessionService';
+import { recordAuditEvent } from '../services/auditService';
+
+/**
+ * List the current user's active sessions
+ * @route GET /api/auth/sessions
+ */
+export const getMySessions = async (req: Request, res: Response): Promise<void> => {
+    try {
+        const userId = req.user!.id;
+        const sessions = await listActiveSessions(userId);
+
+        res.status(200).json({
+            success: true,
+            data: {
+                sessions: sessions.map(session => toSessionResponse(session, req.user?.sid))
+            }
+        });
+    } catch (error) {
+        console.error('Get sessions error:', error);
+        res.status(500).json({
+            success: false,
+            message: 'Failed to retrieve sessions'
+        });
+    }
+};
+
+/**
+ * Revoke one of the current user's sessions
+ * @route DELETE /api/auth/sessions/:sessionId
+ */
+export const revokeMySession = async (req: Request, res: Response): Promise<void> => {
+    try {
+        // Check validation errors
+        const errors = validationResult(req);
+        if (!errors.isEmpty()) {
+            res.status(400).json({
+                success: false,
+                errors: errors.array()
+            });
+            return;
+        }
+
+        const revoked = await revokeSession(req.user!.id, req.params.sessionId, 'revoked-by-user');
+
+        if (!revoked) {
+            res.status(404).json({
+                success: false,
+                message: 'Session not found'
+            });
+            return;
+        }
+
+        res.status(200).json({
+            success: true,
+            message: 'Session revoked successfully'
+        });
+    } catch (error) {
+        console.error('Revoke session error:', error);
+        res.status(500).json({
+            success: false,
+            message: 'Failed to revoke session'
+        });
+    }
+};
+
+/**
+ * Revoke all of the current user's sessions except the one making the request
+ * @route POST /api/auth/sessions/revoke-others
+ */
+export const revokeMyOtherSessions = async (req: Request, res: Response): Promise<void> => {
+    try {
+        const count = await revokeAllSessions(req.user!.id, 'revoked-by-user', req.user?.sid);
+
+        res.status(200).json({
+            success: true,
+            message: 'Other sessions revoked successfully',
+            data: {
+                revoked: count
+            }
+        });
+    } catch (error) {
+        console.error('Revoke other sessions error:', error);
+        res.status(500).json({
+            success: false,
+            message: 'Failed to revoke sessions'
+        });
+    }
+};
+
+/**
+ * List a user's active sessions (Admin only)
+ * @route GET /api/users/:id/sessions
+ */
+export const getUserSessions = async (req: Request, res: Response): Promise<void> => {
+    try {
+        const { id } = req.params;
+
+        const user = await User.findById(id);
+        if (!user) {
+            res.status(404).json({
+                success: false,
+                message: 'User not found'
+            });
+            return;
+        }
+
+        const sessions = await listActiveSessions(id);
+
+        res.status(200).json({
+            success: true,
+            data: {
+                sessions: sessions.map(session => toSessionResponse(session))
+            }
+        });
+    } catch (error) {
+        console.error('Get user sessions error:', error);
+        res.status(500).json({
+            success: false,
+            message: 'Failed to retrieve sessions'
+        });
+    }
+};
+
+/**
+ * Force-logout a user by revoking all of their sessions (Admin only)
+ * @route DELETE /api/users/:id/sessions
+ */
+export const revokeUserSessions = async (req: Request, res: Response): Promise<void> => {
+    try {
+        const { id } = req.params;
+
+        const user = await User.findById(id);
+        if (!user) {
+            res.status(404).json({
+                success: false,
+                message: 'User not found'
+            });
+            return;
+        }
+
+        const count = await revokeAllSessions(id, 'revoked-by-admin');
+        await recordAuditEvent(req, { action: 'user.sessions-revoke', target: id, metadata: { revoked: count } });
+
+        res.status(200).json({
+            success: true,
+            message: 'User sessions revoked successfully',
+            data: {
+                revoked: count
+            }
+        });
+    } catch (error) {
+        console.error('Revoke user sessions error:', error);
+        res.status(500).json({
+            success: false,
+            message: 'Failed to revoke sessions'
+        });
+    }
+};
@@ -0,0 +1,449 @@
+import { Request, Response } from 'express';
+import { validationResult } from 'express-validator';
+import User from '../models/User';
+import { AppError } from '../utils/AppError';
+import { verifyChallengeToken } from '../utils/jwt.utils';
+import { startSession } from '../services/sessionService';
+import { canSignIn, cancelDeletionOnSignIn } from '../services/accountDeletionService';
+import {
+    beginEnrollment,
+    confirmEnrollment,
+    disableTwoFactor,
+    getRequiredRoles,
+    isTwoFactorRequired,
+    regenerateRecoveryCodes as regenerateUserRecoveryCodes,
+    setRequiredRoles,
+    verifySecondFactor
+} from '../services/twoFactorService';
+import {
+    accountKey,
+    checkAttempt,
+    ipKey,
+    recordFailure,
+    recordSuccess,
+    sendAttemptBlocked
+} from '../services/loginAttemptService';
+import { recordAuditEvent } from '../services/auditService';
+
+/**
+ * Exchange a login challenge and a TOTP or recovery code for tokens
+ * @route POST /api/auth/2fa/verify
+ */
+export const verifyLogin = async (req: Request, res: Response): Promise<void> => {
+    try {
+        // Check validation errors
+        const errors = validationResult(req);
+        if (!errors.isEmpty()) {
+            res.status(400).json({
+                success: false,
+                errors: errors.array()
+            });
+            return;
+        }
+
+        const { challengeToken, code, recoveryCode, deviceName } = req.body;
+
+        let userId: string;
+        try {
+            const challenge = verifyChallengeToken(challengeToken);
+            if (challenge.purpose !== 'verify') {
+                throw new Error('Unexpected challenge purpose');
+            }
+            userId = challenge.id;
+        } catch (error) {
+            res.status(401).json({
+                success: false,
+                message: 'Invalid or expired challenge token'
+            });
+            return;
+        }
+
+        // Throttle code guessing like password attempts
+        const attemptKeys = [accountKey(userId), ipKey(req.ip)];
+        const attempt = await checkAttempt(attemptKeys);
+        if (attempt.status !== 'allowed') {
+            sendAttemptBlocked(res, attempt);
+            return;
+        }
+
+        const isValid = await verifySecondFactor(userId, { code, recoveryCode });
+        if (!isValid) {
+            await recordFailure(attemptKeys);
+            await recordAuditEvent(req, {
+                action: 'auth.login-failed',
+                actor: null,
+                target: userId,
+                metadata: { reason: 'invalid-second-factor' }
+            });
+            res.status(401).json({
+                success: false,
+                message: 'Invalid two-factor code'
+            });
+            return;
+        }
+
+        await recordSuccess([attemptKeys[0]]);
+
+        const user = await User.findById(userId);
+        if (!user || !canSignIn(user)) {
+            res.status(401).json({
+                success: false,
+                message: 'Invalid or expired challenge token'
+            });
+            return;
+        }
+
+        // Signing in cancels a pending account deletion
+        const deletionCancelled = await cancelDeletionOnSignIn(req, user);
+
+        // Start a session and generate its tokens
+        const tokens = await startSession(user, req, deviceName);
+
+        // Update last login
+        user.lastLogin = new Date();
+        await user.save();
+
+        await recordAuditEvent(req, {
+            action: 'auth.login',
+            actor: userId,
+            target: userId,
+            metadata: { method: recoveryCode ? 'recovery-code' : 'totp' }
+        });
+
+        res.status(200).json({
+            success: true,
+            message: deletionCancelled
+                ? 'Login successful. Your account deletion has been cancelled.'
+                : 'Login successful',
+            data: {
+                user: {
+                    id: user._id,
+                    email: user.email,
+                    username: user.username,
+                    firstName: user.firstName,
+                    lastName: user.lastName,
+                    role: user.role,
+                    fullName: user.getFullName(),
+                    lastLogin: user.lastLogin
+                },
+                tokens
+            }
+        });
+    } catch (error) {
+        console.error('Two-factor verification error:', error);
+        res.status(500).json({
+            success: false,
+            message: 'Failed to verify two-factor code'
+        });
+    }
+};
+
+/**
+ * Start two-factor enrollment
+ * @route POST /api/auth/2fa/setup
+ */
+export const setup = async (req: Request, res: Response): Promise<void> => {
+    try {
+        const user = await User.findById(req.user?.id);
+
+        if (!user) {
+            res.status(404).json({
+                success: false,
+                message: 'User not found'
+            });
+            return;
+        }
+
+        const { secret, otpauthUri } = await beginEnrollment(user);
+
+        res.status(200).json({
+            success: true,
+            message: 'Scan the QR code with your authenticator app, then confirm with a code',
+            data: {
+                secret,
+                otpauthUri
+            }
+        });
+    } catch (error) {
+        if (error instanceof AppError) {
+            res.status(error.statusCode).json({
+                success: false,
+                message: error.message
+            });
+            return;
+        }
+
+        console.error('Two-factor setup error:', error);
+        res.status(500).json({
+            success: false,
+            message: 'Failed to start two-factor setup'
+        });
+    }
+};
+
+/**
+ * Confirm enrollment with the first code and enable two-factor authentication
+ * @route POST /api/auth/2fa/enable
+ */
+export const enable = async (req: Request, res: Response): Promise<void> => {
+    try {
+        // Check validation errors
+        const errors = validationResult(req);
+        if (!errors.isEmpty()) {
+            res.status(400).json({
+                success: false,
+                errors: errors.array()
+            });
+            return;
+        }
+
+        const recoveryCodes = await confirmEnrollment(req.user!.id, req.body.code);
+        await recordAuditEvent(req, { action: 'two-factor.enable', target: req.user!.id });
+
+        // Users enrolling from a login challenge get their tokens now
+        let tokens;
+        if (req.twoFactorEnrollment) {
+            const user = await User.findById(req.user!.id);
+            if (user) {
+                // Signing in cancels a pending account deletion
+                await cancelDeletionOnSignIn(req, user);
+                tokens = await startSession(user, req, req.body.deviceName);
+                user.lastLogin = new Date();
+                await user.save();
+            }
+        }
+
+        res.status(200).json({
+            success: true,
+            message: 'Two-factor authentication enabled. Store your recovery codes somewhere safe.',
+            data: {
+                recoveryCodes,
+                ...(tokens && { tokens })
+            }
+        });
+    } catch (error) {
+        if (error instanceof AppError) {
+            res.status(error.statusCode).json({
+                success: false,
+                message: error.message
+            });
+            return;
+        }
+
+        console.error('Two-factor enable error:', error);
+        res.status(500).json({
+            success: false,
+            message: 'Failed to enable two-factor authentication'
+        });
+    }
+};
+
+/**
+ * Disable two-factor authentication
+ * @route POST /api/auth/2fa/disable
+ */
+export const disable = async (req: Request, res: Response): Promise<void> => {
+    try {
+        // Check validation errors
+        const errors = validationResult(req);
+        if (!errors.isEmpty()) {
+            res.status(400).json({
+                success: false,
+                errors: errors.array()
+            });
+            return;
+        }
+
+        const { password, code, recoveryCode } = req.body;
+        const user = await User.findById(req.user?.id).select('+password');
+
+        if (!user) {
+            res.status(404).json({
+                success: false,
+                message: 'User not found'
+            });
+            return;
+        }
+
+        if (!user.twoFactor?.enabled) {
+            res.status(400).json({
+                success: false,
+                message: 'Two-factor authentication is not enabled'
+            });
+            return;
+        }
+
+        if (await isTwoFactorRequired(user.role)) {
+            res.status(403).json({
+                success: false,
+                message: 'Two-factor authentication is required for your role'
+            });
+            return;
+        }
+
+        const isPasswordValid = await user.comparePassword(password);
+        const isFactorValid = isPasswordValid && await verifySecondFactor(user._id.toString(), { code, recoveryCode });
+        if (!isFactorValid) {
+            res.status(401).json({
+                success: false,
+                message: 'Password or two-factor code is incorrect'
+            });
+            return;
+        }
+
+        await disableTwoFactor(user._id.toString());
+        await recordAuditEvent(req, { action: 'two-factor.disable', target: user._id.toString() });
+
+        res.status(200).json({
+            success: true,
+            message: 'Two-factor authentication disabled'
+        });
+    } catch (error) {
+        console.error('Two-factor disable error:', error);
+        res.status(500).json({
+            success: false,
+            message: 'Failed to disable two-factor authentication'
+        });
+    }
+};
+
+/**
+ * Replace recovery codes with a new set
+ * @route POST /api/auth/2fa/recovery-codes
+ */
+export const regenerateRecoveryCodes = async (req: Request, res: Response): Promise<void> => {
+    try {
+        // Check validation errors
+        const errors = validationResult(req);
+        if (!errors.isEmpty()) {
+            res.status(400).json({
+                success: false,
+                errors: errors.array()
+            });
+            return;
+        }
+
+        const userId = req.user!.id;
+        const isValid = await verifySecondFactor(userId, { code: req.body.code });
+
+        if (!isValid) {
+            res.status(401).json({
+                success: false,
+                message: 'Invalid two-factor code'
+            });
+            return;
+        }
+
+        const recoveryCodes = await regenerateUserRecoveryCodes(userId);
+
+        res.status(200).json({
+            success: true,
+            message: 'Recovery codes regenerated. Previous codes no longer work.',
+            data: {
+                recoveryCodes
+            }
+        });
+    } catch (error) {
+        console.error('Regenerate recovery codes error:', error);
+        res.status(500).json({
+            success: false,
+            message: 'Failed to regenerate recovery codes'
+        });
+    }
+};
+
+/**
+ * Get the roles that require two-factor authentication (Admin only)
+ * @route GET /api/auth/2fa/policy
+ */
+export const getPolicy = async (req: Request, res: Response): Promise<void> => {
+    try {
+        const requiredRoles = await getRequiredRoles();
+
+        res.status(200).json({
+            success: true,
+            data: {
+                requiredRoles
+            }
+        });
+    } catch (error) {
+        console.error('Get two-factor policy error:', error);
+        res.status(500).json({
+            success: false,
+            message: 'Failed to retrieve two-factor policy'
+        });
+    }
+};
+
+/**
+ * Set the roles that require two-factor authentication (Admin only)
+ * @route PUT /api/auth/2fa/policy
+ */
+export const updatePolicy = async (req: Request, res: Response): Promise<void> => {
+    try {
+        // Check validation errors
+        const errors = validationResult(req);
+        if (!errors.isEmpty()) {
+            res.status(400).json({
+                success: false,
+                errors: errors.array()
+            });
+            return;
+        }
+
+        const before = await getRequiredRoles();
+        const requiredRoles = await setRequiredRoles(req.body.requiredRoles, req.user!.id);
+        await recordAuditEvent(req, {
+            action: 'two-factor.policy-update',
+            before: { requiredRoles: before },
+            after: { requiredRoles }
+        });
+
+        res.status(200).json({
+            success: true,
+            message: 'Two-factor policy updated successfully',
+            data: {
+                requiredRoles
+            }
+        });
+    } catch (error) {
+        console.error('Update two-factor policy error:', error);
+        res.status(500).json({
+            success: false,
+            message: 'Failed to update two-factor policy'
+        });
+    }
+};
+
+/**
+ * Reset a user's two-factor authentication, e.g. after a lost device (Admin only)
+ * @route DELETE /api/users/:id/2fa
+ */
+export const resetUserTwoFactor = async (req: Request, res: Response): Promise<void> => {
+    try {
+        const { id } = req.params;
+
+        const user = await User.findById(id);
+        if (!user) {
+            res.status(404).json({
+                success: false,
+                message: 'User not found'
+            });
+            return;
+        }
+
+        await disableTwoFactor(id);
+        await recordAuditEvent(req, { action: 'two-factor.reset', target: id });
+
+        res.status(200).json({
+            success: true,
+            message: 'Two-factor authentication reset successfully'
+        });
+    } catch (error) {
+        console.error('Reset user two-factor error:', error);
+        res.status(500).json({
+            success: false,
+            message: 'Failed to reset two-factor authentication'
+        });
+    }
+};
@@ -1,54 +1,85 @@
 import { Request, Response } from 'express';
 import { validationResult } from 'express-validator';
 import User, { IUser } from '../models/User';
+import { AppError } from '../utils/AppError';
+import { assertNotLastActiveAdmin } from '../utils/userPolicies';
+import {
+    buildUserCursorQuery,
+    buildUserQuery,
+    decodeUserCursor,
+    DEFAULT_USER_SORT,
+    encodeUserCursor,
+    getUserFilter,
+    parseUserSort
+} from '../utils/userQueries';
+import {
+    accountKey,
+    checkAttempt,
+    clearAccountLock,
+    ipKey,
+    isAccountLocked,
+    recordFailure,
+    recordSuccess,
+    sendAttemptBlocked
+} from '../services/loginAttemptService';
+import { recordAuditEvent } from '../services/auditService';
+import { invalidateUserState } from '../services/userStateService';
+import { sendVerificationEmail } from '../services/emailVerificationService';
+import { sendPasswordSetupEmail } from '../services/passwordResetService';
+import { purgeUser } from '../services/userDeletionService';
+import {
+    getAccountDeletionMode,
+    listPendingDeletions,
+    scheduleAccountDeletion
+} from '../services/accountDeletionService';
+import { ImportFormat, runUserImport } from '../services/userImportService';
+import { runBulkUserAction } from '../services/bulkUserService';
+import { DEFAULT_EXPORT_COLUMNS, ExportFormat, streamUserExport } from '../services/userExportService';
+import { generateRandomToken } from '../utils/crypto.utils';
+import { userHasPermission } from '../utils/permissions';
+import { ADMIN_UPDATABLE_FIELDS, PROFILE_ADDRESS_FIELDS, PROFILE_UPDATABLE_FIELDS } from '../validators/userValidators';
 
 /**
- * Get all users (Admin only)
+ * Get all users (Admin only). Paginated with an opaque cursor: pass the
+ * returned nextCursor to get the next page.
  * @route GET /api/users
  */
 export const getAllUsers = async (req: Request, res: Response): Promise<void> => {
     try {
-        const { page = 1, limit = 10, role, isActive, search } = req.query;
-
-        // Build query
-        const query: any = {};
-
-        if (role) {
-            query.role = role;
+        // Check validation errors
+        const errors = validationResult(req);
+        if (!errors.isEmpty()) {
+            res.status(400).json({
+                success: false,
+                errors: errors.array()
+            });
+            return;
         }
 
-        if (isActive !== undefined) {
-            query.isActive = isActive === 'true';
-        }
+        const { limit = 10, cursor, sort = DEFAULT_USER_SORT } = req.query;
+        const limitNum = parseInt(limit as string);
+        const userSort = parseUserSort(sort as string)!;
 
-        if (search) {
-            query.$or = [
-                { email: { $regex: search, $options: 'i' } },
-                { username: { $regex: search, $options: 'i' } },
-                { firstName: { $regex: search, $options: 'i' } },
-                { lastName: { $regex: search, $options: 'i' } }
-            ];
-        }
+        // Build query
+        const filterQuery = buildUserQuery(getUserFilter(req.query));
+        const afterCursor = cursor ? decodeUserCursor(cursor as string, sort as string) : null;
+        const query = afterCursor
+            ? { $and: [filterQuery, buildUserCursorQuery(userSort, afterCursor)] }
+            : filterQuery;
 
-        // Pagination
-        const pageNum = parseInt(page as string);
-        const limitNum = parseInt(limit as string);
-        const skip = (pageNum - 1) * limitNum;
-
-        // Get users with pagination
-        const [users, total] = await Promise.all([
-            User.find(query)
-                .select('-password')
-                .skip(skip)
-                .limit(limitNum)
-                .sort({ createdAt: -1 }),
-            User.countDocuments(query)
-        ]);
+        // Fetch one extra user to know whether there is a next page
+        const users = await User.find(query)
+            .select('-password')
+            .sort({ [userSort.field]: userSort.direction, _id: userSort.direction })
+            .limit(limitNum + 1);
+
+        const hasMore = users.length > limitNum;
+        const page = users.slice(0, limitNum);
 
         res.status(200).json({
             success: true,
             data: {
-                users: users.map(user => ({
+                users: page.map(user => ({
                     id: user._id,
                     email: user.email,
                     username: user.username,
@@ -57,13 +88,15 @@ export const getAllUsers = async (req: Request, res: Response): Promise<void> =>
                     isActive: user.isActive,
                     isEmailVerified: user.isEmailVerified,
                     lastLogin: user.lastLogin,
+                    deletedAt: user.deletedAt,
+                    deletionScheduledFor: user.deletionScheduledFor,
                     createdAt: user.createdAt
                 })),
                 pagination: {
-                    page: pageNum,
                     limit: limitNum,
-                    total,
-                    pages: Math.ceil(total / limitNum)
+                    sort,
+                    hasMore,
+                    nextCursor: hasMore ? encodeUserCursor(sort as string, page[page.length - 1]) : null
                 }
             }
         });
@@ -77,7 +110,7 @@ export const getAllUsers = async (req: Request, res: Response): Promise<void> =>
 };
 
 /**
- * Get user by ID
+ * Get user by ID (own record, or any record with users:read)
  * @route GET /api/users/:id
  */
 export const getUserById = async (req: Request, res: Response): Promise<void> => {
@@ -113,6 +146,9 @@ export const getUserById = async (req: Request, res: Response): Promise<void> =>
                     isActive: user.isActive,
                     isEmailVerified: user.isEmailVerified,
                     lastLogin: user.lastLogin,
+                    deletedAt: user.deletedAt,
+                    deletionScheduledFor: user.deletionScheduledFor,
+                    anonymizedAt: user.anonymizedAt,
                     createdAt: user.createdAt,
                     updatedAt: user.updatedAt
                 }
@@ -127,6 +163,49 @@ export const getUserById = async (req: Request, res: Response): Promise<void> =>
     }
 };
 
+/**
+ * Get the current user's profile
+ * @route GET /api/users/profile
+ */
+export const getProfile = async (req: Request, res: Response): Promise<void> => {
+    try {
+        const user = await User.findById(req.user!.id).select('-password');
+
+        if (!user) {
+            res.status(404).json({
+                success: false,
+                message: 'User not found'
+            });
+            return;
+        }
+
+        res.status(200).json({
+            success: true,
+            data: {
+                user: {
+                    id: user._id,
+                    email: user.email,
+                    username: user.username,
+                    firstName: user.firstName,
+                    lastName: user.lastName,
+                    fullName: user.getFullName(),
+                    profilePicture: user.profilePicture,
+                    bio: user.bio,
+                    phoneNumber: user.phoneNumber,
+                    dateOfBirth: user.dateOfBirth,
+                    address: user.address
+                }
+            }
+        });
+    } catch (error) {
+        console.error('Get profile error:', error);
+        res.status(500).json({
+            success: false,
+            message: 'Failed to retrieve profile'
+        });
+    }
+};
+
 /**
  * Update user profile
  * @route PUT /api/users/profile
@@ -144,14 +223,17 @@ export const updateProfile = async (req: Request, res: Response): Promise<void>
         }
 
         const userId = req.user?.id;
-        const updates = req.body;
 
-        // Remove fields that shouldn't be updated through this endpoint
-        delete updates.password;
-        delete updates.role;
-        delete updates.isActive;
-        delete updates.isEmailVerified;
-        delete updates.email; // Email update should be done separately with verification
+        // Only the fields users may change themselves are taken from the body
+        const updates: Record<string, unknown> = {};
+        PROFILE_UPDATABLE_FIELDS.forEach(field => {
+            if (req.body[field] !== undefined) updates[field] = req.body[field];
+        });
+
+        // Address fields are set one by one, so the ones not sent are kept
+        PROFILE_ADDRESS_FIELDS.forEach(field => {
+            if (req.body.address?.[field] !== undefined) updates[`address.${field}`] = req.body.address[field];
+        });
 
         const user = await User.findByIdAndUpdate(
             userId,
@@ -201,6 +283,16 @@ export const updateProfile = async (req: Request, res: Response): Promise<void>
  */
 export const changePassword = async (req: Request, res: Response): Promise<void> => {
     try {
+        // Check validation errors
+        const errors = validationResult(req);
+        if (!errors.isEmpty()) {
+            res.status(400).json({
+                success: false,
+                errors: errors.array()
+            });
+            return;
+        }
+
         const userId = req.user?.id;
         const { currentPassword, newPassword } = req.body;
 
@@ -215,9 +307,18 @@ export const changePassword = async (req: Request, res: Response): Promise<void>
             return;
         }
 
+        // Throttle repeated failures like login does
+        const attemptKeys = [accountKey(user._id.toString()), ipKey(req.ip)];
+        const attempt = await checkAttempt(attemptKeys);
+        if (attempt.status !== 'allowed') {
+            sendAttemptBlocked(res, attempt);
+            return;
+        }
+
         // Verify current password
         const isPasswordValid = await user.comparePassword(currentPassword);
         if (!isPasswordValid) {
+            await recordFailure(attemptKeys);
             res.status(401).json({
                 success: false,
                 message: 'Current password is incorrect'
@@ -225,13 +326,18 @@ export const changePassword = async (req: Request, res: Response): Promise<void>
             return;
         }
 
+        await recordSuccess([attemptKeys[0]]);
+
         // Update password
         user.password = newPassword;
         await user.save();
+        invalidateUserState(user._id.toString());
+
+        await recordAuditEvent(req, { action: 'user.password-change', target: user._id.toString() });
 
         res.status(200).json({
             success: true,
-            message: 'Password changed successfully'
+            message: 'Password changed successfully. Use your refresh token to get a new access token.'
         });
     } catch (error) {
         console.error('Change password error:', error);
@@ -243,7 +349,8 @@ export const changePassword = async (req: Request, res: Response): Promise<void>
 };
 
 /**
- * Delete user account
+ * Delete user account. The account is deactivated right away and purged or
+ * anonymized once the grace period is over; signing in before then cancels.
  * @route DELETE /api/users/account
  */
 export const deleteAccount = async (req: Request, res: Response): Promise<void> => {
@@ -262,9 +369,18 @@ export const deleteAccount = async (req: Request, res: Response): Promise<void>
             return;
         }
 
+        // Throttle repeated failures like login does
+        const attemptKeys = [accountKey(user._id.toString()), ipKey(req.ip)];
+        const attempt = await checkAttempt(attemptKeys);
+        if (attempt.status !== 'allowed') {
+            sendAttemptBlocked(res, attempt);
+            return;
+        }
+
         // Verify password
         const isPasswordValid = await user.comparePassword(password);
         if (!isPasswordValid) {
+            await recordFailure(attemptKeys);
             res.status(401).json({
                 success: false,
                 message: 'Password is incorrect'
@@ -272,19 +388,33 @@ export const deleteAccount = async (req: Request, res: Response): Promise<void>
             return;
         }
 
-        // Soft delete (deactivate) or hard delete based on your preference
-        // Soft delete:
-        user.isActive = false;
-        await user.save();
+        await recordSuccess([attemptKeys[0]]);
 
-        // Hard delete:
-        // await User.findByIdAndDelete(userId);
+        // Deactivate now; the account is purged or anonymized once the grace period is over
+        const scheduledFor = await scheduleAccountDeletion(user);
+
+        await recordAuditEvent(req, {
+            action: 'user.account-delete',
+            target: user._id.toString(),
+            metadata: { scheduledFor, mode: getAccountDeletionMode() }
+        });
 
         res.status(200).json({
             success: true,
-            message: 'Account deleted successfully'
+            message: `Account deleted successfully. Sign in again before ${scheduledFor.toISOString()} to cancel.`,
+            data: {
+                deletionScheduledFor: scheduledFor
+            }
         });
     } catch (error) {
+        if (error instanceof AppError) {
+            res.status(error.statusCode).json({
+                success: false,
+                message: error.message
+            });
+            return;
+        }
+
         console.error('Delete account error:', error);
         res.status(500).json({
             success: false,
@@ -302,11 +432,7 @@ export const updateUserRole = async (req: Request, res: Response): Promise<void>
         const { id } = req.params;
         const { role } = req.body;
 
-        const user = await User.findByIdAndUpdate(
-            id,
-            { role },
-            { new: true, runValidators: true }
-        ).select('-password');
+        const user = await User.findById(id);
 
         if (!user) {
             res.status(404).json({
@@ -316,6 +442,21 @@ export const updateUserRole = async (req: Request, res: Response): Promise<void>
             return;
         }
 
+        // Never demote the last active administrator
+        await assertNotLastActiveAdmin({ id: user._id.toString(), role: user.role, isActive: user.isActive }, { role });
+
+        const previousRole = user.role;
+        user.role = role;
+        await user.save();
+        invalidateUserState(user._id.toString());
+
+        await recordAuditEvent(req, {
+            action: 'user.role-change',
+            target: user._id.toString(),
+            before: { role: previousRole },
+            after: { role: user.role }
+        });
+
         res.status(200).json({
             success: true,
             message: 'User role updated successfully',
@@ -330,6 +471,14 @@ export const updateUserRole = async (req: Request, res: Response): Promise<void>
             }
         });
     } catch (error) {
+        if (error instanceof AppError) {
+            res.status(error.statusCode).json({
+                success: false,
+                message: error.message
+            });
+            return;
+        }
+
         console.error('Update user role error:', error);
         res.status(500).json({
             success: false,
@@ -339,12 +488,23 @@ export const updateUserRole = async (req: Request, res: Response): Promise<void>
 };
 
 /**
- * Toggle user status (Admin only)
+ * Activate or deactivate a user (Admin only)
  * @route PUT /api/users/:id/status
  */
-export const toggleUserStatus = async (req: Request, res: Response): Promise<void> => {
+export const setUserStatus = async (req: Request, res: Response): Promise<void> => {
     try {
+        // Check validation errors
+        const errors = validationResult(req);
+        if (!errors.isEmpty()) {
+            res.status(400).json({
+                success: false,
+                errors: errors.array()
+            });
+            return;
+        }
+
         const { id } = req.params;
+        const isActive = req.body.isActive === true || req.body.isActive === 'true';
 
         const user = await User.findById(id);
 
@@ -356,12 +516,37 @@ export const toggleUserStatus = async (req: Request, res: Response): Promise<voi
             return;
         }
 
-        user.isActive = !user.isActive;
-        await user.save();
+        // Deleted accounts come back through restore, which also clears the deletion
+        if (isActive && user.deletedAt) {
+            res.status(409).json({
+                success: false,
+                message: 'This account was deleted. Restore it instead.'
+            });
+            return;
+        }
+
+        if (user.isActive !== isActive) {
+            // Never deactivate the last active administrator
+            await assertNotLastActiveAdmin(
+                { id: user._id.toString(), role: user.role, isActive: user.isActive },
+                { isActive }
+            );
+
+            user.isActive = isActive;
+            await user.save();
+            invalidateUserState(user._id.toString());
+
+            await recordAuditEvent(req, {
+                action: 'user.status-change',
+                target: user._id.toString(),
+                before: { isActive: !isActive },
+                after: { isActive }
+            });
+        }
 
         res.status(200).json({
             success: true,
-            message: `User ${user.isActive ? 'activated' : 'deactivated'} successfully`,
+            message: `User ${isActive ? 'activated' : 'deactivated'} successfully`,
             data: {
                 user: {
                     id: user._id,
@@ -372,10 +557,645 @@ export const toggleUserStatus = async (req: Request, res: Response): Promise<voi
             }
         });
     } catch (error) {
-        console.error('Toggle user status error:', error);
+        if (error instanceof AppError) {
+            res.status(error.statusCode).json({
+                success: false,
+                message: error.message
+            });
+            return;
+        }
+
+        console.error('Set user status error:', error);
         res.status(500).json({
             success: false,
             message: 'Failed to update user status'
         });
     }
 };
+
+/**
+ * Create a user on someone's behalf (Admin only). Without a password, the user
+ * is emailed a link to choose one.
+ * @route POST /api/users
+ */
+export const createUser = async (req: Request, res: Response): Promise<void> => {
+    try {
+        // Check validation errors
+        const errors = validationResult(req);
+        if (!errors.isEmpty()) {
+            res.status(400).json({
+                success: false,
+                errors: errors.array()
+            });
+            return;
+        }
+
+        const { email, password, username, firstName, lastName, phoneNumber, role, isEmailVerified } = req.body;
+
+        // Check if user already exists
+        const existingUser = await User.findOne({
+            $or: [{ email }, { username }]
+        });
+
+        if (existingUser) {
+            const field = existingUser.email === email ? 'email' : 'username';
+            res.status(409).json({
+                success: false,
+                message: `User with this ${field} already exists`
+            });
+            return;
+        }
+
+        const user = await User.create({
+            email,
+            password: password || generateRandomToken(),
+            hasPassword: !!password,
+            username,
+            firstName,
+            lastName,
+            phoneNumber,
+            role,
+            isEmailVerified: isEmailVerified === true || isEmailVerified === 'true'
+        });
+
+        await recordAuditEvent(req, {
+            action: 'user.create',
+            target: user._id.toString(),
+            after: { email: user.email, username: user.username, role: user.role }
+        });
+
+        // Emails are best-effort; the account exists either way
+        try {
+            if (!password) {
+                await sendPasswordSetupEmail(user);
+            } else if (!user.isEmailVerified) {
+                await sendVerificationEmail(user);
+            }
+        } catch (mailError) {
+            console.error('New user email error:', mailError);
+        }
+
+        res.status(201).json({
+            success: true,
+            message: password
+                ? 'User created successfully'
+                : 'User created successfully. They have been emailed a link to choose a password.',
+            data: {
+                user: {
+                    id: user._id,
+                    email: user.email,
+                    username: user.username,
+                    firstName: user.firstName,
+                    lastName: user.lastName,
+                    fullName: user.getFullName(),
+                    role: user.role,
+                    isActive: user.isActive,
+                    isEmailVerified: user.isEmailVerified,
+                    createdAt: user.createdAt
+                }
+            }
+        });
+    } catch (error) {
+        console.error('Create user error:', error);
+        res.status(500).json({
+            success: false,
+            message: 'Failed to create user'
+        });
+    }
+};
+
+/**
+ * Edit a user's details (Admin only). Only the fields in ADMIN_UPDATABLE_FIELDS can change.
+ * @route PATCH /api/users/:id
+ */
+export const updateUser = async (req: Request, res: Response): Promise<void> => {
+    try {
+        // Check validation errors
+        const errors = validationResult(req);
+        if (!errors.isEmpty()) {
+            res.status(400).json({
+                success: false,
+                errors: errors.array()
+            });
+            return;
+        }
+
+        const user = await User.findById(req.params.id);
+
+        if (!user) {
+            res.status(404).json({
+                success: false,
+                message: 'User not found'
+            });
+            return;
+        }
+
+        const updates: Record<string, unknown> = {};
+        ADMIN_UPDATABLE_FIELDS.forEach(field => {
+            if (req.body[field] !== undefined) updates[field] = req.body[field];
+        });
+
+        // Email and username must stay unique
+        const conflicts = [];
+        if (updates.email && updates.email !== user.email) conflicts.push({ email: updates.email });
+        if (updates.username && updates.username !== user.username) conflicts.push({ username: updates.username });
+
+        const existingUser = conflicts.length > 0
+            ? await User.findOne({ _id: { $ne: user._id }, $or: conflicts })
+            : null;
+
+        if (existingUser) {
+            const field = existingUser.email === updates.email ? 'email' : 'username';
+            res.status(409).json({
+                success: false,
+                message: `User with this ${field} already exists`
+            });
+            return;
+        }
+
+        // A new email address is unverified unless the admin says otherwise
+        const emailChanged = updates.email !== undefined && updates.email !== user.email;
+        if (emailChanged && updates.isEmailVerified === undefined) {
+            updates.isEmailVerified = false;
+        }
+
+        const before: Record<string, unknown> = {};
+        const after: Record<string, unknown> = {};
+        Object.keys(updates).forEach(field => {
+            before[field] = user.get(field);
+        });
+
+        user.set(updates);
+        await user.save();
+
+        if (emailChanged) {
+            invalidateUserState(user._id.toString());
+        }
+
+        Object.keys(updates).forEach(field => {
+            after[field] = user.get(field);
+        });
+
+        await recordAuditEvent(req, {
+            action: 'user.update',
+            target: user._id.toString(),
+            before,
+            after
+        });
+
+        res.status(200).json({
+            success: true,
+            message: 'User updated successfully',
+            data: {
+                user: {
+                    id: user._id,
+                    email: user.email,
+                    username: user.username,
+                    firstName: user.firstName,
+                    lastName: user.lastName,
+                    fullName: user.getFullName(),
+                    role: user.role,
+                    bio: user.bio,
+                    phoneNumber: user.phoneNumber,
+                    dateOfBirth: user.dateOfBirth,
+                    address: user.address,
+                    isActive: user.isActive,
+                    isEmailVerified: user.isEmailVerified,
+                    updatedAt: user.updatedAt
+                }
+            }
+        });
+    } catch (error) {
+        console.error('Update user error:', error);
+        res.status(500).json({
+            success: false,
+            message: 'Failed to update user'
+        });
+    }
+};
+
+/**
+ * Permanently delete a user and their data (Admin only).
+ * The request must repeat the user's email as `confirm`.
+ * @route DELETE /api/users/:id
+ */
+export const deleteUser = async (req: Request, res: Response): Promise<void> => {
+    try {
+        // Check validation errors
+        const errors = validationResult(req);
+        if (!errors.isEmpty()) {
+            res.status(400).json({
+                success: false,
+                errors: errors.array()
+            });
+            return;
+        }
+
+        const user = await User.findById(req.params.id);
+
+        if (!user) {
+            res.status(404).json({
+                success: false,
+                message: 'User not found'
+            });
+            return;
+        }
+
+        if (String(req.body.confirm).trim().toLowerCase() !== user.email) {
+            res.status(400).json({
+                success: false,
+                message: "Confirmation does not match the user's email"
+            });
+            return;
+        }
+
+        // Never delete the last active administrator
+        await assertNotLastActiveAdmin(
+            { id: user._id.toString(), role: user.role, isActive: user.isActive },
+            { isActive: false }
+        );
+
+        await purgeUser(user._id.toString());
+
+        await recordAuditEvent(req, {
+            action: 'user.hard-delete',
+            target: user._id.toString(),
+            before: { email: user.email, username: user.username, role: user.role }
+        });
+
+        res.status(200).json({
+            success: true,
+            message: 'User permanently deleted'
+        });
+    } catch (error) {
+        if (error instanceof AppError) {
+            res.status(error.statusCode).json({
+                success: false,
+                message: error.message
+            });
+            return;
+        }
+
+        console.error('Delete user error:', error);
+        res.status(500).json({
+            success: false,
+            message: 'Failed to delete user'
+        });
+    }
+};
+
+/**
+ * Restore an account its owner deleted, unless it was already anonymized (Admin only)
+ * @route POST /api/users/:id/restore
+ */
+export const restoreUser = async (req: Request, res: Response): Promise<void> => {
+    try {
+        const user = await User.findById(req.params.id);
+
+        if (!user) {
+            res.status(404).json({
+                success: false,
+                message: 'User not found'
+            });
+            return;
+        }
+
+        if (!user.deletedAt) {
+            res.status(409).json({
+                success: false,
+                message: 'This account has not been deleted'
+            });
+            return;
+        }
+
+        if (user.anonymizedAt) {
+            res.status(409).json({
+                success: false,
+                message: 'This account was anonymized and cannot be restored'
+            });
+            return;
+        }
+
+        const { deletedAt, deletionScheduledFor } = user;
+        user.isActive = true;
+        user.deletedAt = undefined;
+        user.deletionScheduledFor = undefined;
+        await user.save();
+        invalidateUserState(user._id.toString());
+
+        await recordAuditEvent(req, {
+            action: 'user.restore',
+            target: user._id.toString(),
+            before: { isActive: false, deletedAt, deletionScheduledFor },
+            after: { isActive: true, deletedAt: null, deletionScheduledFor: null }
+        });
+
+        res.status(200).json({
+            success: true,
+            message: 'User restored successfully',
+            data: {
+                user: {
+                    id: user._id,
+                    email: user.email,
+                    username: user.username,
+                    isActive: user.isActive
+                }
+            }
+        });
+    } catch (error) {
+        console.error('Restore user error:', error);
+        res.status(500).json({
+            success: false,
+            message: 'Failed to restore user'
+        });
+    }
+};
+
+/**
+ * Clear a user's failed login attempts and lockout (Admin only)
+ * @route DELETE /api/users/:id/lock
+ */
+export const unlockUser = async (req: Request, res: Response): Promise<void> => {
+    try {
+        const { id } = req.params;
+
+        const user = await User.findById(id);
+
+        if (!user) {
+            res.status(404).json({
+                success: false,
+                message: 'User not found'
+            });
+            return;
+        }
+
+        const wasLocked = await isAccountLocked(user._id.toString());
+        await clearAccountLock(user._id.toString());
+
+        await recordAuditEvent(req, {
+            action: 'user.unlock',
+            target: user._id.toString(),
+            metadata: { wasLocked }
+        });
+
+        res.status(200).json({
+            success: true,
+            message: wasLocked ? 'User account unlocked successfully' : 'User account was not locked',
+            data: {
+                user: {
+                    id: user._id,
+                    email: user.email,
+                    username: user.username
+                },
+                wasLocked
+            }
+        });
+    } catch (error) {
+        console.error('Unlock user error:', error);
+        res.status(500).json({
+            success: false,
+            message: 'Failed to unlock user'
+        });
+    }
+};
+
+/**
+ * Create users from a CSV or NDJSON file (Admin only). Send ?dryRun=true to
+ * only validate, and ?sendInvites=true to email users a link to choose a
+ * password instead of importing passwords.
+ * @route POST /api/users/import
+ */
+export const importUsers = async (req: Request, res: Response): Promise<void> => {
+    try {
+        // Check validation errors
+        const errors = validationResult(req);
+        if (!errors.isEmpty()) {
+            res.status(400).json({
+                success: false,
+                errors: errors.array()
+            });
+            return;
+        }
+
+        const format: ImportFormat | null = req.is('text/csv')
+            ? 'csv'
+            : req.is(['application/x-ndjson', 'application/ndjson'])
+                ? 'ndjson'
+                : null;
+
+        if (!format || typeof req.body !== 'string') {
+            res.status(415).json({
+                success: false,
+                message: 'Send the file as text/csv or application/x-ndjson'
+            });
+            return;
+        }
+
+        const report = await runUserImport(req, req.body, format, {
+            dryRun: req.query.dryRun === 'true',
+            sendInvites: req.query.sendInvites === 'true'
+        });
+
+        res.status(200).json({
+            success: true,
+            message: report.dryRun
+                ? `Dry run: ${report.valid} of ${report.total} rows are valid`
+                : `Imported ${report.created} of ${report.total} rows`,
+            data: report
+        });
+    } catch (error) {
+        if (error instanceof AppError) {
+            res.status(error.statusCode).json({
+                success: false,
+                message: error.message
+            });
+            return;
+        }
+
+        console.error('Import users error:', error);
+        res.status(500).json({
+            success: false,
+            message: 'Failed to import users'
+        });
+    }
+};
+
+/**
+ * Change the role of, activate or deactivate several users at once (Admin only).
+ * Reports the outcome for each user.
+ * @route POST /api/users/bulk
+ */
+export const bulkUpdateUsers = async (req: Request, res: Response): Promise<void> => {
+    try {
+        // Check validation errors
+        const errors = validationResult(req);
+        if (!errors.isEmpty()) {
+            res.status(400).json({
+                success: false,
+                errors: errors.array()
+            });
+            return;
+        }
+
+        const { action, role, ids, filter } = req.body;
+
+        // Each action needs the permission of its single-user endpoint
+        const permission = action === 'set-role' ? 'users:update-role' : 'users:deactivate';
+        if (!userHasPermission(req.user!, permission)) {
+            res.status(403).json({
+                success: false,
+                message: 'You do not have permission to access this resource'
+            });
+            return;
+        }
+
+        // Only the validated filter parameters are used
+        const report = await runBulkUserAction(req, {
+            action,
+            role,
+            ids,
+            filter: filter && { role: filter.role, isActive: filter.isActive, search: filter.search }
+        });
+
+        res.status(200).json({
+            success: true,
+            message: `Updated ${report.updated} of ${report.total} users`,
+            data: report
+        });
+    } catch (error) {
+        if (error instanceof AppError) {
+            res.status(error.statusCode).json({
+                success: false,
+                message: error.message
+            });
+            return;
+        }
+
+        console.error('Bulk update users error:', error);
+        res.status(500).json({
+            success: false,
+            message: 'Failed to update users'
+        });
+    }
+};
+
+/**
+ * Stream all users matching the getAllUsers filters as CSV or NDJSON (Admin only).
+ * Sensitive columns need includeSensitive=true and the users:export-sensitive permission.
+ * @route GET /api/users/export
+ */
+export const exportUsers = async (req: Request, res: Response): Promise<void> => {
+    try {
+        // Check validation errors
+        const errors = validationResult(req);
+        if (!errors.isEmpty()) {
+            res.status(400).json({
+                success: false,
+                errors: errors.array()
+            });
+            return;
+        }
+
+        const { format = 'csv', columns, includeSensitive } = req.query;
+
+        if (includeSensitive === 'true' && !userHasPermission(req.user!, 'users:export-sensitive')) {
+            res.status(403).json({
+                success: false,
+                message: 'You do not have permission to export sensitive fields'
+            });
+            return;
+        }
+
+        const exportFormat = format as ExportFormat;
+        const exportColumns = columns
+            ? [...new Set((columns as string).split(',').map(column => column.trim()))]
+            : DEFAULT_EXPORT_COLUMNS;
+        const filter = getUserFilter(req.query);
+
+        await recordAuditEvent(req, {
+            action: 'user.export',
+            metadata: { format: exportFormat, columns: exportColumns, filter }
+        });
+
+        const timestamp = new Date().toISOString().replace(/[:.]/g, '-');
+        res.status(200);
+        res.setHeader(
+            'Content-Type',
+            exportFormat === 'csv' ? 'text/csv; charset=utf-8' : 'application/x-ndjson; charset=utf-8'
+        );
+        res.setHeader('Content-Disposition', `attachment; filename="users-${timestamp}.${exportFormat}"`);
+        res.setHeader('Cache-Control', 'no-store');
+
+        await streamUserExport(res, { filter, columns: exportColumns, format: exportFormat });
+    } catch (error) {
+        // Once streaming started (or the client went away) no error can be sent; the
+        // response is cut short so a partial export is not mistaken for a complete one
+        if (res.headersSent || res.destroyed) {
+            if ((error as NodeJS.ErrnoException).code !== 'ERR_STREAM_PREMATURE_CLOSE') {
+                console.error('Export users error:', error);
+            }
+            res.destroy();
+            return;
+        }
+
+        console.error('Export users error:', error);
+        res.status(500).json({
+            success: false,
+            message: 'Failed to export users'
+        });
+    }
+};
+
+/**
+ * List accounts whose owners asked for them to be deleted, soonest purge first (Admin only)
+ * @route GET /api/users/deletions
+ */
+export const getPendingDeletions = async (req: Request, res: Response): Promise<void> => {
+    try {
+        // Check validation errors
+        const errors = validationResult(req);
+        if (!errors.isEmpty()) {
+            res.status(400).json({
+                success: false,
+                errors: errors.array()
+            });
+            return;
+        }
+
+        const { page = 1, limit = 20 } = req.query;
+
+        // Pagination
+        const pageNum = parseInt(page as string);
+        const limitNum = parseInt(limit as string);
+
+        const { users, total } = await listPendingDeletions({ page: pageNum, limit: limitNum });
+
+        res.status(200).json({
+            success: true,
+            data: {
+                users: users.map(user => ({
+                    id: user._id,
+                    email: user.email,
+                    username: user.username,
+                    fullName: user.getFullName(),
+                    role: user.role,
+                    deletedAt: user.deletedAt,
+                    deletionScheduledFor: user.deletionScheduledFor
+                })),
+                mode: getAccountDeletionMode(),
+                pagination: {
+                    page: pageNum,
+                    limit: limitNum,
+                    total,
+                    pages: Math.ceil(total / limitNum)
+                }
+            }
+        });
+    } catch (error) {
+        console.error('Get pending deletions error:', error);
+        res.status(500).json({
+            success: false,
+            message: 'Failed to retrieve pending deletions'
+        });
+    }
+};
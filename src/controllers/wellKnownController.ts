@@ -0,0 +1,22 @@
+import { Request, Response } from 'express';
+import { getJwks as getPublicKeys } from '../utils/jwtKeys.utils';
+
+/**
+ * Get the public keys that verify our tokens
+ * @route GET /.well-known/jwks.json
+ */
+export const getJwks = async (req: Request, res: Response): Promise<void> => {
+    try {
+        const jwks = getPublicKeys();
+
+        // Let verifiers cache the set for a few minutes
+        res.set('Cache-Control', 'public, max-age=300');
+        res.status(200).json(jwks);
+    } catch (error) {
+        console.error('Get JWKS error:', error);
+        res.status(500).json({
+            success: false,
+            message: 'Failed to retrieve signing keys'
+        });
+    }
+};
@@ -1,16 +1,106 @@
 import { Request, Response, NextFunction } from 'express';
-import { verifyToken } from '../utils/jwt.utils';
+import { verifyAccessToken, verifyChallengeToken } from '../utils/jwt.utils';
+import { isAccessTokenRevoked } from '../services/tokenRevocationService';
+import { isSessionActive } from '../services/sessionService';
+import { getUserState } from '../services/userStateService';
+import { getEmailVerificationPolicy } from '../services/emailVerificationService';
+import { authenticateApiKey, isApiKey } from '../services/apiKeyService';
+import { canSignIn } from '../services/accountDeletionService';
+import User from '../models/User';
+import { Permission } from '../config/roles';
+import { userHasPermission } from '../utils/permissions';
+
+interface AccessTokenClaims {
+    id: string;
+    email: string;
+    role: string;
+    jti?: string;
+    sid?: string;
+    ver?: number;
+    exp?: number;
+}
+
+/**
+ * Read the bearer token from the Authorization header
+ */
+const extractBearerToken = (req: Request): string | null => {
+    const authHeader = req.headers.authorization;
+    return authHeader && authHeader.startsWith('Bearer ')
+        ? authHeader.substring(7)
+        : null;
+};
+
+/**
+ * Verify an access token and make sure neither it nor its session has been revoked,
+ * and that the user has not been deactivated or changed role or password since.
+ * The role is taken from the user rather than the token.
+ */
+const checkAccessToken = async (token: string): Promise<AccessTokenClaims> => {
+    const decoded: AccessTokenClaims = verifyAccessToken(token);
+
+    if (!decoded.jti || await isAccessTokenRevoked(decoded.jti)) {
+        throw new Error('Token has been revoked');
+    }
+
+    if (decoded.sid && !await isSessionActive(decoded.sid)) {
+        throw new Error('Session has ended');
+    }
+
+    const state = await getUserState(decoded.id);
+    if (!state || !state.isActive || (decoded.ver ?? 0) !== state.tokenVersion) {
+        throw new Error('Token is no longer valid');
+    }
+
+    return { ...decoded, role: state.role };
+};
+
+/**
+ * Read an API key from the X-API-Key header or a bearer token with the key prefix
+ */
+const extractApiKey = (req: Request): string | null => {
+    const headerKey = req.get('x-api-key');
+    if (headerKey) {
+        return headerKey;
+    }
+
+    const token = extractBearerToken(req);
+    return token && isApiKey(token) ? token : null;
+};
 
 /**
- * Middleware to authenticate JWT tokens
+ * Middleware to authenticate JWT tokens and API keys.
+ * Requests made with an API key only get the permissions in the key's scopes.
  */
-export const authenticate = (req: Request, res: Response, next: NextFunction): void => {
+export const authenticate = async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+    const apiKey = extractApiKey(req);
+    if (apiKey) {
+        try {
+            const result = await authenticateApiKey(apiKey, req.ip);
+            if (!result) {
+                res.status(401).json({
+                    success: false,
+                    message: 'Invalid or expired API key'
+                });
+                return;
+            }
+
+            req.user = {
+                id: result.userId,
+                email: result.email,
+                role: result.role,
+                apiKeyId: result.apiKey._id.toString(),
+                permissions: result.permissions
+            };
+            next();
+        } catch (error) {
+            next(error);
+        }
+        return;
+    }
+
     try {
         // Get token from header
-        const authHeader = req.headers.authorization;
-        const token = authHeader && authHeader.startsWith('Bearer ') 
-            ? authHeader.substring(7) 
-            : null;
+        const token = extractBearerToken(req);
 
         if (!token) {
             res.status(401).json({
@@ -21,14 +111,17 @@ export const authenticate = (req: Request, res: Response, next: NextFunction): v
         }
 
         // Verify token
-        const decoded = verifyToken(token) as {
-            id: string;
-            email: string;
-            role: string;
-        };
+        const decoded = await checkAccessToken(token);
 
         // Attach user info to request
-        req.user = decoded;
+        req.user = {
+            id: decoded.id,
+            email: decoded.email,
+            role: decoded.role,
+            jti: decoded.jti,
+            sid: decoded.sid,
+            exp: decoded.exp
+        };
         next();
     } catch (error) {
         res.status(401).json({
@@ -38,6 +131,37 @@ export const authenticate = (req: Request, res: Response, next: NextFunction): v
     }
 };
 
+/**
+ * Middleware for two-factor enrollment routes. Accepts a regular access token or
+ * the enrollment challenge issued at login to users who must set up 2FA first.
+ */
+export const authenticateForEnrollment = async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+    const token = extractBearerToken(req);
+
+    if (token) {
+        try {
+            const challenge = verifyChallengeToken(token);
+            const user = challenge.purpose === 'enroll' ? await User.findById(challenge.id) : null;
+
+            // Accounts pending deletion may enroll to finish signing in, which cancels the deletion
+            if (user && canSignIn(user)) {
+                req.user = {
+                    id: user._id.toString(),
+                    email: user.email,
+                    role: user.role
+                };
+                req.twoFactorEnrollment = true;
+                next();
+                return;
+            }
+        } catch (error) {
+            // Not an enrollment challenge; fall back to a regular access token
+        }
+    }
+
+    await authenticate(req, res, next);
+};
+
 /**
  * Middleware to authorize based on user roles
  */
@@ -63,28 +187,106 @@ export const authorize = (roles: string[]) => {
     };
 };
 
+/**
+ * Middleware to authorize based on permissions granted by the user's role.
+ * The user needs every listed permission.
+ */
+export const requirePermission = (...permissions: Permission[]) => {
+    return (req: Request, res: Response, next: NextFunction): void => {
+        if (!req.user) {
+            res.status(401).json({
+                success: false,
+                message: 'Authentication required'
+            });
+            return;
+        }
+
+        const user = req.user;
+        if (!permissions.every(permission => userHasPermission(user, permission))) {
+            res.status(403).json({
+                success: false,
+                message: 'You do not have permission to access this resource'
+            });
+            return;
+        }
+
+        next();
+    };
+};
+
+/**
+ * Middleware to reject requests made with an API key (use after authenticate).
+ * Guards account security routes such as sessions, 2FA, passwords and key creation,
+ * which need a real login.
+ */
+export const rejectApiKeys = (req: Request, res: Response, next: NextFunction): void => {
+    if (req.user?.apiKeyId) {
+        res.status(403).json({
+            success: false,
+            message: 'This action cannot be performed with an API key'
+        });
+        return;
+    }
+
+    next();
+};
+
+/**
+ * Middleware to reject unverified accounts (use after authenticate).
+ * Has no effect when EMAIL_VERIFICATION_POLICY is "optional".
+ */
+export const requireVerifiedEmail = async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+    if (getEmailVerificationPolicy() === 'optional') {
+        next();
+        return;
+    }
+
+    if (!req.user) {
+        res.status(401).json({
+            success: false,
+            message: 'Authentication required'
+        });
+        return;
+    }
+
+    try {
+        const user = await User.findById(req.user.id).select('isEmailVerified');
+
+        if (!user || !user.isEmailVerified) {
+            res.status(403).json({
+                success: false,
+                message: 'Please verify your email address to access this resource'
+            });
+            return;
+        }
+
+        next();
+    } catch (error) {
+        next(error);
+    }
+};
+
 /**
  * Middleware to optionally authenticate (doesn't fail if no token)
  */
-export const optionalAuth = (req: Request, res: Response, next: NextFunction): void => {
+export const optionalAuth = async (req: Request, res: Response, next: NextFunction): Promise<void> => {
     try {
-        const authHeader = req.headers.authorization;
-        const token = authHeader && authHeader.startsWith('Bearer ') 
-            ? authHeader.substring(7) 
-            : null;
+        const token = extractBearerToken(req);
 
         if (token) {
-            const decoded = verifyToken(token) as {
-                id: string;
-                email: string;
-                role: string;
+            const decoded = await checkAccessToken(token);
+            req.user = {
+                id: decoded.id,
+                email: decoded.email,
+                role: decoded.role,
+                jti: decoded.jti,
+                sid: decoded.sid,
+                exp: decoded.exp
             };
-            req.user = decoded;
         }
-        
-        next();
     } catch (error) {
         // Continue without authentication
-        next();
     }
+
+    next();
 };
@@ -0,0 +1,105 @@
+import { Request, Response, NextFunction } from 'express';
+import mongoose from 'mongoose';
+import User from '../models/User';
+import { Permission } from '../config/roles';
+import { userHasPermission } from '../utils/permissions';
+import { getAssignRoleViolation, getManageUserViolation } from '../utils/userPolicies';
+
+/**
+ * Middleware allowing users to access their own record (identified by a route
+ * parameter) with profile:read, and anyone else only with the given permission
+ */
+export const allowSelfOr = (permission: Permission, param: string = 'id') => {
+    return (req: Request, res: Response, next: NextFunction): void => {
+        if (!req.user) {
+            res.status(401).json({
+                success: false,
+                message: 'Authentication required'
+            });
+            return;
+        }
+
+        const isSelf = req.params[param] === req.user.id;
+        if ((isSelf && userHasPermission(req.user, 'profile:read')) || userHasPermission(req.user, permission)) {
+            next();
+            return;
+        }
+
+        res.status(403).json({
+            success: false,
+            message: 'You do not have permission to access this resource'
+        });
+    };
+};
+
+/**
+ * Middleware rejecting actions on the caller's own account or on users whose
+ * role ranks the same as or higher than the caller's
+ */
+export const requireManageableUser = (param: string = 'id') => {
+    return async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+        if (!req.user) {
+            res.status(401).json({
+                success: false,
+                message: 'Authentication required'
+            });
+            return;
+        }
+
+        try {
+            const targetId = req.params[param];
+            const target = mongoose.isValidObjectId(targetId)
+                ? await User.findById(targetId).select('role')
+                : null;
+
+            if (!target) {
+                res.status(404).json({
+                    success: false,
+                    message: 'User not found'
+                });
+                return;
+            }
+
+            const violation = getManageUserViolation(req.user, { id: target._id.toString(), role: target.role });
+            if (violation) {
+                res.status(403).json({
+                    success: false,
+                    message: violation
+                });
+                return;
+            }
+
+            next();
+        } catch (error) {
+            next(error);
+        }
+    };
+};
+
+/**
+ * Middleware rejecting requests that assign a role (read from the body) ranked
+ * higher than the caller's own
+ */
+export const requireAssignableRole = (field: string = 'role') => {
+    return (req: Request, res: Response, next: NextFunction): void => {
+        if (!req.user) {
+            res.status(401).json({
+                success: false,
+                message: 'Authentication required'
+            });
+            return;
+        }
+
+        const role = req.body[field];
+        const violation = typeof role === 'string' ? getAssignRoleViolation(req.user, role) : null;
+        if (violation) {
+            res.status(403).json({
+                success: false,
+                message: violation
+            });
+            return;
+        }
+
+        next();
+    };
+};
@@ -0,0 +1,179 @@
+import { Request, Response, NextFunction } from 'express';
+
+export type RateLimitAlgorithm = 'fixed-window' | 'token-bucket';
+
+export interface RateLimitResult {
+    allowed: boolean;
+    remaining: number;
+    resetMs: number;
+}
+
+/**
+ * Storage for rate limit state. Both operations must be atomic per key;
+ * implement this to share limits between instances (e.g. in Redis).
+ */
+export interface RateLimitStore {
+    hitWindow(key: string, limit: number, windowMs: number): Promise<RateLimitResult>;
+    takeToken(key: string, capacity: number, refillMs: number): Promise<RateLimitResult>;
+}
+
+interface WindowState {
+    count: number;
+    resetAt: number;
+}
+
+interface BucketState {
+    tokens: number;
+    updatedAt: number;
+    expiresAt: number;
+}
+
+/**
+ * In-process rate limit store. Expired entries are swept once a minute.
+ */
+export class MemoryRateLimitStore implements RateLimitStore {
+    private windows = new Map<string, WindowState>();
+    private buckets = new Map<string, BucketState>();
+
+    constructor() {
+        setInterval(() => {
+            const now = Date.now();
+            this.windows.forEach((state, key) => {
+                if (state.resetAt <= now) this.windows.delete(key);
+            });
+            this.buckets.forEach((state, key) => {
+                if (state.expiresAt <= now) this.buckets.delete(key);
+            });
+        }, 60 * 1000).unref();
+    }
+
+    async hitWindow(key: string, limit: number, windowMs: number): Promise<RateLimitResult> {
+        const now = Date.now();
+        let state = this.windows.get(key);
+
+        if (!state || state.resetAt <= now) {
+            state = { count: 0, resetAt: now + windowMs };
+            this.windows.set(key, state);
+        }
+
+        state.count += 1;
+
+        return {
+            allowed: state.count <= limit,
+            remaining: Math.max(limit - state.count, 0),
+            resetMs: state.resetAt - now
+        };
+    }
+
+    async takeToken(key: string, capacity: number, refillMs: number): Promise<RateLimitResult> {
+        const now = Date.now();
+        const refillPerMs = capacity / refillMs;
+        const state = this.buckets.get(key) || { tokens: capacity, updatedAt: now, expiresAt: 0 };
+
+        // Refill for the time elapsed since the last request
+        state.tokens = Math.min(capacity, state.tokens + (now - state.updatedAt) * refillPerMs);
+        state.updatedAt = now;
+
+        const allowed = state.tokens >= 1;
+        if (allowed) {
+            state.tokens -= 1;
+        }
+
+        // A full bucket carries no information, so it can be dropped once refilled
+        const msUntilFull = Math.ceil((capacity - state.tokens) / refillPerMs);
+        state.expiresAt = now + msUntilFull;
+        this.buckets.set(key, state);
+
+        return {
+            allowed,
+            remaining: Math.floor(state.tokens),
+            resetMs: allowed ? msUntilFull : Math.ceil((1 - state.tokens) / refillPerMs)
+        };
+    }
+}
+
+export interface RateLimitOptions {
+    /** Namespace for the counters of this policy */
+    name: string;
+    algorithm: RateLimitAlgorithm;
+    /** Requests per window, or bucket capacity */
+    limit: number;
+    /** Window length, or time to refill an empty bucket */
+    windowMs: number;
+    /** What to count requests by: client IP, authenticated user (falls back to IP) or a custom key */
+    keyBy?: 'ip' | 'user' | ((req: Request) => string);
+    store?: RateLimitStore;
+    message?: string;
+}
+
+let defaultStore: RateLimitStore = new MemoryRateLimitStore();
+
+/**
+ * Replace the store used by policies that do not set their own
+ */
+export const setRateLimitStore = (store: RateLimitStore): void => {
+    defaultStore = store;
+};
+
+const resolveKey = (req: Request, keyBy: RateLimitOptions['keyBy']): string => {
+    if (typeof keyBy === 'function') {
+        return `custom:${keyBy(req)}`;
+    }
+
+    if (keyBy === 'user' && req.user) {
+        return `user:${req.user.id}`;
+    }
+
+    return `ip:${req.ip}`;
+};
+
+/**
+ * Create a rate limiting middleware. Sets the IETF RateLimit-* headers on every
+ * response and Retry-After when the limit is exceeded.
+ * Set RATE_LIMIT_ENABLED=false to turn all limits off.
+ */
+export const rateLimit = (options: RateLimitOptions) => {
+    const { name, algorithm, limit, windowMs, keyBy = 'ip', message } = options;
+    const policy = `${limit};w=${Math.ceil(windowMs / 1000)}`;
+
+    return async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+        if (process.env.RATE_LIMIT_ENABLED === 'false') {
+            next();
+            return;
+        }
+
+        let result: RateLimitResult;
+        try {
+            const store = options.store || defaultStore;
+            const key = `${name}:${resolveKey(req, keyBy)}`;
+
+            result = algorithm === 'token-bucket'
+                ? await store.takeToken(key, limit, windowMs)
+                : await store.hitWindow(key, limit, windowMs);
+        } catch (error) {
+            // Fail open: an unavailable store should not take the API down
+            console.error('Rate limit store error:', error);
+            next();
+            return;
+        }
+
+        const resetSeconds = Math.ceil(result.resetMs / 1000);
+        res.set({
+            'RateLimit-Policy': policy,
+            'RateLimit-Limit': limit.toString(),
+            'RateLimit-Remaining': result.remaining.toString(),
+            'RateLimit-Reset': resetSeconds.toString()
+        });
+
+        if (!result.allowed) {
+            res.set('Retry-After', resetSeconds.toString());
+            res.status(429).json({
+                success: false,
+                message: message || 'Too many requests, please try again later.'
+            });
+            return;
+        }
+
+        next();
+    };
+};
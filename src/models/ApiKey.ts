@@ -0,0 +1,80 @@
+import mongoose, { Document, Model, Schema, Types } from 'mongoose';
+import { Permission, PERMISSIONS } from '../config/roles';
+
+// API key interface for TypeScript
+export interface IApiKey extends Document {
+    user: Types.ObjectId;
+    name: string;
+    keyHash: string;
+    prefix: string;
+    scopes: Permission[];
+    expiresAt?: Date;
+    lastUsedAt?: Date;
+    lastUsedIp?: string;
+    createdAt: Date;
+    updatedAt: Date;
+}
+
+// API Key Schema
+// A named, long-lived credential for scripts. Only the hash of the key is stored;
+// `prefix` is kept so users can tell their keys apart.
+const ApiKeySchema = new Schema<IApiKey>(
+    {
+        user: {
+            type: Schema.Types.ObjectId,
+            ref: 'User',
+            required: true,
+            index: true
+        },
+        name: {
+            type: String,
+            required: [true, 'API key name is required'],
+            trim: true,
+            maxlength: [100, 'API key name cannot exceed 100 characters']
+        },
+        keyHash: {
+            type: String,
+            required: true,
+            unique: true,
+            select: false
+        },
+        prefix: {
+            type: String,
+            required: true
+        },
+        scopes: {
+            type: [String],
+            enum: Object.keys(PERMISSIONS),
+            default: []
+        },
+        expiresAt: {
+            type: Date,
+            default: null
+        },
+        lastUsedAt: {
+            type: Date,
+            default: null
+        },
+        lastUsedIp: {
+            type: String,
+            default: null
+        }
+    },
+    {
+        timestamps: true,
+        toJSON: {
+            transform: function (doc, ret) {
+                delete ret.keyHash;
+                delete ret.__v;
+                return ret;
+            }
+        }
+    }
+);
+
+// Let MongoDB remove keys once they expire (keys without an expiry are kept)
+ApiKeySchema.index({ expiresAt: 1 }, { expireAfterSeconds: 0 });
+
+// Create and export ApiKey model
+const ApiKey: Model<IApiKey> = mongoose.model<IApiKey>('ApiKey', ApiKeySchema);
+export default ApiKey;
@@ -0,0 +1,129 @@
+import mongoose, { Document, Model, Schema, Types } from 'mongoose';
+
+export const AUDIT_ACTIONS = [
+    'user.register',
+    'user.create',
+    'user.update',
+    'user.hard-delete',
+    'user.restore',
+    'user.email-verify',
+    'user.password-change',
+    'user.password-reset',
+    'user.account-delete',
+    'user.deletion-cancel',
+    'user.purge',
+    'user.anonymize',
+    'user.role-change',
+    'user.status-change',
+    'user.unlock',
+    'user.export',
+    'user.sessions-revoke',
+    'user.identity-link',
+    'user.identity-unlink',
+    'user.data-export',
+    'user.data-export-download',
+    'api-key.create',
+    'api-key.revoke',
+    'invitation.create',
+    'invitation.resend',
+    'invitation.revoke',
+    'auth.login',
+    'auth.login-failed',
+    'auth.logout',
+    'auth.refresh-token-reuse',
+    'two-factor.enable',
+    'two-factor.disable',
+    'two-factor.reset',
+    'two-factor.policy-update',
+    'oauth.client-create',
+    'oauth.client-update',
+    'oauth.client-delete',
+    'oauth.client-secret-rotate',
+    'oauth.consent-grant'
+] as const;
+
+export type AuditAction = typeof AUDIT_ACTIONS[number];
+
+// Audit event interface for TypeScript
+export interface IAuditEvent extends Document {
+    action: AuditAction;
+    actor?: Types.ObjectId;
+    target?: Types.ObjectId;
+    before?: Record<string, unknown>;
+    after?: Record<string, unknown>;
+    metadata?: Record<string, unknown>;
+    ip?: string;
+    userAgent?: string;
+    createdAt: Date;
+}
+
+// Audit Event Schema
+// Append-only: events can be created and read, never changed. Old events are
+// only removed by the retention TTL (AUDIT_RETENTION_DAYS, 0 keeps them forever).
+const AuditEventSchema = new Schema<IAuditEvent>(
+    {
+        action: {
+            type: String,
+            enum: AUDIT_ACTIONS,
+            required: true
+        },
+        actor: {
+            type: Schema.Types.ObjectId,
+            ref: 'User',
+            default: null
+        },
+        target: {
+            type: Schema.Types.ObjectId,
+            ref: 'User',
+            default: null
+        },
+        before: Schema.Types.Mixed,
+        after: Schema.Types.Mixed,
+        metadata: Schema.Types.Mixed,
+        ip: String,
+        userAgent: String
+    },
+    {
+        timestamps: { createdAt: true, updatedAt: false }
+    }
+);
+
+// Indexes for the admin query filters
+AuditEventSchema.index({ actor: 1, createdAt: -1 });
+AuditEventSchema.index({ target: 1, createdAt: -1 });
+AuditEventSchema.index({ action: 1, createdAt: -1 });
+
+// Retention (changing it later requires updating the existing index with collMod)
+const retentionDays = parseInt(process.env.AUDIT_RETENTION_DAYS || '365');
+AuditEventSchema.index(
+    { createdAt: -1 },
+    retentionDays > 0 ? { expireAfterSeconds: retentionDays * 24 * 60 * 60 } : {}
+);
+
+// Enforce append-only
+AuditEventSchema.pre('save', function (next) {
+    if (!this.isNew) {
+        return next(new Error('Audit events cannot be modified'));
+    }
+    next();
+});
+
+AuditEventSchema.pre(
+    [
+        'updateOne',
+        'updateMany',
+        'findOneAndUpdate',
+        'replaceOne',
+        'findOneAndReplace',
+        'deleteOne',
+        'deleteMany',
+        'findOneAndDelete'
+    ],
+    function (next) {
+        next(new Error('Audit events cannot be modified'));
+    }
+);
+
+// Create and export AuditEvent model
+const AuditEvent: Model<IAuditEvent> = mongoose.model<IAuditEvent>('AuditEvent', AuditEventSchema);
+export default AuditEvent;
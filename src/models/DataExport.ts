@@ -0,0 +1,80 @@
+import mongoose, { Document, Model, Schema, Types } from 'mongoose';
+
+export type DataExportStatus = 'pending' | 'ready' | 'failed' | 'downloaded';
+
+// Data export interface for TypeScript
+export interface IDataExport extends Document {
+    user: Types.ObjectId;
+    status: DataExportStatus;
+    tokenHash: string;
+    archive?: Buffer;
+    size?: number;
+    readyAt?: Date;
+    downloadedAt?: Date;
+    expiresAt: Date;
+    createdAt: Date;
+    updatedAt: Date;
+}
+
+// Data Export Schema
+// A copy of everything stored about a user, generated in the background and
+// downloadable once. Only a hash of the download token is stored.
+const DataExportSchema = new Schema<IDataExport>(
+    {
+        user: {
+            type: Schema.Types.ObjectId,
+            ref: 'User',
+            required: true,
+            index: true
+        },
+        status: {
+            type: String,
+            enum: ['pending', 'ready', 'failed', 'downloaded'],
+            default: 'pending'
+        },
+        tokenHash: {
+            type: String,
+            required: true,
+            unique: true,
+            select: false
+        },
+        // Gzipped JSON, removed once downloaded
+        archive: {
+            type: Buffer,
+            select: false
+        },
+        size: {
+            type: Number
+        },
+        readyAt: {
+            type: Date,
+            default: null
+        },
+        downloadedAt: {
+            type: Date,
+            default: null
+        },
+        expiresAt: {
+            type: Date,
+            required: true
+        }
+    },
+    {
+        timestamps: true,
+        toJSON: {
+            transform: function (doc, ret) {
+                delete ret.tokenHash;
+                delete ret.archive;
+                delete ret.__v;
+                return ret;
+            }
+        }
+    }
+);
+
+// Let MongoDB remove exports (and their archives) once the link has expired
+DataExportSchema.index({ expiresAt: 1 }, { expireAfterSeconds: 0 });
+
+// Create and export DataExport model
+const DataExport: Model<IDataExport> = mongoose.model<IDataExport>('DataExport', DataExportSchema);
+export default DataExport;
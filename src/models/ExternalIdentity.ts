@@ -0,0 +1,56 @@
+import mongoose, { Document, Model, Schema, Types } from 'mongoose';
+
+// External identity interface for TypeScript
+export interface IExternalIdentity extends Document {
+    user: Types.ObjectId;
+    provider: string;
+    subject: string;
+    email?: string;
+    lastLoginAt?: Date;
+    createdAt: Date;
+    updatedAt: Date;
+}
+
+// External Identity Schema
+// An account at an OIDC/OAuth provider (e.g. Google) that can sign in as a user
+const ExternalIdentitySchema = new Schema<IExternalIdentity>(
+    {
+        user: {
+            type: Schema.Types.ObjectId,
+            ref: 'User',
+            required: true,
+            index: true
+        },
+        provider: {
+            type: String,
+            required: true
+        },
+        subject: {
+            type: String,
+            required: true
+        },
+        email: {
+            type: String,
+            lowercase: true,
+            trim: true
+        },
+        lastLoginAt: {
+            type: Date,
+            default: null
+        }
+    },
+    {
+        timestamps: true
+    }
+);
+
+// A provider account belongs to one user, and a user has one account per provider
+ExternalIdentitySchema.index({ provider: 1, subject: 1 }, { unique: true });
+ExternalIdentitySchema.index({ user: 1, provider: 1 }, { unique: true });
+
+// Create and export ExternalIdentity model
+const ExternalIdentity: Model<IExternalIdentity> = mongoose.model<IExternalIdentity>(
+    'ExternalIdentity',
+    ExternalIdentitySchema
+);
+export default ExternalIdentity;
@@ -0,0 +1,99 @@
+import mongoose, { Document, Model, Schema, Types } from 'mongoose';
+
+export type InvitationStatus = 'pending' | 'accepted' | 'revoked' | 'expired';
+
+// Invitation interface for TypeScript
+export interface IInvitation extends Document {
+    email: string;
+    role: string;
+    tokenHash: string;
+    invitedBy?: Types.ObjectId;
+    expiresAt: Date;
+    lastSentAt: Date;
+    sendCount: number;
+    acceptedAt?: Date;
+    acceptedBy?: Types.ObjectId;
+    revokedAt?: Date;
+    createdAt: Date;
+    updatedAt: Date;
+    getStatus(): InvitationStatus;
+}
+
+// Invitation Schema
+// An admin's invitation for an email address to register, optionally with a
+// preassigned role. Only a hash of the token sent to the invitee is stored.
+const InvitationSchema = new Schema<IInvitation>(
+    {
+        email: {
+            type: String,
+            required: [true, 'Email is required'],
+            lowercase: true,
+            trim: true
+        },
+        role: {
+            type: String,
+            required: true
+        },
+        tokenHash: {
+            type: String,
+            required: true,
+            unique: true,
+            select: false
+        },
+        invitedBy: {
+            type: Schema.Types.ObjectId,
+            ref: 'User',
+            default: null
+        },
+        expiresAt: {
+            type: Date,
+            required: true
+        },
+        lastSentAt: {
+            type: Date,
+            default: Date.now
+        },
+        sendCount: {
+            type: Number,
+            default: 1
+        },
+        acceptedAt: {
+            type: Date,
+            default: null
+        },
+        acceptedBy: {
+            type: Schema.Types.ObjectId,
+            ref: 'User',
+            default: null
+        },
+        revokedAt: {
+            type: Date,
+            default: null
+        }
+    },
+    {
+        timestamps: true,
+        toJSON: {
+            transform: function (doc, ret) {
+                delete ret.tokenHash;
+                delete ret.__v;
+                ret.status = doc.getStatus();
+                return ret;
+            }
+        }
+    }
+);
+
+InvitationSchema.index({ email: 1, createdAt: -1 });
+
+// Instance method to derive the invitation's state from its timestamps
+InvitationSchema.methods.getStatus = function (): InvitationStatus {
+    if (this.acceptedAt) return 'accepted';
+    if (this.revokedAt) return 'revoked';
+    if (this.expiresAt <= new Date()) return 'expired';
+    return 'pending';
+};
+
+// Create and export Invitation model
+const Invitation: Model<IInvitation> = mongoose.model<IInvitation>('Invitation', InvitationSchema);
+export default Invitation;
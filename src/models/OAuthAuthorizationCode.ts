@@ -0,0 +1,79 @@
+import mongoose, { Document, Model, Schema, Types } from 'mongoose';
+
+// OAuth authorization code interface for TypeScript
+export interface IOAuthAuthorizationCode extends Document {
+    codeHash: string;
+    clientId: string;
+    user: Types.ObjectId;
+    redirectUri: string;
+    redirectUriProvided: boolean; // the token request must then repeat redirect_uri
+    scopes: string[];
+    codeChallenge: string;
+    expiresAt: Date;
+    usedAt?: Date;
+    accessTokenJti?: string; // token the code was exchanged for, revoked if the code is replayed
+    createdAt: Date;
+}
+
+// OAuth Authorization Code Schema
+// Issued when a user approves a client; exchanged once, with the PKCE verifier,
+// for an access token. Only a hash of the code is stored.
+const OAuthAuthorizationCodeSchema = new Schema<IOAuthAuthorizationCode>(
+    {
+        codeHash: {
+            type: String,
+            required: true,
+            unique: true
+        },
+        clientId: {
+            type: String,
+            required: true
+        },
+        user: {
+            type: Schema.Types.ObjectId,
+            ref: 'User',
+            required: true
+        },
+        redirectUri: {
+            type: String,
+            required: true
+        },
+        redirectUriProvided: {
+            type: Boolean,
+            default: true
+        },
+        scopes: {
+            type: [String],
+            default: []
+        },
+        codeChallenge: {
+            type: String,
+            required: true
+        },
+        expiresAt: {
+            type: Date,
+            required: true
+        },
+        usedAt: {
+            type: Date,
+            default: null
+        },
+        accessTokenJti: {
+            type: String,
+            default: null
+        }
+    },
+    {
+        timestamps: { createdAt: true, updatedAt: false }
+    }
+);
+
+// Let MongoDB remove codes once they have expired (used codes once their access token has)
+OAuthAuthorizationCodeSchema.index({ expiresAt: 1 }, { expireAfterSeconds: 0 });
+
+// Create and export OAuthAuthorizationCode model
+const OAuthAuthorizationCode: Model<IOAuthAuthorizationCode> = mongoose.model<IOAuthAuthorizationCode>(
+    'OAuthAuthorizationCode',
+    OAuthAuthorizationCodeSchema
+);
+export default OAuthAuthorizationCode;
@@ -0,0 +1,88 @@
+import mongoose, { Document, Model, Schema, Types } from 'mongoose';
+import { OAUTH_GRANT_TYPES, OAUTH_SCOPES, OAuthGrantType } from '../config/oauthScopes';
+
+export type OAuthClientType = 'confidential' | 'public';
+
+// OAuth client interface for TypeScript
+export interface IOAuthClient extends Document {
+    clientId: string;
+    clientSecretHash?: string;
+    name: string;
+    type: OAuthClientType;
+    redirectUris: string[];
+    grantTypes: OAuthGrantType[];
+    scopes: string[];
+    firstParty: boolean;
+    isActive: boolean;
+    createdBy?: Types.ObjectId;
+    createdAt: Date;
+    updatedAt: Date;
+}
+
+// OAuth Client Schema
+// An application that delegates login to this API. Confidential clients
+// authenticate with a secret (only its hash is stored); public clients rely on PKCE.
+const OAuthClientSchema = new Schema<IOAuthClient>(
+    {
+        clientId: {
+            type: String,
+            required: true,
+            unique: true
+        },
+        clientSecretHash: {
+            type: String,
+            select: false
+        },
+        name: {
+            type: String,
+            required: [true, 'Client name is required'],
+            trim: true,
+            maxlength: [100, 'Client name cannot exceed 100 characters']
+        },
+        type: {
+            type: String,
+            enum: ['confidential', 'public'],
+            default: 'confidential'
+        },
+        redirectUris: {
+            type: [String],
+            default: []
+        },
+        grantTypes: {
+            type: [String],
+            enum: OAUTH_GRANT_TYPES,
+            default: ['authorization_code']
+        },
+        scopes: {
+            type: [String],
+            enum: Object.keys(OAUTH_SCOPES),
+            default: []
+        },
+        firstParty: {
+            type: Boolean,
+            default: false
+        },
+        isActive: {
+            type: Boolean,
+            default: true
+        },
+        createdBy: {
+            type: Schema.Types.ObjectId,
+            ref: 'User'
+        }
+    },
+    {
+        timestamps: true,
+        toJSON: {
+            transform: function (doc, ret) {
+                delete ret.clientSecretHash;
+                delete ret.__v;
+                return ret;
+            }
+        }
+    }
+);
+
+// Create and export OAuthClient model
+const OAuthClient: Model<IOAuthClient> = mongoose.model<IOAuthClient>('OAuthClient', OAuthClientSchema);
+export default OAuthClient;
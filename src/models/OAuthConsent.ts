@@ -0,0 +1,39 @@
+import mongoose, { Document, Model, Schema, Types } from 'mongoose';
+
+// OAuth consent interface for TypeScript
+export interface IOAuthConsent extends Document {
+    user: Types.ObjectId;
+    clientId: string;
+    scopes: string[];
+    createdAt: Date;
+    updatedAt: Date;
+}
+
+// OAuth Consent Schema
+// Scopes a user has approved for a client, so they are not asked again
+const OAuthConsentSchema = new Schema<IOAuthConsent>(
+    {
+        user: {
+            type: Schema.Types.ObjectId,
+            ref: 'User',
+            required: true
+        },
+        clientId: {
+            type: String,
+            required: true
+        },
+        scopes: {
+            type: [String],
+            default: []
+        }
+    },
+    {
+        timestamps: true
+    }
+);
+
+OAuthConsentSchema.index({ user: 1, clientId: 1 }, { unique: true });
+
+// Create and export OAuthConsent model
+const OAuthConsent: Model<IOAuthConsent> = mongoose.model<IOAuthConsent>('OAuthConsent', OAuthConsentSchema);
+export default OAuthConsent;
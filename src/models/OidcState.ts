@@ -0,0 +1,64 @@
+import mongoose, { Document, Model, Schema, Types } from 'mongoose';
+
+export type OidcIntent = 'login' | 'link';
+
+// OIDC state interface for TypeScript
+export interface IOidcState extends Document {
+    stateHash: string;
+    provider: string;
+    intent: OidcIntent;
+    user?: Types.ObjectId;
+    nonce: string;
+    codeVerifier: string;
+    expiresAt: Date;
+    createdAt: Date;
+}
+
+// OIDC State Schema
+// One pending authorization request, looked up by the hash of its `state`
+// parameter when the provider redirects back, and deleted on first use.
+const OidcStateSchema = new Schema<IOidcState>(
+    {
+        stateHash: {
+            type: String,
+            required: true,
+            unique: true
+        },
+        provider: {
+            type: String,
+            required: true
+        },
+        intent: {
+            type: String,
+            enum: ['login', 'link'],
+            required: true
+        },
+        user: {
+            type: Schema.Types.ObjectId,
+            ref: 'User',
+            default: null
+        },
+        nonce: {
+            type: String,
+            required: true
+        },
+        codeVerifier: {
+            type: String,
+            required: true
+        },
+        expiresAt: {
+            type: Date,
+            required: true
+        }
+    },
+    {
+        timestamps: { createdAt: true, updatedAt: false }
+    }
+);
+
+// Let MongoDB remove abandoned requests once they have expired
+OidcStateSchema.index({ expiresAt: 1 }, { expireAfterSeconds: 0 });
+
+// Create and export OidcState model
+const OidcState: Model<IOidcState> = mongoose.model<IOidcState>('OidcState', OidcStateSchema);
+export default OidcState;
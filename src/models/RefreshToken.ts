@@ -0,0 +1,68 @@
+import mongoose, { Document, Model, Schema, Types } from 'mongoose';
+
+// Refresh token interface for TypeScript
+export interface IRefreshToken extends Document {
+    user: Types.ObjectId;
+    tokenHash: string;
+    family: string;
+    expiresAt: Date;
+    revokedAt?: Date;
+    revokedReason?: string;
+    replacedByHash?: string;
+    createdByIp?: string;
+    userAgent?: string;
+    createdAt: Date;
+    updatedAt: Date;
+}
+
+// Refresh Token Schema
+// Only a SHA-256 hash of the issued token is stored, never the token itself.
+// Every token rotated out of a login shares that login's `family`.
+const RefreshTokenSchema = new Schema<IRefreshToken>(
+    {
+        user: {
+            type: Schema.Types.ObjectId,
+            ref: 'User',
+            required: true,
+            index: true
+        },
+        tokenHash: {
+            type: String,
+            required: true,
+            unique: true
+        },
+        family: {
+            type: String,
+            required: true,
+            index: true
+        },
+        expiresAt: {
+            type: Date,
+            required: true
+        },
+        revokedAt: {
+            type: Date,
+            default: null
+        },
+        revokedReason: {
+            type: String,
+            default: null
+        },
+        replacedByHash: {
+            type: String,
+            default: null
+        },
+        createdByIp: String,
+        userAgent: String
+    },
+    {
+        timestamps: true
+    }
+);
+
+// Let MongoDB remove tokens once they have expired
+RefreshTokenSchema.index({ expiresAt: 1 }, { expireAfterSeconds: 0 });
+
+// Create and export RefreshToken model
+const RefreshToken: Model<IRefreshToken> = mongoose.model<IRefreshToken>('RefreshToken', RefreshTokenSchema);
+export default RefreshToken;
@@ -0,0 +1,41 @@
+import mongoose, { Document, Model, Schema, Types } from 'mongoose';
+
+// Revoked token interface for TypeScript
+export interface IRevokedToken extends Document {
+    jti: string;
+    user?: Types.ObjectId;
+    reason?: string;
+    expiresAt: Date;
+    createdAt: Date;
+}
+
+// Revoked Token Schema
+// An entry only needs to outlive the token it revokes, so it expires with it.
+const RevokedTokenSchema = new Schema<IRevokedToken>(
+    {
+        jti: {
+            type: String,
+            required: true,
+            unique: true
+        },
+        user: {
+            type: Schema.Types.ObjectId,
+            ref: 'User'
+        },
+        reason: String,
+        expiresAt: {
+            type: Date,
+            required: true
+        }
+    },
+    {
+        timestamps: { createdAt: true, updatedAt: false }
+    }
+);
+
+// Let MongoDB remove entries once the revoked token has expired
+RevokedTokenSchema.index({ expiresAt: 1 }, { expireAfterSeconds: 0 });
+
+// Create and export RevokedToken model
+const RevokedToken: Model<IRevokedToken> = mongoose.model<IRevokedToken>('RevokedToken', RevokedTokenSchema);
+export default RevokedToken;
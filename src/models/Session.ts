@@ -0,0 +1,62 @@
+import mongoose, { Document, Model, Schema, Types } from 'mongoose';
+
+// Session interface for TypeScript
+export interface ISession extends Document {
+    user: Types.ObjectId;
+    device: string;
+    ip?: string;
+    userAgent?: string;
+    lastUsedAt: Date;
+    expiresAt: Date;
+    revokedAt?: Date;
+    revokedReason?: string;
+    createdAt: Date;
+    updatedAt: Date;
+}
+
+// Session Schema
+// A session is one login on one device. Its id is the `family` of the refresh
+// tokens rotated out of that login and the `sid` claim of its access tokens.
+const SessionSchema = new Schema<ISession>(
+    {
+        user: {
+            type: Schema.Types.ObjectId,
+            ref: 'User',
+            required: true,
+            index: true
+        },
+        device: {
+            type: String,
+            default: 'Unknown device',
+            maxlength: [100, 'Device name cannot exceed 100 characters']
+        },
+        ip: String,
+        userAgent: String,
+        lastUsedAt: {
+            type: Date,
+            default: Date.now
+        },
+        expiresAt: {
+            type: Date,
+            required: true
+        },
+        revokedAt: {
+            type: Date,
+            default: null
+        },
+        revokedReason: {
+            type: String,
+            default: null
+        }
+    },
+    {
+        timestamps: true
+    }
+);
+
+// Let MongoDB remove sessions once their last refresh token has expired
+SessionSchema.index({ expiresAt: 1 }, { expireAfterSeconds: 0 });
+
+// Create and export Session model
+const Session: Model<ISession> = mongoose.model<ISession>('Session', SessionSchema);
+export default Session;
@@ -0,0 +1,36 @@
+import mongoose, { Document, Model, Schema } from 'mongoose';
+
+// Setting interface for TypeScript
+export interface ISetting extends Document {
+    key: string;
+    value: unknown;
+    updatedBy?: mongoose.Types.ObjectId;
+    createdAt: Date;
+    updatedAt: Date;
+}
+
+// Setting Schema
+// Runtime configuration that admins can change without a redeploy
+const SettingSchema = new Schema<ISetting>(
+    {
+        key: {
+            type: String,
+            required: true,
+            unique: true
+        },
+        value: {
+            type: Schema.Types.Mixed
+        },
+        updatedBy: {
+            type: Schema.Types.ObjectId,
+            ref: 'User'
+        }
+    },
+    {
+        timestamps: true
+    }
+);
+
+// Create and export Setting model
+const Setting: Model<ISetting> = mongoose.model<ISetting>('Setting', SettingSchema);
+export default Setting;
@@ -1,5 +1,7 @@
 import mongoose, { Document, Model, Schema } from 'mongoose';
 import bcrypt from 'bcryptjs';
+import { DEFAULT_ROLE } from '../config/roles';
+import { getRoleNames } from '../utils/permissions';
 
 // User interface for TypeScript
 export interface IUser extends Document {
@@ -8,10 +10,11 @@ export interface IUser extends Document {
     firstName: string;
     lastName: string;
     username: string;
-    role: 'admin' | 'user' | 'moderator';
+    role: string; // see config/roles
     isActive: boolean;
     isEmailVerified: boolean;
-    profilePicture?: string;
+    profilePicture?: string; // URL of the uploaded picture; see profilePictureService
+    profilePictureKey?: string; // storage key of the uploaded picture
     bio?: string;
     phoneNumber?: string;
     dateOfBirth?: Date;
@@ -23,6 +26,19 @@ export interface IUser extends Document {
         zipCode?: string;
     };
     lastLogin?: Date;
+    deletedAt?: Date; // set when the owner asked for the account to be deleted; see accountDeletionService
+    deletionScheduledFor?: Date; // end of the grace period, after which the account is purged or anonymized
+    anonymizedAt?: Date; // set when the account's personal data was anonymized after deletion
+    tokenVersion: number; // bumped to invalidate all access tokens issued before
+    hasPassword: boolean; // false for accounts created through a sign-in provider
+    twoFactor: {
+        enabled: boolean;
+        secret?: string;
+        pendingSecret?: string;
+        recoveryCodes?: string[];
+        lastUsedStep?: number;
+        enabledAt?: Date;
+    };
     createdAt: Date;
     updatedAt: Date;
     comparePassword(candidatePassword: string): Promise<boolean>;
@@ -68,8 +84,8 @@ const UserSchema = new Schema<IUser>(
         },
         role: {
             type: String,
-            enum: ['admin', 'user', 'moderator'],
-            default: 'user'
+            enum: getRoleNames(),
+            default: DEFAULT_ROLE
         },
         isActive: {
             type: Boolean,
@@ -83,6 +99,10 @@ const UserSchema = new Schema<IUser>(
             type: String,
             default: null
         },
+        profilePictureKey: {
+            type: String,
+            select: false
+        },
         bio: {
             type: String,
             maxlength: [500, 'Bio cannot exceed 500 characters']
@@ -110,6 +130,49 @@ const UserSchema = new Schema<IUser>(
         lastLogin: {
             type: Date,
             default: null
+        },
+        deletedAt: {
+            type: Date,
+            default: null
+        },
+        deletionScheduledFor: {
+            type: Date,
+            default: null
+        },
+        anonymizedAt: {
+            type: Date,
+            default: null
+        },
+        tokenVersion: {
+            type: Number,
+            default: 0
+        },
+        hasPassword: {
+            type: Boolean,
+            default: true
+        },
+        twoFactor: {
+            enabled: {
+                type: Boolean,
+                default: false
+            },
+            secret: {
+                type: String,
+                select: false
+            },
+            pendingSecret: {
+                type: String,
+                select: false
+            },
+            recoveryCodes: {
+                type: [String], // SHA-256 hashes
+                select: false
+            },
+            lastUsedStep: {
+                type: Number,
+                select: false
+            },
+            enabledAt: Date
         }
     },
     {
@@ -118,6 +181,10 @@ const UserSchema = new Schema<IUser>(
             transform: function (doc, ret) {
                 delete ret.password;
                 delete ret.__v;
+                delete ret.tokenVersion;
+                if (ret.twoFactor) {
+                    ret.twoFactor = { enabled: ret.twoFactor.enabled, enabledAt: ret.twoFactor.enabledAt };
+                }
                 return ret;
             }
         }
@@ -126,12 +193,29 @@ const UserSchema = new Schema<IUser>(
 
 // Indexes for better query performance
 UserSchema.index({ email: 1, username: 1 });
-UserSchema.index({ createdAt: -1 });
+// Listing pages through users ordered by these fields, then by id
+UserSchema.index({ createdAt: -1, _id: -1 });
+UserSchema.index({ lastLogin: -1, _id: -1 });
+UserSchema.index({ deletionScheduledFor: 1 });
+
+// Pre-save middleware to invalidate existing access tokens when the account's
+// role, status or password changes (see userStateService)
+UserSchema.pre<IUser>('save', function (next) {
+    if (!this.isNew && (this.isModified('role') || this.isModified('isActive') || this.isModified('password'))) {
+        this.tokenVersion = (this.tokenVersion ?? 0) + 1;
+    }
+    next();
+});
 
 // Pre-save middleware to hash password
 UserSchema.pre<IUser>('save', async function (next) {
     if (!this.isModified('password')) return next();
 
+    // Accounts created through a sign-in provider get a random password until the user sets one
+    if (!this.isNew) {
+        this.hasPassword = true;
+    }
+
     try {
         const salt = await bcrypt.genSalt(10);
         this.password = await bcrypt.hash(this.password, salt);
@@ -0,0 +1,54 @@
+import mongoose, { Document, Model, Schema, Types } from 'mongoose';
+
+export type UserTokenType = 'email-verification' | 'password-reset';
+
+// User token interface for TypeScript
+export interface IUserToken extends Document {
+    user: Types.ObjectId;
+    type: UserTokenType;
+    tokenHash: string;
+    expiresAt: Date;
+    usedAt?: Date;
+    createdAt: Date;
+}
+
+// User Token Schema
+// Single-use tokens sent to users by email. Only a hash of the token is stored.
+const UserTokenSchema = new Schema<IUserToken>(
+    {
+        user: {
+            type: Schema.Types.ObjectId,
+            ref: 'User',
+            required: true,
+            index: true
+        },
+        type: {
+            type: String,
+            enum: ['email-verification', 'password-reset'],
+            required: true
+        },
+        tokenHash: {
+            type: String,
+            required: true,
+            unique: true
+        },
+        expiresAt: {
+            type: Date,
+            required: true
+        },
+        usedAt: {
+            type: Date,
+            default: null
+        }
+    },
+    {
+        timestamps: { createdAt: true, updatedAt: false }
+    }
+);
+
+// Let MongoDB remove tokens once they have expired
+UserTokenSchema.index({ expiresAt: 1 }, { expireAfterSeconds: 0 });
+
+// Create and export UserToken model
+const UserToken: Model<IUserToken> = mongoose.model<IUserToken>('UserToken', UserTokenSchema);
+export default UserToken;
@@ -0,0 +1,24 @@
+import { Router } from 'express';
+import * as auditController from '../controllers/auditController';
+import { authenticate, requirePermission } from '../middleware/authMiddleware';
+import { rateLimit } from '../middleware/rateLimitMiddleware';
+import { rateLimitPolicies } from '../config/rateLimits';
+import { validateAuditQuery } from '../validators/auditValidators';
+
+const router = Router();
+
+/**
+ * Audit routes (Admin only)
+ */
+
+// Query audit events
+router.get(
+    '/',
+    authenticate,
+    rateLimit(rateLimitPolicies.auditQuery),
+    requirePermission('audit:read'),
+    validateAuditQuery,
+    auditController.getAuditEvents
+);
+
+export default router;
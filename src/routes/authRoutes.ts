@@ -1,10 +1,31 @@
 import { Router } from 'express';
 import * as authController from '../controllers/authController';
-import { authenticate } from '../middleware/authMiddleware';
+import * as sessionController from '../controllers/sessionController';
+import * as twoFactorController from '../controllers/twoFactorController';
+import * as oidcController from '../controllers/oidcController';
+import {
+    authenticate,
+    authenticateForEnrollment,
+    optionalAuth,
+    rejectApiKeys,
+    requirePermission
+} from '../middleware/authMiddleware';
+import { rateLimit } from '../middleware/rateLimitMiddleware';
+import { rateLimitPolicies } from '../config/rateLimits';
 import {
     validateLogin,
     validateRegister,
-    validateRefreshToken
+    validateRefreshToken,
+    validateSessionId,
+    validateVerifyEmail,
+    validateResendVerification,
+    validateForgotPassword,
+    validateResetPassword,
+    validateTwoFactorVerify,
+    validateTwoFactorCode,
+    validateTwoFactorDisable,
+    validateTwoFactorPolicy,
+    validateOidcCallback
 } from '../validators/authValidators';
 
 const router = Router();
@@ -14,22 +35,169 @@ const router = Router();
  */
 
 // Register a new user
-router.post('/register', validateRegister, authController.register);
+router.post('/register', rateLimit(rateLimitPolicies.register), validateRegister, authController.register);
 
 // Login user
-router.post('/login', validateLogin, authController.login);
+router.post('/login', rateLimit(rateLimitPolicies.login), validateLogin, authController.login);
 
 // Refresh access token
-router.post('/refresh', validateRefreshToken, authController.refreshToken);
+router.post('/refresh', rateLimit(rateLimitPolicies.refresh), validateRefreshToken, authController.refreshToken);
+
+// Verify email address
+router.post('/verify-email', rateLimit(rateLimitPolicies.verifyEmail), validateVerifyEmail, authController.verifyEmail);
+
+// Resend verification email
+router.post(
+    '/verify-email/resend',
+    rateLimit(rateLimitPolicies.resendVerification),
+    validateResendVerification,
+    authController.resendVerificationEmail
+);
+
+// Request password reset email
+router.post(
+    '/forgot-password',
+    rateLimit(rateLimitPolicies.forgotPassword),
+    validateForgotPassword,
+    authController.forgotPassword
+);
+
+// Reset password with token
+router.post(
+    '/reset-password',
+    rateLimit(rateLimitPolicies.resetPassword),
+    validateResetPassword,
+    authController.resetPassword
+);
+
+// Complete login with a two-factor code
+router.post(
+    '/2fa/verify',
+    rateLimit(rateLimitPolicies.twoFactorVerify),
+    validateTwoFactorVerify,
+    twoFactorController.verifyLogin
+);
+
+// List sign-in providers (Google, GitHub, ...)
+router.get('/oidc/providers', rateLimit(rateLimitPolicies.oidcProviders), oidcController.getProviders);
+
+// Start signing in with a provider
+router.get('/oidc/:provider/authorize', rateLimit(rateLimitPolicies.oidcAuthorize), oidcController.authorize);
+
+// Complete a provider sign-in (or, for the user who started it, a link request)
+router.post(
+    '/oidc/:provider/callback',
+    rateLimit(rateLimitPolicies.oidcCallback),
+    optionalAuth,
+    validateOidcCallback,
+    oidcController.callback
+);
 
 /**
  * Protected routes
  */
 
-// Get current user
-router.get('/me', authenticate, authController.getCurrentUser);
+// Get current user (profile:read)
+router.get(
+    '/me',
+    authenticate,
+    rateLimit(rateLimitPolicies.currentUser),
+    requirePermission('profile:read'),
+    authController.getCurrentUser
+);
 
 // Logout user
-router.post('/logout', authenticate, authController.logout);
+router.post('/logout', authenticate, rejectApiKeys, rateLimit(rateLimitPolicies.logout), authController.logout);
+
+// List active sessions
+router.get(
+    '/sessions',
+    authenticate,
+    rejectApiKeys,
+    rateLimit(rateLimitPolicies.listSessions),
+    sessionController.getMySessions
+);
+
+// Revoke all sessions except the current one
+router.post(
+    '/sessions/revoke-others',
+    authenticate,
+    rejectApiKeys,
+    rateLimit(rateLimitPolicies.revokeOtherSessions),
+    sessionController.revokeMyOtherSessions
+);
+
+// Revoke a session
+router.delete(
+    '/sessions/:sessionId',
+    authenticate,
+    rejectApiKeys,
+    rateLimit(rateLimitPolicies.revokeSession),
+    validateSessionId,
+    sessionController.revokeMySession
+);
+
+/**
+ * Two-factor authentication routes
+ * (setup and enable also accept the enrollment challenge issued at login)
+ */
+
+// Start enrollment
+router.post(
+    '/2fa/setup',
+    authenticateForEnrollment,
+    rejectApiKeys,
+    rateLimit(rateLimitPolicies.twoFactorSetup),
+    twoFactorController.setup
+);
+
+// Confirm enrollment and enable
+router.post(
+    '/2fa/enable',
+    authenticateForEnrollment,
+    rejectApiKeys,
+    rateLimit(rateLimitPolicies.twoFactorEnable),
+    validateTwoFactorCode,
+    twoFactorController.enable
+);
+
+// Disable
+router.post(
+    '/2fa/disable',
+    authenticate,
+    rejectApiKeys,
+    rateLimit(rateLimitPolicies.twoFactorDisable),
+    validateTwoFactorDisable,
+    twoFactorController.disable
+);
+
+// Regenerate recovery codes
+router.post(
+    '/2fa/recovery-codes',
+    authenticate,
+    rejectApiKeys,
+    rateLimit(rateLimitPolicies.twoFactorRecoveryCodes),
+    validateTwoFactorCode,
+    twoFactorController.regenerateRecoveryCodes
+);
+
+// Get roles that require 2FA (two-factor:manage-policy)
+router.get(
+    '/2fa/policy',
+    authenticate,
+    rateLimit(rateLimitPolicies.getTwoFactorPolicy),
+    requirePermission('two-factor:manage-policy'),
+    twoFactorController.getPolicy
+);
+
+// Set roles that require 2FA (two-factor:manage-policy)
+router.put(
+    '/2fa/policy',
+    authenticate,
+    rateLimit(rateLimitPolicies.updateTwoFactorPolicy),
+    requirePermission('two-factor:manage-policy'),
+    validateTwoFactorPolicy,
+    twoFactorController.updatePolicy
+);
 
 export default router;
@@ -0,0 +1,57 @@
+import { Router } from 'express';
+import * as invitationController from '../controllers/invitationController';
+import { authenticate, requirePermission } from '../middleware/authMiddleware';
+import { rateLimit } from '../middleware/rateLimitMiddleware';
+import { requireAssignableRole } from '../middleware/policyMiddleware';
+import { rateLimitPolicies } from '../config/rateLimits';
+import {
+    validateCreateInvitation,
+    validateInvitationId,
+    validateListInvitations
+} from '../validators/invitationValidators';
+
+const router = Router();
+
+/**
+ * Invitation routes (Admin only)
+ */
+router.use(authenticate);
+
+// List invitations
+router.get(
+    '/',
+    rateLimit(rateLimitPolicies.listInvitations),
+    requirePermission('invitations:manage'),
+    validateListInvitations,
+    invitationController.getInvitations
+);
+
+// Invite a user (the role cannot rank above the inviter's)
+router.post(
+    '/',
+    rateLimit(rateLimitPolicies.createInvitation),
+    requirePermission('invitations:manage'),
+    validateCreateInvitation,
+    requireAssignableRole(),
+    invitationController.createUserInvitation
+);
+
+// Resend an invitation
+router.post(
+    '/:id/resend',
+    rateLimit(rateLimitPolicies.resendInvitation),
+    requirePermission('invitations:manage'),
+    validateInvitationId,
+    invitationController.resendUserInvitation
+);
+
+// Revoke an invitation
+router.delete(
+    '/:id',
+    rateLimit(rateLimitPolicies.revokeInvitation),
+    requirePermission('invitations:manage'),
+    validateInvitationId,
+    invitationController.revokeUserInvitation
+);
+
+export default router;
@@ -0,0 +1,65 @@
+import { Router } from 'express';
+import * as oauthClientController from '../controllers/oauthClientController';
+import { authenticate, requirePermission } from '../middleware/authMiddleware';
+import { rateLimit } from '../middleware/rateLimitMiddleware';
+import { rateLimitPolicies } from '../config/rateLimits';
+import { validateCreateOAuthClient, validateUpdateOAuthClient } from '../validators/oauthValidators';
+
+const router = Router();
+
+/**
+ * OAuth client routes (Admin only)
+ */
+router.use(authenticate);
+
+// List clients
+router.get(
+    '/',
+    rateLimit(rateLimitPolicies.listOAuthClients),
+    requirePermission('oauth-clients:manage'),
+    oauthClientController.getOAuthClients
+);
+
+// Register a client
+router.post(
+    '/',
+    rateLimit(rateLimitPolicies.manageOAuthClients),
+    requirePermission('oauth-clients:manage'),
+    validateCreateOAuthClient,
+    oauthClientController.createClient
+);
+
+// Get a client
+router.get(
+    '/:id',
+    rateLimit(rateLimitPolicies.listOAuthClients),
+    requirePermission('oauth-clients:manage'),
+    oauthClientController.getOAuthClientById
+);
+
+// Update a client
+router.patch(
+    '/:id',
+    rateLimit(rateLimitPolicies.manageOAuthClients),
+    requirePermission('oauth-clients:manage'),
+    validateUpdateOAuthClient,
+    oauthClientController.updateClient
+);
+
+// Replace a client's secret
+router.post(
+    '/:id/rotate-secret',
+    rateLimit(rateLimitPolicies.manageOAuthClients),
+    requirePermission('oauth-clients:manage'),
+    oauthClientController.rotateSecret
+);
+
+// Delete a client
+router.delete(
+    '/:id',
+    rateLimit(rateLimitPolicies.manageOAuthClients),
+    requirePermission('oauth-clients:manage'),
+    oauthClientController.deleteClient
+);
+
+export default router;
@@ -0,0 +1,242 @@
+import crypto from 'crypto';
+import express from 'express';
+import http from 'http';
+import { AddressInfo } from 'net';
+import OAuthClient from '../models/OAuthClient';
+import OAuthAuthorizationCode from '../models/OAuthAuthorizationCode';
+import User from '../models/User';
+import { revokeAccessToken } from '../services/tokenRevocationService';
+import { hashToken } from '../utils/crypto.utils';
+import oauthRoutes from './oauthRoutes';
+
+jest.mock('../models/OAuthClient', () => ({
+    __esModule: true,
+    default: {
+        findOne: jest.fn()
+    }
+}));
+
+jest.mock('../models/OAuthAuthorizationCode', () => ({
+    __esModule: true,
+    default: {
+        findOne: jest.fn(),
+        findOneAndUpdate: jest.fn(),
+        updateOne: jest.fn()
+    }
+}));
+
+jest.mock('../models/User', () => ({
+    __esModule: true,
+    default: {
+        findById: jest.fn()
+    }
+}));
+
+jest.mock('../services/tokenRevocationService', () => ({
+    isAccessTokenRevoked: jest.fn(),
+    revokeAccessToken: jest.fn()
+}));
+
+const mockedClient = jest.mocked(OAuthClient);
+const mockedCode = jest.mocked(OAuthAuthorizationCode);
+const mockedUser = jest.mocked(User);
+
+const USER_ID = '64b7f0c2a1b2c3d4e5f60718';
+const REDIRECT_URI = 'https://app.example.com/callback';
+const CODE = 'authorization-code';
+const CODE_VERIFIER = 'code-verifier-with-enough-entropy-for-pkce-0123456789';
+
+const publicClient = {
+    clientId: 'public-app',
+    type: 'public',
+    grantTypes: ['authorization_code'],
+    scopes: ['profile']
+};
+
+const confidentialClient = {
+    clientId: 'server-app',
+    type: 'confidential',
+    clientSecretHash: hashToken('server-secret'),
+    grantTypes: ['authorization_code', 'client_credentials'],
+    scopes: ['profile']
+};
+
+const storedCode = (fields: Record<string, unknown> = {}) => ({
+    _id: 'code-1',
+    clientId: publicClient.clientId,
+    user: USER_ID,
+    redirectUri: REDIRECT_URI,
+    redirectUriProvided: true,
+    scopes: ['profile'],
+    codeChallenge: crypto.createHash('sha256').update(CODE_VERIFIER).digest('base64url'),
+    expiresAt: new Date(Date.now() + 60 * 1000),
+    ...fields
+});
+
+let server: http.Server;
+let baseUrl: string;
+
+/**
+ * Post a form the way OAuth clients do (application/x-www-form-urlencoded)
+ */
+const post = async (path: string, form: string): Promise<{ status: number; body: Record<string, unknown> }> => {
+    const response = await fetch(`${baseUrl}/oauth${path}`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/x-www-form-urlencoded' },
+        body: form
+    });
+    const text = await response.text();
+
+    return { status: response.status, body: text ? JSON.parse(text) : {} };
+};
+
+const tokenForm = (fields: Record<string, string> = {}): string => {
+    return new URLSearchParams({
+        grant_type: 'authorization_code',
+        client_id: publicClient.clientId,
+        code: CODE,
+        code_verifier: CODE_VERIFIER,
+        redirect_uri: REDIRECT_URI,
+        ...fields
+    }).toString();
+};
+
+describe('OAuth token endpoints', () => {
+    beforeAll(async () => {
+        process.env.JWT_SECRET = 'test-secret';
+
+        const app = express();
+        app.use(express.json());
+        app.use(express.urlencoded({ extended: true }));
+        app.use('/oauth', oauthRoutes);
+
+        server = http.createServer(app);
+        await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+        baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+    });
+
+    afterAll(async () => {
+        await new Promise(resolve => server.close(resolve));
+    });
+
+    beforeEach(() => {
+        jest.resetAllMocks();
+        jest.spyOn(console, 'warn').mockImplementation(() => undefined);
+
+        mockedClient.findOne.mockImplementation(((filter: { clientId: string }) => ({
+            select: () => Promise.resolve(
+                [publicClient, confidentialClient].find(client => client.clientId === filter.clientId) ?? null
+            )
+        })) as never);
+        mockedUser.findById.mockResolvedValue({ _id: USER_ID, isActive: true, tokenVersion: 0 } as never);
+    });
+
+    afterEach(() => {
+        jest.restoreAllMocks();
+    });
+
+    it('exchanges a code and its verifier for an access token', async () => {
+        mockedCode.findOneAndUpdate.mockResolvedValue(storedCode() as never);
+
+        const response = await post('/token', tokenForm());
+
+        expect(response.status).toBe(200);
+        expect(response.body).toMatchObject({ token_type: 'Bearer', scope: 'profile' });
+        expect(mockedCode.findOneAndUpdate).toHaveBeenCalledWith(
+            expect.objectContaining({ codeHash: hashToken(CODE), usedAt: null }),
+            { usedAt: expect.any(Date) }
+        );
+        expect(mockedCode.updateOne).toHaveBeenCalledWith(
+            { _id: 'code-1' },
+            { accessTokenJti: expect.any(String), expiresAt: expect.any(Date) }
+        );
+    });
+
+    it('rejects operator objects as client_id before any lookup', async () => {
+        const response = await post('/token', 'grant_type=authorization_code&client_id[$ne]=x&code=a&code_verifier=b');
+
+        expect(response.status).toBe(401);
+        expect(response.body.error).toBe('invalid_client');
+        expect(mockedClient.findOne).not.toHaveBeenCalled();
+    });
+
+    it('rejects a client_secret that is not a string', async () => {
+        const response = await post('/introspect', 'client_id=server-app&client_secret[]=a&token=t');
+
+        expect(response.status).toBe(401);
+        expect(response.body.error).toBe('invalid_client');
+    });
+
+    it.each([
+        ['code', `client_id=public-app&grant_type=authorization_code&code[$gt]=&code_verifier=${CODE_VERIFIER}`],
+        ['code_verifier', `client_id=public-app&grant_type=authorization_code&code=${CODE}&code_verifier[]=a`]
+    ])('rejects a %s that is not a string without consuming the code', async (_, form) => {
+        const response = await post('/token', form);
+
+        expect(response.status).toBe(400);
+        expect(response.body.error).toBe('invalid_request');
+        expect(mockedCode.findOneAndUpdate).not.toHaveBeenCalled();
+    });
+
+    it('requires the redirect_uri when the authorization request included one', async () => {
+        mockedCode.findOneAndUpdate.mockResolvedValue(storedCode() as never);
+
+        const form = new URLSearchParams(tokenForm());
+        form.delete('redirect_uri');
+        const response = await post('/token', form.toString());
+
+        expect(response.status).toBe(400);
+        expect(response.body.error).toBe('invalid_grant');
+    });
+
+    it('rejects a wrong code_verifier', async () => {
+        mockedCode.findOneAndUpdate.mockResolvedValue(storedCode() as never);
+
+        const response = await post('/token', tokenForm({ code_verifier: 'another-verifier' }));
+
+        expect(response.status).toBe(400);
+        expect(response.body.error).toBe('invalid_grant');
+    });
+
+    it('rejects a code issued to another client', async () => {
+        mockedCode.findOneAndUpdate.mockResolvedValue(storedCode({ clientId: 'other-app' }) as never);
+
+        const response = await post('/token', tokenForm());
+
+        expect(response.status).toBe(400);
+        expect(response.body.error).toBe('invalid_grant');
+    });
+
+    it('revokes the access token issued from a replayed code', async () => {
+        const expiresAt = new Date(Date.now() + 60 * 60 * 1000);
+        mockedCode.findOneAndUpdate.mockResolvedValue(null as never);
+        mockedCode.findOne.mockResolvedValue(
+            storedCode({ usedAt: new Date(), accessTokenJti: 'issued-jti', expiresAt }) as never
+        );
+
+        const response = await post('/token', tokenForm());
+
+        expect(response.status).toBe(400);
+        expect(response.body.error).toBe('invalid_grant');
+        expect(revokeAccessToken).toHaveBeenCalledWith('issued-jti', expiresAt, USER_ID, 'oauth-code-replay');
+    });
+
+    it('requires the secret of confidential clients', async () => {
+        const wrongSecret = await post('/token', tokenForm({ client_id: 'server-app', client_secret: 'wrong' }));
+        const noSecret = await post('/token', tokenForm({ client_id: 'server-app' }));
+
+        expect(wrongSecret.status).toBe(401);
+        expect(noSecret.status).toBe(401);
+        expect(mockedCode.findOneAndUpdate).not.toHaveBeenCalled();
+    });
+
+    it('rejects a token that is not a string on introspection and revocation', async () => {
+        const introspection = await post('/introspect', 'client_id=server-app&client_secret=server-secret&token[a]=b');
+        const revocation = await post('/revoke', 'client_id=public-app&token[a]=b');
+
+        expect(introspection.status).toBe(400);
+        expect(introspection.body.error).toBe('invalid_request');
+        expect(revocation.status).toBe(400);
+        expect(revocation.body.error).toBe('invalid_request');
+    });
+});
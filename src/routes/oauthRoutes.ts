@@ -0,0 +1,54 @@
+import { Router } from 'express';
+import * as oauthController from '../controllers/oauthController';
+import { authenticate, rejectApiKeys } from '../middleware/authMiddleware';
+import { rateLimit } from '../middleware/rateLimitMiddleware';
+import { rateLimitPolicies } from '../config/rateLimits';
+import {
+    validateAuthorizationDecision,
+    validateTokenParameter,
+    validateTokenRequest
+} from '../validators/oauthValidators';
+
+const router = Router();
+
+/**
+ * OAuth 2.0 authorization server routes
+ */
+
+// Describe an authorization request for the consent screen
+router.get(
+    '/authorize',
+    authenticate,
+    rejectApiKeys,
+    rateLimit(rateLimitPolicies.oauthAuthorize),
+    oauthController.getAuthorization
+);
+
+// Approve or deny an authorization request
+router.post(
+    '/authorize',
+    authenticate,
+    rejectApiKeys,
+    rateLimit(rateLimitPolicies.oauthAuthorize),
+    validateAuthorizationDecision,
+    oauthController.decideAuthorization
+);
+
+// Exchange a grant for an access token (clients authenticate with their credentials)
+router.post('/token', rateLimit(rateLimitPolicies.oauthToken), validateTokenRequest, oauthController.token);
+
+// Check whether a token is active (resource servers)
+router.post(
+    '/introspect',
+    rateLimit(rateLimitPolicies.oauthIntrospect),
+    validateTokenParameter,
+    oauthController.introspect
+);
+
+// Revoke an access token
+router.post('/revoke', rateLimit(rateLimitPolicies.oauthRevoke), validateTokenParameter, oauthController.revoke);
+
+// Claims about the user behind an access token
+router.get('/userinfo', rateLimit(rateLimitPolicies.oauthUserinfo), oauthController.userinfo);
+
+export default router;
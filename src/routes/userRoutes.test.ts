@@ -0,0 +1,185 @@
+import express from 'express';
+import http from 'http';
+import { AddressInfo } from 'net';
+import ApiKey from '../models/ApiKey';
+import User from '../models/User';
+import { getUserState } from '../services/userStateService';
+import { hashToken } from '../utils/crypto.utils';
+import userRoutes from './userRoutes';
+
+jest.mock('../models/ApiKey', () => ({
+    __esModule: true,
+    default: {
+        findOne: jest.fn(),
+        updateOne: jest.fn()
+    }
+}));
+
+jest.mock('../models/User', () => ({
+    __esModule: true,
+    default: {
+        findById: jest.fn(),
+        findByIdAndUpdate: jest.fn()
+    }
+}));
+
+jest.mock('../services/userStateService', () => ({
+    ...jest.requireActual('../services/userStateService'),
+    getUserState: jest.fn()
+}));
+
+const mockedApiKey = jest.mocked(ApiKey);
+const mockedUser = jest.mocked(User);
+
+const USER_ID = '64b7f0c2a1b2c3d4e5f60718';
+const API_KEY = 'umk_test-key';
+
+const profile = {
+    _id: USER_ID,
+    email: 'ann@example.com',
+    username: 'ann',
+    firstName: 'Ann',
+    lastName: 'Lee',
+    getFullName: () => 'Ann Lee'
+};
+
+let server: http.Server;
+let baseUrl: string;
+
+/**
+ * Authenticate requests with an API key of a user with the given role and scopes
+ */
+const useApiKey = (role: string, scopes: string[]): void => {
+    mockedApiKey.findOne.mockImplementation(((filter: { keyHash: string }) => Promise.resolve(
+        filter.keyHash === hashToken(API_KEY)
+            ? { _id: 'key-1', user: USER_ID, scopes, lastUsedAt: new Date() }
+            : null
+    )) as never);
+    jest.mocked(getUserState).mockResolvedValue({ email: profile.email, role, isActive: true, tokenVersion: 0 });
+};
+
+interface TestResponse {
+    status: number;
+    body: { data?: { user?: Record<string, unknown> } };
+}
+
+/**
+ * Send a JSON request with an API key. Uses http rather than fetch, which refuses bodies on GET.
+ */
+const request = (method: string, path: string, body?: unknown, key = API_KEY): Promise<TestResponse> => {
+    const data = body === undefined ? '' : JSON.stringify(body);
+
+    return new Promise((resolve, reject) => {
+        const req = http.request(`${baseUrl}/api/users${path}`, {
+            method,
+            headers: { 'X-API-Key': key, 'Content-Type': 'application/json', 'Content-Length': Buffer.byteLength(data) }
+        }, res => {
+            let text = '';
+            res.on('data', chunk => (text += chunk));
+            res.on('end', () => resolve({ status: res.statusCode!, body: text ? JSON.parse(text) : {} }));
+        });
+        req.on('error', reject);
+        req.end(data);
+    });
+};
+
+describe('user routes with API keys', () => {
+    beforeAll(async () => {
+        const app = express();
+        app.use(express.json());
+        app.use('/api/users', userRoutes);
+
+        server = http.createServer(app);
+        await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+        baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+    });
+
+    afterAll(async () => {
+        await new Promise(resolve => server.close(resolve));
+    });
+
+    beforeEach(() => {
+        jest.resetAllMocks();
+        mockedUser.findById.mockReturnValue({ select: () => Promise.resolve(profile) } as never);
+        mockedUser.findByIdAndUpdate.mockReturnValue({ select: () => Promise.resolve(profile) } as never);
+    });
+
+    it('rejects unknown keys', async () => {
+        useApiKey('user', ['profile:read']);
+
+        const response = await request('GET', '/profile', undefined, 'umk_unknown');
+
+        expect(response.status).toBe(401);
+    });
+
+    it('reads the profile with profile:read', async () => {
+        useApiKey('user', ['profile:read']);
+
+        const response = await request('GET', '/profile');
+
+        expect(response.status).toBe(200);
+        expect(response.body.data?.user).toMatchObject({ id: USER_ID, username: 'ann' });
+    });
+
+    it('never updates the profile on GET, even with a body', async () => {
+        useApiKey('user', ['profile:read']);
+
+        const response = await request('GET', '/profile', { bio: 'changed' });
+
+        expect(response.status).toBe(200);
+        expect(mockedUser.findByIdAndUpdate).not.toHaveBeenCalled();
+    });
+
+    it('refuses profile updates without profile:update', async () => {
+        useApiKey('user', ['profile:read']);
+
+        const response = await request('PUT', '/profile', { bio: 'changed' });
+
+        expect(response.status).toBe(403);
+        expect(mockedUser.findByIdAndUpdate).not.toHaveBeenCalled();
+    });
+
+    it('updates the profile with profile:update', async () => {
+        useApiKey('user', ['profile:update']);
+
+        const response = await request('PUT', '/profile', { bio: 'changed' });
+
+        expect(response.status).toBe(200);
+        expect(mockedUser.findByIdAndUpdate).toHaveBeenCalledWith(
+            USER_ID,
+            { bio: 'changed' },
+            expect.anything()
+        );
+    });
+
+    it('limits keys to their scopes even when the role has more permissions', async () => {
+        useApiKey('admin', ['profile:read']);
+
+        const response = await request('GET', '/');
+
+        expect(response.status).toBe(403);
+    });
+
+    it('ignores scopes the role does not have', async () => {
+        useApiKey('user', ['users:list']);
+
+        const response = await request('GET', '/');
+
+        expect(response.status).toBe(403);
+    });
+
+    it('requires api-keys:manage to list keys', async () => {
+        useApiKey('user', ['profile:read']);
+
+        const response = await request('GET', '/api-keys');
+
+        expect(response.status).toBe(403);
+    });
+
+    it('rejects keys on account security routes whatever their scopes', async () => {
+        useApiKey('user', ['profile:read', 'profile:update', 'api-keys:manage']);
+
+        expect((await request('DELETE', '/account', { password: 'x' })).status).toBe(403);
+        expect((await request('PUT', '/password', { currentPassword: 'x', newPassword: 'y' })).status).toBe(403);
+    });
+});
@@ -1,49 +1,342 @@
-import { Router } from 'express';
+import express, { Router } from 'express';
 import * as userController from '../controllers/userController';
-import { authenticate, authorize } from '../middleware/authMiddleware';
+import * as sessionController from '../controllers/sessionController';
+import * as twoFactorController from '../controllers/twoFactorController';
+import * as oidcController from '../controllers/oidcController';
+import * as apiKeyController from '../controllers/apiKeyController';
+import * as dataExportController from '../controllers/dataExportController';
+import * as profilePictureController from '../controllers/profilePictureController';
+import {
+    authenticate,
+    rejectApiKeys,
+    requirePermission,
+    requireVerifiedEmail
+} from '../middleware/authMiddleware';
+import { rateLimit } from '../middleware/rateLimitMiddleware';
+import { allowSelfOr, requireAssignableRole, requireManageableUser } from '../middleware/policyMiddleware';
+import { rateLimitPolicies } from '../config/rateLimits';
+import { PROFILE_PICTURE_UPLOAD_LIMIT } from '../services/profilePictureService';
 import {
     validateUpdateProfile,
     validateChangePassword,
-    validateUpdateRole
+    validateUpdateRole,
+    validateCreateUser,
+    validateAdminUpdateUser,
+    validateSetStatus,
+    validateHardDelete,
+    validateImportUsers,
+    validateExportUsers,
+    validateListUsers,
+    validateListPendingDeletions,
+    validateBulkUserAction,
+    validateCreateApiKey,
+    validateApiKeyId,
+    validateDataExportId,
+    validateDataExportDownload
 } from '../validators/userValidators';
 
 const router = Router();
 
+// Download a data export (the one-time token in the link stands in for a login)
+router.get(
+    '/me/export/download',
+    rateLimit(rateLimitPolicies.downloadDataExport),
+    validateDataExportDownload,
+    dataExportController.downloadDataExport
+);
+
+// Serve a stored profile picture (public, so that it can be shown in an <img>)
+router.get(
+    '/pictures/:fileName',
+    rateLimit(rateLimitPolicies.getProfilePicture),
+    profilePictureController.getProfilePicture
+);
+
 /**
- * All routes require authentication
+ * All other routes require authentication (and a verified email when the policy restricts unverified accounts)
  */
-router.use(authenticate);
+router.use(authenticate, requireVerifiedEmail);
 
 /**
  * User routes
  */
 
-// Get current user's profile
-router.get('/profile', userController.updateProfile);
+// Get current user's profile (profile:read)
+router.get(
+    '/profile',
+    rateLimit(rateLimitPolicies.profileRead),
+    requirePermission('profile:read'),
+    userController.getProfile
+);
+
+// Update current user's profile (profile:update)
+router.put(
+    '/profile',
+    rateLimit(rateLimitPolicies.profileUpdate),
+    requirePermission('profile:update'),
+    validateUpdateProfile,
+    userController.updateProfile
+);
+
+// Upload a new profile picture (profile:update)
+router.put(
+    '/profile/picture',
+    rateLimit(rateLimitPolicies.uploadProfilePicture),
+    requirePermission('profile:update'),
+    express.raw({ type: 'multipart/form-data', limit: PROFILE_PICTURE_UPLOAD_LIMIT }),
+    profilePictureController.uploadProfilePicture
+);
 
-// Update current user's profile
-router.put('/profile', validateUpdateProfile, userController.updateProfile);
+// Remove the profile picture (profile:update)
+router.delete(
+    '/profile/picture',
+    rateLimit(rateLimitPolicies.deleteProfilePicture),
+    requirePermission('profile:update'),
+    profilePictureController.deleteProfilePicture
+);
 
 // Change password
-router.put('/password', validateChangePassword, userController.changePassword);
+router.put(
+    '/password',
+    rejectApiKeys,
+    rateLimit(rateLimitPolicies.changePassword),
+    validateChangePassword,
+    userController.changePassword
+);
 
 // Delete own account
-router.delete('/account', userController.deleteAccount);
+router.delete('/account', rejectApiKeys, rateLimit(rateLimitPolicies.deleteAccount), userController.deleteAccount);
+
+// List linked sign-in providers (profile:read)
+router.get(
+    '/identities',
+    rateLimit(rateLimitPolicies.listIdentities),
+    requirePermission('profile:read'),
+    oidcController.getMyIdentities
+);
+
+// Start linking a sign-in provider (completed via POST /api/auth/oidc/:provider/callback)
+router.post(
+    '/identities/:provider',
+    rejectApiKeys,
+    rateLimit(rateLimitPolicies.linkIdentity),
+    oidcController.linkIdentity
+);
+
+// Unlink a sign-in provider
+router.delete(
+    '/identities/:provider',
+    rejectApiKeys,
+    rateLimit(rateLimitPolicies.unlinkIdentity),
+    oidcController.unlinkIdentity
+);
+
+// List own API keys (api-keys:manage)
+router.get(
+    '/api-keys',
+    rateLimit(rateLimitPolicies.listApiKeys),
+    requirePermission('api-keys:manage'),
+    apiKeyController.getMyApiKeys
+);
+
+// Create an API key (needs a real login, so keys cannot create keys)
+router.post(
+    '/api-keys',
+    rejectApiKeys,
+    rateLimit(rateLimitPolicies.createApiKey),
+    validateCreateApiKey,
+    apiKeyController.createMyApiKey
+);
+
+// Revoke an own API key (api-keys:manage)
+router.delete(
+    '/api-keys/:keyId',
+    rateLimit(rateLimitPolicies.revokeApiKey),
+    requirePermission('api-keys:manage'),
+    validateApiKeyId,
+    apiKeyController.revokeMyApiKey
+);
+
+// Export all of your own data (needs a real login)
+router.post(
+    '/me/export',
+    rejectApiKeys,
+    rateLimit(rateLimitPolicies.requestDataExport),
+    dataExportController.createMyDataExport
+);
+
+// Check the progress of an own data export
+router.get(
+    '/me/export/:exportId',
+    rejectApiKeys,
+    rateLimit(rateLimitPolicies.getDataExport),
+    validateDataExportId,
+    dataExportController.getMyDataExport
+);
 
 /**
  * Admin routes
  */
 
-// Get all users (Admin only)
-router.get('/', authorize(['admin']), userController.getAllUsers);
+// Get all users (users:list)
+router.get(
+    '/',
+    rateLimit(rateLimitPolicies.listUsers),
+    requirePermission('users:list'),
+    validateListUsers,
+    userController.getAllUsers
+);
+
+// Export users as CSV or NDJSON (users:export)
+router.get(
+    '/export',
+    rateLimit(rateLimitPolicies.exportUsers),
+    requirePermission('users:export'),
+    validateExportUsers,
+    userController.exportUsers
+);
+
+// List accounts pending deletion (users:list)
+router.get(
+    '/deletions',
+    rateLimit(rateLimitPolicies.listPendingDeletions),
+    requirePermission('users:list'),
+    validateListPendingDeletions,
+    userController.getPendingDeletions
+);
+
+// Create a user (users:create)
+router.post(
+    '/',
+    rateLimit(rateLimitPolicies.createUser),
+    requirePermission('users:create'),
+    validateCreateUser,
+    requireAssignableRole(),
+    userController.createUser
+);
+
+// Import users from CSV or NDJSON (users:create)
+router.post(
+    '/import',
+    rateLimit(rateLimitPolicies.importUsers),
+    requirePermission('users:create'),
+    express.text({ type: ['text/csv', 'application/x-ndjson', 'application/ndjson'], limit: '2mb' }),
+    validateImportUsers,
+    userController.importUsers
+);
+
+// Change role or status of several users (users:update-role or users:deactivate, by action)
+router.post(
+    '/bulk',
+    rateLimit(rateLimitPolicies.bulkUpdateUsers),
+    validateBulkUserAction,
+    requireAssignableRole(),
+    userController.bulkUpdateUsers
+);
+
+// Get user by ID (self with profile:read, or users:read)
+router.get('/:id', rateLimit(rateLimitPolicies.getUser), allowSelfOr('users:read'), userController.getUserById);
+
+// Edit user details (users:update)
+router.patch(
+    '/:id',
+    rateLimit(rateLimitPolicies.updateUser),
+    requirePermission('users:update'),
+    requireManageableUser(),
+    validateAdminUpdateUser,
+    userController.updateUser
+);
+
+// Permanently delete a user (users:delete)
+router.delete(
+    '/:id',
+    rateLimit(rateLimitPolicies.deleteUser),
+    requirePermission('users:delete'),
+    requireManageableUser(),
+    validateHardDelete,
+    userController.deleteUser
+);
+
+// Restore a deleted account (users:restore)
+router.post(
+    '/:id/restore',
+    rateLimit(rateLimitPolicies.restoreUser),
+    requirePermission('users:restore'),
+    requireManageableUser(),
+    userController.restoreUser
+);
+
+// Update user role (users:update-role)
+router.put(
+    '/:id/role',
+    rateLimit(rateLimitPolicies.updateRole),
+    requirePermission('users:update-role'),
+    requireManageableUser(),
+    validateUpdateRole,
+    requireAssignableRole(),
+    userController.updateUserRole
+);
+
+// Activate or deactivate a user (users:deactivate)
+router.put(
+    '/:id/status',
+    rateLimit(rateLimitPolicies.updateStatus),
+    requirePermission('users:deactivate'),
+    requireManageableUser(),
+    validateSetStatus,
+    userController.setUserStatus
+);
+
+// List user sessions (sessions:read-any)
+router.get(
+    '/:id/sessions',
+    rateLimit(rateLimitPolicies.listUserSessions),
+    requirePermission('sessions:read-any'),
+    sessionController.getUserSessions
+);
+
+// Force-logout user by revoking all sessions (sessions:revoke-any)
+router.delete(
+    '/:id/sessions',
+    rateLimit(rateLimitPolicies.revokeUserSessions),
+    requirePermission('sessions:revoke-any'),
+    requireManageableUser(),
+    sessionController.revokeUserSessions
+);
+
+// Clear user login lockout (users:unlock)
+router.delete(
+    '/:id/lock',
+    rateLimit(rateLimitPolicies.unlockUser),
+    requirePermission('users:unlock'),
+    userController.unlockUser
+);
 
-// Get user by ID (Admin only)
-router.get('/:id', authorize(['admin', 'moderator']), userController.getUserById);
+// List user API keys (api-keys:manage-any)
+router.get(
+    '/:id/api-keys',
+    rateLimit(rateLimitPolicies.listUserApiKeys),
+    requirePermission('api-keys:manage-any'),
+    apiKeyController.getUserApiKeys
+);
 
-// Update user role (Admin only)
-router.put('/:id/role', authorize(['admin']), validateUpdateRole, userController.updateUserRole);
+// Revoke a user API key (api-keys:manage-any)
+router.delete(
+    '/:id/api-keys/:keyId',
+    rateLimit(rateLimitPolicies.revokeUserApiKey),
+    requirePermission('api-keys:manage-any'),
+    requireManageableUser(),
+    validateApiKeyId,
+    apiKeyController.revokeUserApiKey
+);
 
-// Toggle user status (Admin only)
-router.put('/:id/status', authorize(['admin']), userController.toggleUserStatus);
+// Reset user two-factor authentication (two-factor:reset)
+router.delete(
+    '/:id/2fa',
+    rateLimit(rateLimitPolicies.resetTwoFactor),
+    requirePermission('two-factor:reset'),
+    requireManageableUser(),
+    twoFactorController.resetUserTwoFactor
+);
 
 export default router;
@@ -0,0 +1,15 @@
+import { Router } from 'express';
+import * as wellKnownController from '../controllers/wellKnownController';
+import { rateLimit } from '../middleware/rateLimitMiddleware';
+import { rateLimitPolicies } from '../config/rateLimits';
+
+const router = Router();
+
+/**
+ * Public metadata routes
+ */
+
+// Public keys for verifying tokens (JWK Set)
+router.get('/jwks.json', rateLimit(rateLimitPolicies.jwks), wellKnownController.getJwks);
+
+export default router;
@@ -0,0 +1,170 @@
+import { Request } from 'express';
+import User, { IUser } from '../models/User';
+import { assertNotLastActiveAdmin } from '../utils/userPolicies';
+import { recordAuditEvent, recordSystemAuditEvent } from './auditService';
+import { Job } from './jobRunnerService';
+import { anonymizeUser, purgeUser } from './userDeletionService';
+import { invalidateUserState } from './userStateService';
+
+/**
+ * What happens to an account once its deletion grace period is over:
+ * - purge: the user and everything that belongs to them is deleted (default)
+ * - anonymize: personal data is removed but the account's id is kept (see anonymizeUser)
+ */
+export type AccountDeletionMode = 'purge' | 'anonymize';
+
+export const getAccountDeletionMode = (): AccountDeletionMode => {
+    return process.env.ACCOUNT_DELETION_MODE === 'anonymize' ? 'anonymize' : 'purge';
+};
+
+const getGracePeriodMs = (): number => {
+    return parseInt(process.env.ACCOUNT_DELETION_GRACE_DAYS || '30') * 24 * 60 * 60 * 1000;
+};
+
+// Accounts processed per query by the deletion job
+const DELETION_BATCH_SIZE = 100;
+
+/**
+ * Check whether a user asked for their account to be deleted and can still change their mind
+ */
+export const isPendingDeletion = (user: IUser): boolean => {
+    return !!user.deletedAt && !!user.deletionScheduledFor && !user.anonymizedAt;
+};
+
+/**
+ * Check whether a user may sign in: active accounts, and accounts pending
+ * deletion (signing in cancels the deletion)
+ */
+export const canSignIn = (user: IUser): boolean => {
+    return user.isActive || isPendingDeletion(user);
+};
+
+/**
+ * Deactivate an account at its owner's request and schedule it for purge or
+ * anonymization once the grace period is over. Returns when that will happen.
+ * Throws (409) if the account is the last active administrator.
+ */
+export const scheduleAccountDeletion = async (user: IUser): Promise<Date> => {
+    await assertNotLastActiveAdmin(
+        { id: user._id.toString(), role: user.role, isActive: user.isActive },
+        { isActive: false }
+    );
+
+    const now = new Date();
+
+    user.isActive = false;
+    user.deletedAt = now;
+    user.deletionScheduledFor = new Date(now.getTime() + getGracePeriodMs());
+    await user.save();
+    invalidateUserState(user._id.toString());
+
+    return user.deletionScheduledFor;
+};
+
+/**
+ * Reactivate an account pending deletion. Returns false if it was not pending.
+ */
+export const cancelAccountDeletion = async (user: IUser): Promise<boolean> => {
+    if (!isPendingDeletion(user)) {
+        return false;
+    }
+
+    user.isActive = true;
+    user.deletedAt = undefined;
+    user.deletionScheduledFor = undefined;
+    await user.save();
+    invalidateUserState(user._id.toString());
+
+    return true;
+};
+
+/**
+ * Cancel a pending deletion because its owner signed in. Call before starting
+ * the session so its tokens are issued for the reactivated account.
+ */
+export const cancelDeletionOnSignIn = async (req: Request, user: IUser): Promise<boolean> => {
+    const scheduledFor = user.deletionScheduledFor;
+    if (!await cancelAccountDeletion(user)) {
+        return false;
+    }
+
+    await recordAuditEvent(req, {
+        action: 'user.deletion-cancel',
+        actor: user._id.toString(),
+        target: user._id.toString(),
+        metadata: { scheduledFor }
+    });
+
+    return true;
+};
+
+/**
+ * List accounts pending deletion, soonest first
+ */
+export const listPendingDeletions = async (filters: {
+    page: number;
+    limit: number;
+}): Promise<{ users: IUser[]; total: number }> => {
+    const query = { deletionScheduledFor: { $ne: null }, anonymizedAt: null, isActive: false };
+
+    const [users, total] = await Promise.all([
+        User.find(query)
+            .select('email username firstName lastName role deletedAt deletionScheduledFor')
+            .skip((filters.page - 1) * filters.limit)
+            .limit(filters.limit)
+            .sort({ deletionScheduledFor: 1 }),
+        User.countDocuments(query)
+    ]);
+
+    return { users, total };
+};
+
+/**
+ * Purge or anonymize every account whose grace period is over. An account that
+ * fails is skipped until the next run.
+ */
+export const processDueDeletions = async (): Promise<void> => {
+    const mode = getAccountDeletionMode();
+    const failed: string[] = [];
+
+    for (;;) {
+        const users = await User.find({
+            _id: { $nin: failed },
+            deletionScheduledFor: { $lte: new Date() },
+            anonymizedAt: null,
+            isActive: false
+        })
+            .select('deletedAt deletionScheduledFor')
+            .limit(DELETION_BATCH_SIZE);
+
+        for (const user of users) {
+            const userId = user._id.toString();
+            try {
+                const done = mode === 'anonymize' ? await anonymizeUser(userId) : await purgeUser(userId);
+                if (!done) continue;
+
+                await recordSystemAuditEvent({
+                    action: mode === 'anonymize' ? 'user.anonymize' : 'user.purge',
+                    target: userId,
+                    metadata: { deletedAt: user.deletedAt, scheduledFor: user.deletionScheduledFor }
+                });
+            } catch (error) {
+                console.error(`Account deletion error for user ${userId}:`, error);
+                failed.push(userId);
+            }
+        }
+
+        if (users.length < DELETION_BATCH_SIZE) {
+            return;
+        }
+    }
+};
+
+/**
+ * Background job carrying out deletions whose grace period is over
+ */
+export const createAccountDeletionJob = (): Job => ({
+    name: 'account-deletion',
+    intervalMs: parseInt(process.env.ACCOUNT_DELETION_JOB_INTERVAL_MINUTES || '60') * 60 * 1000,
+    run: processDueDeletions
+});
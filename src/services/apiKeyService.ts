@@ -0,0 +1,125 @@
+import ApiKey, { IApiKey } from '../models/ApiKey';
+import { Permission } from '../config/roles';
+import { AppError } from '../utils/AppError';
+import { generateRandomToken, hashToken } from '../utils/crypto.utils';
+import { getRolePermissions, hasPermission } from '../utils/permissions';
+import { getUserState } from './userStateService';
+
+/** Marks API keys so they can be told apart from JWTs in the Authorization header */
+export const API_KEY_PREFIX = 'umk_';
+
+// Record use at most once a minute per key, not on every request
+const LAST_USED_RESOLUTION_MS = 60 * 1000;
+
+export interface ApiKeyInput {
+    name: string;
+    scopes: Permission[];
+    expiresAt?: Date;
+}
+
+export interface ApiKeyAuthentication {
+    apiKey: IApiKey;
+    userId: string;
+    email: string;
+    role: string;
+    /** The key's scopes that the user's role still grants */
+    permissions: Permission[];
+}
+
+/**
+ * Check whether a credential looks like an API key
+ */
+export const isApiKey = (value: string): boolean => {
+    return value.startsWith(API_KEY_PREFIX);
+};
+
+/**
+ * Create an API key for a user. Scopes are limited to the permissions of the
+ * user's role. Returns the plain key, which is not retrievable afterwards.
+ */
+export const createApiKey = async (
+    userId: string,
+    role: string,
+    input: ApiKeyInput
+): Promise<{ apiKey: IApiKey; key: string }> => {
+    const ungranted = input.scopes.filter(scope => !hasPermission(role, scope));
+    if (ungranted.length > 0) {
+        throw new AppError(`You cannot grant scopes your role does not have: ${ungranted.join(', ')}`, 403);
+    }
+
+    const key = `${API_KEY_PREFIX}${generateRandomToken()}`;
+    const apiKey = await ApiKey.create({
+        user: userId,
+        name: input.name,
+        keyHash: hashToken(key),
+        prefix: key.slice(0, API_KEY_PREFIX.length + 8),
+        scopes: [...new Set(input.scopes)],
+        expiresAt: input.expiresAt || null
+    });
+
+    return { apiKey, key };
+};
+
+/**
+ * List a user's API keys, newest first
+ */
+export const listApiKeys = async (userId: string): Promise<IApiKey[]> => {
+    return ApiKey.find({ user: userId }).sort({ createdAt: -1 });
+};
+
+/**
+ * Revoke (delete) one of a user's API keys
+ */
+export const revokeApiKey = async (userId: string, keyId: string): Promise<IApiKey | null> => {
+    const apiKey = await ApiKey.findOne({ _id: keyId, user: userId });
+    if (apiKey) {
+        await apiKey.deleteOne();
+    }
+
+    return apiKey;
+};
+
+/**
+ * Revoke (delete) all of a user's API keys, e.g. after a password reset.
+ * Returns how many were revoked.
+ */
+export const revokeAllApiKeys = async (userId: string): Promise<number> => {
+    const result = await ApiKey.deleteMany({ user: userId });
+    return result.deletedCount;
+};
+
+/**
+ * Scopes a user may choose from when creating a key
+ */
+export const getAvailableScopes = (role: string): Permission[] => {
+    return getRolePermissions(role);
+};
+
+/**
+ * Resolve an API key to its user and effective permissions. Returns null for
+ * unknown or expired keys and for keys of missing or deactivated users.
+ */
+export const authenticateApiKey = async (key: string, ip?: string): Promise<ApiKeyAuthentication | null> => {
+    const apiKey = await ApiKey.findOne({ keyHash: hashToken(key) });
+    if (!apiKey || (apiKey.expiresAt && apiKey.expiresAt <= new Date())) {
+        return null;
+    }
+
+    const userId = apiKey.user.toString();
+    const state = await getUserState(userId);
+    if (!state || !state.isActive) {
+        return null;
+    }
+
+    if (!apiKey.lastUsedAt || Date.now() - apiKey.lastUsedAt.getTime() > LAST_USED_RESOLUTION_MS) {
+        await ApiKey.updateOne({ _id: apiKey._id }, { lastUsedAt: new Date(), lastUsedIp: ip ?? null });
+    }
+
+    return {
+        apiKey,
+        userId,
+        email: state.email,
+        role: state.role,
+        permissions: apiKey.scopes.filter(scope => hasPermission(state.role, scope))
+    };
+};
@@ -0,0 +1,67 @@
+import { Request } from 'express';
+import AuditEvent from '../models/AuditEvent';
+import { hashToken } from '../utils/crypto.utils';
+import { recordAuditEvent, recordSystemAuditEvent } from './auditService';
+
+jest.mock('../models/AuditEvent', () => ({
+    __esModule: true,
+    default: {
+        create: jest.fn()
+    }
+}));
+
+const mockedAuditEvent = jest.mocked(AuditEvent);
+
+const request = {
+    ip: '127.0.0.1',
+    user: { id: 'actor-1' },
+    get: () => 'jest'
+} as unknown as Request;
+
+describe('auditService', () => {
+    beforeEach(() => {
+        jest.resetAllMocks();
+    });
+
+    afterEach(() => {
+        jest.restoreAllMocks();
+    });
+
+    it('stores emails and login identifiers as hashes', async () => {
+        await recordAuditEvent(request, {
+            action: 'auth.login-failed',
+            after: { email: 'Ann@Example.com ', role: 'user' },
+            metadata: { identifier: 'ann@example.com', reason: 'invalid-password' }
+        });
+
+        expect(mockedAuditEvent.create).toHaveBeenCalledWith(expect.objectContaining({
+            actor: 'actor-1',
+            after: { emailHash: hashToken('ann@example.com'), role: 'user' },
+            metadata: { identifierHash: hashToken('ann@example.com'), reason: 'invalid-password' }
+        }));
+    });
+
+    it('leaves values that are not strings and missing sections alone', async () => {
+        await recordSystemAuditEvent({
+            action: 'user.purge',
+            target: 'user-1',
+            metadata: { email: null, count: 2 }
+        });
+
+        expect(mockedAuditEvent.create).toHaveBeenCalledWith({
+            action: 'user.purge',
+            actor: null,
+            target: 'user-1',
+            before: undefined,
+            after: undefined,
+            metadata: { email: null, count: 2 }
+        });
+    });
+
+    it('never throws when the event cannot be written', async () => {
+        jest.spyOn(console, 'error').mockImplementation(() => undefined);
+        mockedAuditEvent.create.mockRejectedValue(new Error('database down') as never);
+
+        await expect(recordAuditEvent(request, { action: 'auth.logout' })).resolves.toBeUndefined();
+    });
+});
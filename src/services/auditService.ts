@@ -0,0 +1,78 @@
+import { Request } from 'express';
+import AuditEvent, { AuditAction } from '../models/AuditEvent';
+import { hashToken } from '../utils/crypto.utils';
+
+export interface AuditEntry {
+    action: AuditAction;
+    /** Who performed the action (defaults to the authenticated user) */
+    actor?: string | null;
+    /** Which user the action was performed on */
+    target?: string | null;
+    before?: Record<string, unknown>;
+    after?: Record<string, unknown>;
+    metadata?: Record<string, unknown>;
+}
+
+/**
+ * Keys whose values are email addresses (or login identifiers, which may be one).
+ * Audit events outlive the accounts they are about, so these are stored as
+ * `<key>Hash`, the SHA-256 hash of the lowercased value, never in the clear.
+ */
+const EMAIL_KEYS = ['email', 'identifier'];
+
+/**
+ * Replace email addresses in an event's before, after or metadata with their hash
+ */
+const redactEmails = (data?: Record<string, unknown>): Record<string, unknown> | undefined => {
+    if (!data) {
+        return data;
+    }
+
+    return Object.fromEntries(
+        Object.entries(data).map(([key, value]) =>
+            EMAIL_KEYS.includes(key) && typeof value === 'string'
+                ? [`${key}Hash`, hashToken(value.trim().toLowerCase())]
+                : [key, value]
+        )
+    );
+};
+
+/**
+ * Append an event to the audit log. Failures are logged but never thrown,
+ * so auditing cannot break the request being audited.
+ */
+export const recordAuditEvent = async (req: Request, entry: AuditEntry): Promise<void> => {
+    try {
+        await AuditEvent.create({
+            action: entry.action,
+            actor: entry.actor === undefined ? req.user?.id ?? null : entry.actor,
+            target: entry.target ?? null,
+            before: redactEmails(entry.before),
+            after: redactEmails(entry.after),
+            metadata: redactEmails(entry.metadata),
+            ip: req.ip,
+            userAgent: req.get('user-agent')
+        });
+    } catch (error) {
+        console.error('Audit log error:', error);
+    }
+};
+
+/**
+ * Append an event caused by the system itself, such as a scheduled job, rather
+ * than by a request. Like recordAuditEvent, it never throws.
+ */
+export const recordSystemAuditEvent = async (entry: AuditEntry): Promise<void> => {
+    try {
+        await AuditEvent.create({
+            action: entry.action,
+            actor: entry.actor ?? null,
+            target: entry.target ?? null,
+            before: redactEmails(entry.before),
+            after: redactEmails(entry.after),
+            metadata: redactEmails(entry.metadata)
+        });
+    } catch (error) {
+        console.error('Audit log error:', error);
+    }
+};
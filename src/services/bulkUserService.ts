@@ -0,0 +1,157 @@
+import { Request } from 'express';
+import User from '../models/User';
+import { AppError } from '../utils/AppError';
+import { assertNotLastActiveAdmin, getManageUserViolation } from '../utils/userPolicies';
+import { buildUserQuery, UserFilter } from '../utils/userQueries';
+import { recordAuditEvent } from './auditService';
+import { invalidateUserState } from './userStateService';
+
+export const BULK_USER_ACTIONS = ['set-role', 'activate', 'deactivate'] as const;
+
+export type BulkUserAction = typeof BULK_USER_ACTIONS[number];
+
+export interface BulkUserRequest {
+    action: BulkUserAction;
+    /** New role for set-role */
+    role?: string;
+    /** Users to act on, or... */
+    ids?: string[];
+    /** ...every user matching a filter, as in GET /api/users */
+    filter?: UserFilter;
+}
+
+export interface BulkItemResult {
+    id: string;
+    email?: string;
+    status: 'updated' | 'unchanged' | 'failed';
+    error?: string;
+}
+
+export interface BulkReport {
+    action: BulkUserAction;
+    total: number;
+    updated: number;
+    unchanged: number;
+    failed: number;
+    results: BulkItemResult[];
+}
+
+/** Largest number of users one bulk action may touch */
+export const MAX_BULK_TARGETS = 500;
+
+/**
+ * Apply a role change, activation or deactivation to several users. Each user
+ * is checked and updated on its own, with the same rules as the single-user
+ * endpoints, so one failure does not stop the rest.
+ */
+export const runBulkUserAction = async (req: Request, input: BulkUserRequest): Promise<BulkReport> => {
+    let targetIds: string[];
+
+    if (input.ids) {
+        targetIds = [...new Set(input.ids)];
+    } else {
+        const query = buildUserQuery(input.filter || {});
+        const total = await User.countDocuments(query);
+        if (total > MAX_BULK_TARGETS) {
+            throw new AppError(
+                `The filter matches ${total} users; a bulk action can affect at most ${MAX_BULK_TARGETS}`,
+                400
+            );
+        }
+
+        const matches = await User.find(query).select('_id').sort({ createdAt: -1 });
+        targetIds = matches.map(user => user._id.toString());
+    }
+
+    if (targetIds.length > MAX_BULK_TARGETS) {
+        throw new AppError(`A bulk action can affect at most ${MAX_BULK_TARGETS} users`, 400);
+    }
+
+    const users = await User.find({ _id: { $in: targetIds } });
+    const usersById = new Map(users.map(user => [user._id.toString(), user]));
+
+    const results: BulkItemResult[] = [];
+
+    // Sequential so the last-administrator check sees earlier changes
+    for (const id of targetIds) {
+        const user = usersById.get(id);
+        if (!user) {
+            results.push({ id, status: 'failed', error: 'User not found' });
+            continue;
+        }
+
+        const result: BulkItemResult = { id, email: user.email, status: 'unchanged' };
+        results.push(result);
+
+        const violation = getManageUserViolation(req.user!, { id, role: user.role });
+        if (violation) {
+            result.status = 'failed';
+            result.error = violation;
+            continue;
+        }
+
+        try {
+            if (input.action === 'set-role') {
+                const role = input.role!;
+                if (user.role === role) continue;
+
+                // Never demote the last active administrator
+                await assertNotLastActiveAdmin({ id, role: user.role, isActive: user.isActive }, { role });
+
+                const previousRole = user.role;
+                user.role = role;
+                await user.save();
+                invalidateUserState(id);
+
+                await recordAuditEvent(req, {
+                    action: 'user.role-change',
+                    target: id,
+                    before: { role: previousRole },
+                    after: { role },
+                    metadata: { bulk: true }
+                });
+            } else {
+                const isActive = input.action === 'activate';
+                if (user.isActive === isActive) continue;
+
+                // Deleted accounts come back through restore, which also clears the deletion
+                if (isActive && user.deletedAt) {
+                    throw new AppError('This account was deleted. Restore it instead.', 409);
+                }
+
+                // Never deactivate the last active administrator
+                await assertNotLastActiveAdmin({ id, role: user.role, isActive: user.isActive }, { isActive });
+
+                user.isActive = isActive;
+                await user.save();
+                invalidateUserState(id);
+
+                await recordAuditEvent(req, {
+                    action: 'user.status-change',
+                    target: id,
+                    before: { isActive: !isActive },
+                    after: { isActive },
+                    metadata: { bulk: true }
+                });
+            }
+
+            result.status = 'updated';
+        } catch (error) {
+            if (!(error instanceof AppError)) {
+                console.error('Bulk user action error:', error);
+            }
+
+            result.status = 'failed';
+            result.error = error instanceof AppError ? error.message : 'Failed to update user';
+        }
+    }
+
+    return {
+        action: input.action,
+        total: results.length,
+        updated: results.filter(result => result.status === 'updated').length,
+        unchanged: results.filter(result => result.status === 'unchanged').length,
+        failed: results.filter(result => result.status === 'failed').length,
+        results
+    };
+};
@@ -0,0 +1,139 @@
+import { promisify } from 'util';
+import { gzip } from 'zlib';
+import DataExport, { IDataExport } from '../models/DataExport';
+import User from '../models/User';
+import Session from '../models/Session';
+import AuditEvent from '../models/AuditEvent';
+import ExternalIdentity from '../models/ExternalIdentity';
+import ApiKey from '../models/ApiKey';
+import OAuthConsent from '../models/OAuthConsent';
+import { AppError } from '../utils/AppError';
+import { generateRandomToken, hashToken } from '../utils/crypto.utils';
+
+const gzipAsync = promisify(gzip);
+
+const LOGIN_ACTIONS = ['auth.login', 'auth.login-failed'];
+
+// After this long a pending export is assumed lost (e.g. the server restarted) and a new one may be requested
+const GENERATION_TIMEOUT_MS = 15 * 60 * 1000;
+
+// Exports that never finish are removed after a day
+const PENDING_TTL_MS = 24 * 60 * 60 * 1000;
+
+const getLinkTtlMs = (): number => {
+    return parseInt(process.env.DATA_EXPORT_LINK_TTL_MINUTES || '60') * 60 * 1000;
+};
+
+/**
+ * Gather everything stored about a user. Secrets (password hash, two-factor
+ * secrets and recovery codes, token and API key hashes) are left out because
+ * their fields are not selected by default. Returns null if the user is gone.
+ */
+export const collectUserData = async (userId: string): Promise<Record<string, unknown> | null> => {
+    const user = await User.findById(userId).select('-__v').lean();
+    if (!user) {
+        return null;
+    }
+
+    const [sessions, loginHistory, auditEvents, linkedIdentities, apiKeys, oauthConsents] = await Promise.all([
+        Session.find({ user: userId }).select('-__v').sort({ createdAt: -1 }).lean(),
+        AuditEvent.find({ target: userId, action: { $in: LOGIN_ACTIONS } }).sort({ createdAt: -1 }).lean(),
+        AuditEvent.find({ $or: [{ actor: userId }, { target: userId }], action: { $nin: LOGIN_ACTIONS } })
+            .sort({ createdAt: -1 })
+            .lean(),
+        ExternalIdentity.find({ user: userId }).select('-__v').lean(),
+        ApiKey.find({ user: userId }).select('-__v').lean(),
+        OAuthConsent.find({ user: userId }).select('-__v').lean()
+    ]);
+
+    return {
+        exportedAt: new Date(),
+        user,
+        sessions,
+        loginHistory,
+        // The IP address and browser of someone else acting on the account are theirs, not the user's
+        auditEvents: auditEvents.map(event =>
+            event.actor?.toString() === userId ? event : { ...event, ip: undefined, userAgent: undefined }
+        ),
+        linkedIdentities,
+        apiKeys,
+        oauthConsents
+    };
+};
+
+/**
+ * Build the archive of a pending export. Never throws: failures are logged and
+ * recorded on the export.
+ */
+const generateDataExport = async (dataExport: IDataExport): Promise<void> => {
+    try {
+        const data = await collectUserData(dataExport.user.toString());
+        if (!data) {
+            await DataExport.updateOne({ _id: dataExport._id }, { status: 'failed' });
+            return;
+        }
+
+        const archive = await gzipAsync(JSON.stringify(data, null, 2));
+
+        // The link's lifetime starts when the archive is ready
+        await DataExport.updateOne(
+            { _id: dataExport._id, status: 'pending' },
+            {
+                status: 'ready',
+                archive,
+                size: archive.length,
+                readyAt: new Date(),
+                expiresAt: new Date(Date.now() + getLinkTtlMs())
+            }
+        );
+    } catch (error) {
+        console.error('Data export error:', error);
+        await DataExport.updateOne({ _id: dataExport._id }, { status: 'failed' }).catch(() => undefined);
+    }
+};
+
+/**
+ * Start exporting a user's data. The archive is generated in the background;
+ * the returned token downloads it once it is ready.
+ */
+export const requestDataExport = async (userId: string): Promise<{ dataExport: IDataExport; token: string }> => {
+    const inProgress = await DataExport.exists({
+        user: userId,
+        status: 'pending',
+        createdAt: { $gt: new Date(Date.now() - GENERATION_TIMEOUT_MS) }
+    });
+
+    if (inProgress) {
+        throw new AppError('An export of your data is already being prepared', 409);
+    }
+
+    const token = generateRandomToken();
+    const dataExport = await DataExport.create({
+        user: userId,
+        tokenHash: hashToken(token),
+        expiresAt: new Date(Date.now() + PENDING_TTL_MS)
+    });
+
+    // Not awaited: the request returns while the archive is built
+    void generateDataExport(dataExport);
+
+    return { dataExport, token };
+};
+
+/**
+ * Find one of a user's exports, or null
+ */
+export const getDataExport = async (userId: string, exportId: string): Promise<IDataExport | null> => {
+    return DataExport.findOne({ _id: exportId, user: userId });
+};
+
+/**
+ * Redeem a download token. Each archive can be downloaded once: it is removed
+ * as it is handed out. Returns null for unknown, expired, used or unfinished exports.
+ */
+export const redeemDataExport = async (token: string): Promise<IDataExport | null> => {
+    return DataExport.findOneAndUpdate(
+        { tokenHash: hashToken(token), status: 'ready', expiresAt: { $gt: new Date() } },
+        { status: 'downloaded', downloadedAt: new Date(), $unset: { archive: 1 } }
+    ).select<IDataExport>('+archive');
+};
@@ -0,0 +1,50 @@
+import User, { IUser } from '../models/User';
+import { buildClientUrl } from '../utils/url.utils';
+import { sendMail } from './mailService';
+import { consumeUserToken, issueUserToken } from './userTokenService';
+
+/**
+ * How unverified accounts are treated:
+ * - optional: no restrictions (default)
+ * - restrict: routes guarded by `requireVerifiedEmail` reject unverified accounts
+ * - block-login: unverified accounts cannot log in at all
+ */
+export type EmailVerificationPolicy = 'optional' | 'restrict' | 'block-login';
+
+export const getEmailVerificationPolicy = (): EmailVerificationPolicy => {
+    const policy = process.env.EMAIL_VERIFICATION_POLICY;
+    return policy === 'restrict' || policy === 'block-login' ? policy : 'optional';
+};
+
+const getTokenTtlMs = (): number => {
+    return parseInt(process.env.EMAIL_VERIFICATION_TOKEN_TTL_HOURS || '24') * 60 * 60 * 1000;
+};
+
+/**
+ * Issue a verification token for a user and email them a link to redeem it
+ */
+export const sendVerificationEmail = async (user: IUser): Promise<void> => {
+    const token = await issueUserToken(user._id.toString(), 'email-verification', getTokenTtlMs());
+    const link = buildClientUrl('/verify-email', { token });
+
+    await sendMail({
+        to: user.email,
+        subject: 'Verify your email address',
+        text: `Hi ${user.firstName},\n\n` +
+            `Please confirm your email address by opening the link below:\n\n${link}\n\n` +
+            `The link expires in ${process.env.EMAIL_VERIFICATION_TOKEN_TTL_HOURS || '24'} hours. ` +
+            'If you did not create an account, you can ignore this email.'
+    });
+};
+
+/**
+ * Redeem a verification token. Returns the verified user, or null if the token is invalid.
+ */
+export const verifyEmailToken = async (token: string): Promise<IUser | null> => {
+    const userId = await consumeUserToken(token, 'email-verification');
+    if (!userId) {
+        return null;
+    }
+
+    return User.findByIdAndUpdate(userId, { isEmailVerified: true }, { new: true });
+};
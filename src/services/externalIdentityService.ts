@@ -0,0 +1,170 @@
+import ExternalIdentity, { IExternalIdentity } from '../models/ExternalIdentity';
+import User, { IUser } from '../models/User';
+import { AppError } from '../utils/AppError';
+import { generateRandomToken } from '../utils/crypto.utils';
+import { ExternalProfile } from './oidcService';
+import {
+    claimInvitation,
+    completeInvitation,
+    findPendingInvitationForEmail,
+    getRegistrationMode,
+    releaseInvitation
+} from './invitationService';
+
+export interface ExternalSignIn {
+    user: IUser;
+    /** Whether a new account was created for this identity */
+    created: boolean;
+}
+
+/**
+ * Derive an unused username from an email address
+ */
+const generateUsername = async (email: string): Promise<string> => {
+    const base = email.split('@')[0].replace(/[^a-zA-Z0-9_]/g, '_').slice(0, 24).padEnd(3, '_');
+
+    for (let attempt = 0; attempt < 5; attempt++) {
+        const candidate = attempt === 0 ? base : `${base}_${Math.floor(1000 + Math.random() * 9000)}`;
+        if (!await User.exists({ username: candidate })) {
+            return candidate;
+        }
+    }
+
+    return `${base}_${generateRandomToken(4).replace(/-/g, '_')}`;
+};
+
+/**
+ * Find the user an external identity signs in as.
+ *
+ * A known identity signs in as its user. Otherwise the provider's verified email
+ * decides: it is linked to the account with that email if that account verified it
+ * too, or a new account is created. Unverified emails are never trusted for either.
+ * New accounts accept a pending invitation for the email, which is required in
+ * invite-only mode.
+ */
+export const signInWithExternalIdentity = async (profile: ExternalProfile): Promise<ExternalSignIn> => {
+    const identity = await ExternalIdentity.findOne({ provider: profile.provider, subject: profile.subject });
+    if (identity) {
+        const user = await User.findById(identity.user);
+        if (!user) {
+            throw new AppError('The account linked to this sign-in no longer exists', 401);
+        }
+
+        identity.lastLoginAt = new Date();
+        await identity.save();
+
+        return { user, created: false };
+    }
+
+    if (!profile.email || !profile.emailVerified) {
+        throw new AppError('The provider did not share a verified email address', 400);
+    }
+
+    const email = profile.email.toLowerCase();
+    let user = await User.findOne({ email });
+    let created = false;
+
+    if (user && !user.isEmailVerified) {
+        throw new AppError(
+            'An account with this email already exists. ' +
+            'Log in with your password and link the provider from your profile.',
+            409
+        );
+    }
+
+    if (!user) {
+        const invitation = await findPendingInvitationForEmail(email);
+        if (!invitation && getRegistrationMode() === 'invite-only') {
+            throw new AppError('Registration is by invitation only', 403);
+        }
+        if (invitation && !await claimInvitation(invitation)) {
+            throw new AppError('The invitation for this email is no longer valid', 409);
+        }
+
+        const [localPart] = email.split('@');
+        try {
+            user = await User.create({
+                email,
+                username: await generateUsername(email),
+                password: generateRandomToken(),
+                hasPassword: false,
+                firstName: (profile.firstName || localPart).slice(0, 50),
+                lastName: (profile.lastName || '-').slice(0, 50),
+                isEmailVerified: true,
+                ...(invitation && { role: invitation.role })
+            });
+        } catch (error) {
+            if (invitation) {
+                await releaseInvitation(invitation);
+            }
+            throw error;
+        }
+
+        if (invitation) {
+            await completeInvitation(invitation, user._id.toString());
+        }
+        created = true;
+    }
+
+    await ExternalIdentity.create({
+        user: user._id,
+        provider: profile.provider,
+        subject: profile.subject,
+        email,
+        lastLoginAt: new Date()
+    });
+
+    return { user, created };
+};
+
+/**
+ * Link an external identity to a signed-in user
+ */
+export const linkExternalIdentity = async (userId: string, profile: ExternalProfile): Promise<IExternalIdentity> => {
+    const existing = await ExternalIdentity.findOne({ provider: profile.provider, subject: profile.subject });
+    if (existing) {
+        if (existing.user.toString() !== userId) {
+            throw new AppError('This account is already linked to another user', 409);
+        }
+        return existing;
+    }
+
+    if (await ExternalIdentity.exists({ user: userId, provider: profile.provider })) {
+        throw new AppError(`Another ${profile.provider} account is already linked. Unlink it first.`, 409);
+    }
+
+    return ExternalIdentity.create({
+        user: userId,
+        provider: profile.provider,
+        subject: profile.subject,
+        email: profile.email
+    });
+};
+
+/**
+ * List the external identities linked to a user
+ */
+export const listExternalIdentities = async (userId: string): Promise<IExternalIdentity[]> => {
+    return ExternalIdentity.find({ user: userId }).sort({ createdAt: 1 });
+};
+
+/**
+ * Unlink a provider from a user. Refused if it is the user's only way to sign in.
+ */
+export const unlinkExternalIdentity = async (userId: string, provider: string): Promise<void> => {
+    const identity = await ExternalIdentity.findOne({ user: userId, provider });
+    if (!identity) {
+        throw new AppError(`No ${provider} account is linked`, 404);
+    }
+
+    const [user, identityCount] = await Promise.all([
+        User.findById(userId),
+        ExternalIdentity.countDocuments({ user: userId })
+    ]);
+
+    if (user && !user.hasPassword && identityCount === 1) {
+        throw new AppError('Set a password (via forgot password) before removing your only sign-in method', 409);
+    }
+
+    await identity.deleteOne();
+};
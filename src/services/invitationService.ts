@@ -0,0 +1,210 @@
+import Invitation, { IInvitation, InvitationStatus } from '../models/Invitation';
+import User from '../models/User';
+import { AppError } from '../utils/AppError';
+import { generateRandomToken, hashToken } from '../utils/crypto.utils';
+import { buildClientUrl } from '../utils/url.utils';
+import { sendMail } from './mailService';
+
+/**
+ * Who may create an account:
+ * - open: anyone can register (default)
+ * - invite-only: registration requires an invitation
+ */
+export type RegistrationMode = 'open' | 'invite-only';
+
+export const getRegistrationMode = (): RegistrationMode => {
+    return process.env.REGISTRATION_MODE === 'invite-only' ? 'invite-only' : 'open';
+};
+
+const getInvitationTtlMs = (): number => {
+    return parseInt(process.env.INVITATION_TTL_DAYS || '7') * 24 * 60 * 60 * 1000;
+};
+
+/**
+ * Conditions matching invitations that can still be accepted
+ */
+const pendingConditions = () => ({
+    acceptedAt: null,
+    revokedAt: null,
+    expiresAt: { $gt: new Date() }
+});
+
+/**
+ * Conditions matching invitations in a given state
+ */
+const statusConditions = (status: InvitationStatus) => {
+    switch (status) {
+        case 'accepted':
+            return { acceptedAt: { $ne: null } };
+        case 'revoked':
+            return { acceptedAt: null, revokedAt: { $ne: null } };
+        case 'expired':
+            return { acceptedAt: null, revokedAt: null, expiresAt: { $lte: new Date() } };
+        default:
+            return pendingConditions();
+    }
+};
+
+/**
+ * Email the invitee a link to register with the token
+ */
+const sendInvitationEmail = async (invitation: IInvitation, token: string): Promise<void> => {
+    const link = buildClientUrl('/accept-invite', { token });
+
+    await sendMail({
+        to: invitation.email,
+        subject: 'You have been invited',
+        text: 'Hi,\n\n' +
+            `You have been invited to create an account. Open the link below to register:\n\n${link}\n\n` +
+            `The link expires on ${invitation.expiresAt.toUTCString()}. ` +
+            'If you were not expecting this invitation, you can ignore this email.'
+    });
+};
+
+/**
+ * Invite an email address to register with the given role and send the invitation
+ */
+export const createInvitation = async (email: string, role: string, invitedBy: string): Promise<IInvitation> => {
+    const normalizedEmail = email.toLowerCase();
+
+    if (await User.exists({ email: normalizedEmail })) {
+        throw new AppError('A user with this email already exists', 409);
+    }
+
+    if (await Invitation.exists({ email: normalizedEmail, ...pendingConditions() })) {
+        throw new AppError('This email already has a pending invitation. Resend it instead.', 409);
+    }
+
+    const token = generateRandomToken();
+    const invitation = await Invitation.create({
+        email: normalizedEmail,
+        role,
+        tokenHash: hashToken(token),
+        invitedBy,
+        expiresAt: new Date(Date.now() + getInvitationTtlMs())
+    });
+
+    await sendInvitationEmail(invitation, token);
+    return invitation;
+};
+
+/**
+ * List invitations, newest first, optionally filtered by state and email
+ */
+export const listInvitations = async (filters: {
+    status?: InvitationStatus;
+    email?: string;
+    page: number;
+    limit: number;
+}): Promise<{ invitations: IInvitation[]; total: number }> => {
+    const query = {
+        ...(filters.status && statusConditions(filters.status)),
+        ...(filters.email && { email: filters.email.toLowerCase() })
+    };
+
+    const [invitations, total] = await Promise.all([
+        Invitation.find(query)
+            .populate('invitedBy', 'email username')
+            .populate('acceptedBy', 'email username')
+            .skip((filters.page - 1) * filters.limit)
+            .limit(filters.limit)
+            .sort({ createdAt: -1 }),
+        Invitation.countDocuments(query)
+    ]);
+
+    return { invitations, total };
+};
+
+/**
+ * Send an invitation again with a new token and expiry. The previous link stops working.
+ */
+export const resendInvitation = async (id: string): Promise<IInvitation | null> => {
+    const invitation = await Invitation.findById(id);
+    if (!invitation) {
+        return null;
+    }
+
+    if (invitation.acceptedAt || invitation.revokedAt) {
+        throw new AppError(`Cannot resend an invitation that was ${invitation.getStatus()}`, 409);
+    }
+
+    if (await User.exists({ email: invitation.email })) {
+        throw new AppError('A user with this email already exists', 409);
+    }
+
+    if (await Invitation.exists({ _id: { $ne: invitation._id }, email: invitation.email, ...pendingConditions() })) {
+        throw new AppError('This email has a newer pending invitation', 409);
+    }
+
+    const token = generateRandomToken();
+    invitation.tokenHash = hashToken(token);
+    invitation.expiresAt = new Date(Date.now() + getInvitationTtlMs());
+    invitation.lastSentAt = new Date();
+    invitation.sendCount += 1;
+    await invitation.save();
+
+    await sendInvitationEmail(invitation, token);
+    return invitation;
+};
+
+/**
+ * Revoke an invitation so it can no longer be accepted
+ */
+export const revokeInvitation = async (id: string): Promise<IInvitation | null> => {
+    const invitation = await Invitation.findById(id);
+    if (!invitation) {
+        return null;
+    }
+
+    if (invitation.acceptedAt) {
+        throw new AppError('Cannot revoke an invitation that was already accepted', 409);
+    }
+
+    if (!invitation.revokedAt) {
+        invitation.revokedAt = new Date();
+        await invitation.save();
+    }
+
+    return invitation;
+};
+
+/**
+ * Find the pending invitation for a token, or null
+ */
+export const findPendingInvitation = async (token: string): Promise<IInvitation | null> => {
+    return Invitation.findOne({ tokenHash: hashToken(token), ...pendingConditions() });
+};
+
+/**
+ * Find the pending invitation for an email address, or null
+ */
+export const findPendingInvitationForEmail = async (email: string): Promise<IInvitation | null> => {
+    return Invitation.findOne({ email: email.toLowerCase(), ...pendingConditions() }).sort({ createdAt: -1 });
+};
+
+/**
+ * Claim a pending invitation before creating its user. Only one request can
+ * claim an invitation; release it if the user cannot be created.
+ */
+export const claimInvitation = async (invitation: IInvitation): Promise<boolean> => {
+    const result = await Invitation.updateOne(
+        { _id: invitation._id, ...pendingConditions() },
+        { acceptedAt: new Date() }
+    );
+
+    return result.modifiedCount === 1;
+};
+
+/**
+ * Record the user who accepted a claimed invitation
+ */
+export const completeInvitation = async (invitation: IInvitation, userId: string): Promise<void> => {
+    await Invitation.updateOne({ _id: invitation._id }, { acceptedBy: userId });
+};
+
+/**
+ * Make a claimed invitation acceptable again after registration failed
+ */
+export const releaseInvitation = async (invitation: IInvitation): Promise<void> => {
+    await Invitation.updateOne({ _id: invitation._id, acceptedBy: null }, { acceptedAt: null });
+};
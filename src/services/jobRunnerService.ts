@@ -0,0 +1,82 @@
+/**
+ * A task run periodically inside the API process
+ */
+export interface Job {
+    name: string;
+    intervalMs: number;
+    run: () => Promise<void>;
+}
+
+interface ScheduledJob {
+    job: Job;
+    timer?: NodeJS.Timeout;
+    running: boolean;
+}
+
+const jobs = new Map<string, ScheduledJob>();
+
+/**
+ * Whether this process runs background jobs. Set JOBS_ENABLED=false on extra
+ * instances so that only some of them do.
+ */
+export const areJobsEnabled = (): boolean => {
+    return process.env.JOBS_ENABLED !== 'false';
+};
+
+/**
+ * Run a job once, unless its previous run is still going. Errors are logged,
+ * never thrown, so a failing job cannot take the process down.
+ */
+const runJob = async (scheduled: ScheduledJob): Promise<void> => {
+    if (scheduled.running) {
+        return;
+    }
+
+    scheduled.running = true;
+    try {
+        await scheduled.job.run();
+    } catch (error) {
+        console.error(`Job ${scheduled.job.name} error:`, error);
+    } finally {
+        scheduled.running = false;
+    }
+};
+
+/**
+ * Register a job to be run by startJobs
+ */
+export const registerJob = (job: Job): void => {
+    if (jobs.has(job.name)) {
+        throw new Error(`Job "${job.name}" is already registered`);
+    }
+
+    jobs.set(job.name, { job, running: false });
+};
+
+/**
+ * Run every registered job now and then at its interval
+ */
+export const startJobs = (): void => {
+    if (!areJobsEnabled()) {
+        return;
+    }
+
+    for (const scheduled of jobs.values()) {
+        if (scheduled.timer) continue;
+
+        void runJob(scheduled);
+        scheduled.timer = setInterval(() => void runJob(scheduled), scheduled.job.intervalMs);
+        // Jobs alone should not keep the process alive
+        scheduled.timer.unref();
+    }
+};
+
+/**
+ * Stop scheduling jobs. Runs already in progress finish on their own.
+ */
+export const stopJobs = (): void => {
+    for (const scheduled of jobs.values()) {
+        clearInterval(scheduled.timer);
+        scheduled.timer = undefined;
+    }
+};
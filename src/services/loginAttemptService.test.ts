@@ -0,0 +1,80 @@
+import {
+    accountKey,
+    checkAttempt,
+    clearAccountLock,
+    ipKey,
+    isAccountLocked,
+    MemoryAttemptStore,
+    recordFailure,
+    recordSuccess,
+    setAttemptStore
+} from './loginAttemptService';
+
+const ACCOUNT = accountKey('64b7f0c2a1b2c3d4e5f60718');
+const IP = ipKey('203.0.113.7');
+
+const fail = async (times: number, keys: string[] = [ACCOUNT, IP]): Promise<void> => {
+    for (let i = 0; i < times; i++) {
+        await recordFailure(keys);
+    }
+};
+
+describe('loginAttemptService', () => {
+    let now: number;
+
+    beforeEach(() => {
+        now = 1_700_000_000_000;
+        jest.spyOn(Date, 'now').mockImplementation(() => now);
+        setAttemptStore(new MemoryAttemptStore());
+    });
+
+    afterEach(() => {
+        jest.restoreAllMocks();
+    });
+
+    it('lowercases identifiers in account keys', () => {
+        expect(accountKey('Ann@Example.com')).toBe('account:ann@example.com');
+    });
+
+    it('allows the free attempts without delay', async () => {
+        await fail(3);
+
+        expect(await checkAttempt([ACCOUNT, IP])).toEqual({ status: 'allowed' });
+    });
+
+    it('doubles the delay after each further failure', async () => {
+        await fail(4);
+        expect(await checkAttempt([ACCOUNT, IP])).toEqual({ status: 'delayed', retryAfterMs: 1000 });
+
+        await fail(1);
+        expect(await checkAttempt([ACCOUNT, IP])).toEqual({ status: 'delayed', retryAfterMs: 2000 });
+
+        now += 2000;
+        expect(await checkAttempt([ACCOUNT, IP])).toEqual({ status: 'allowed' });
+    });
+
+    it('locks the account at the threshold until the lockout ends', async () => {
+        await fail(10);
+
+        expect(await checkAttempt([ACCOUNT, IP])).toEqual({ status: 'locked', retryAfterMs: 15 * 60 * 1000 });
+        expect(await isAccountLocked('64B7F0C2A1B2C3D4E5F60718')).toBe(true);
+
+        now += 15 * 60 * 1000;
+        expect(await isAccountLocked('64b7f0c2a1b2c3d4e5f60718')).toBe(false);
+    });
+
+    it('reports an IP lock as throttling rather than an account lock', async () => {
+        await fail(50, [IP]);
+
+        expect(await checkAttempt([accountKey('someone-else'), IP]))
+            .toEqual({ status: 'delayed', retryAfterMs: 15 * 60 * 1000 });
+    });
+
+    it('forgets failures after a success or an unlock', async () => {
+        await fail(10);
+        await recordSuccess([IP]);
+        await clearAccountLock('64b7f0c2a1b2c3d4e5f60718');
+
+        expect(await checkAttempt([ACCOUNT, IP])).toEqual({ status: 'allowed' });
+    });
+});
@@ -0,0 +1,188 @@
+import { Response } from 'express';
+
+export interface AttemptRecord {
+    failures: number;
+    nextAttemptAt: number;
+    lockedUntil: number;
+    expiresAt: number;
+}
+
+/**
+ * Storage for failed-attempt counters. Implement this to share counters
+ * between instances (e.g. in Redis); the default keeps them in memory.
+ */
+export interface AttemptStore {
+    get(key: string): Promise<AttemptRecord | null>;
+    set(key: string, record: AttemptRecord): Promise<void>;
+    delete(key: string): Promise<void>;
+}
+
+/**
+ * In-process attempt store. Expired records are swept once a minute.
+ */
+export class MemoryAttemptStore implements AttemptStore {
+    private records = new Map<string, AttemptRecord>();
+
+    constructor() {
+        setInterval(() => {
+            const now = Date.now();
+            this.records.forEach((record, key) => {
+                if (record.expiresAt <= now) {
+                    this.records.delete(key);
+                }
+            });
+        }, 60 * 1000).unref();
+    }
+
+    async get(key: string): Promise<AttemptRecord | null> {
+        const record = this.records.get(key);
+        if (!record || record.expiresAt <= Date.now()) {
+            this.records.delete(key);
+            return null;
+        }
+        return record;
+    }
+
+    async set(key: string, record: AttemptRecord): Promise<void> {
+        this.records.set(key, record);
+    }
+
+    async delete(key: string): Promise<void> {
+        this.records.delete(key);
+    }
+}
+
+export type AttemptCheck =
+    | { status: 'allowed' }
+    | { status: 'delayed'; retryAfterMs: number }
+    | { status: 'locked'; retryAfterMs: number };
+
+let store: AttemptStore = new MemoryAttemptStore();
+
+/**
+ * Replace the attempt store
+ */
+export const setAttemptStore = (attemptStore: AttemptStore): void => {
+    store = attemptStore;
+};
+
+const getConfig = () => ({
+    freeAttempts: parseInt(process.env.LOGIN_FREE_ATTEMPTS || '3'),
+    delayBaseMs: parseInt(process.env.LOGIN_DELAY_BASE_MS || '1000'),
+    delayMaxMs: parseInt(process.env.LOGIN_DELAY_MAX_MS || '30000'),
+    accountThreshold: parseInt(process.env.LOGIN_LOCKOUT_THRESHOLD || '10'),
+    ipThreshold: parseInt(process.env.LOGIN_IP_LOCKOUT_THRESHOLD || '50'),
+    lockoutMs: parseInt(process.env.LOGIN_LOCKOUT_DURATION_MINUTES || '15') * 60 * 1000,
+    windowMs: parseInt(process.env.LOGIN_ATTEMPT_WINDOW_MINUTES || '15') * 60 * 1000
+});
+
+/**
+ * Counter key for an account (or, before the account is known, the identifier typed in)
+ */
+export const accountKey = (accountId: string): string => `account:${accountId.toLowerCase()}`;
+
+/**
+ * Counter key for a client IP
+ */
+export const ipKey = (ip?: string): string => `ip:${ip || 'unknown'}`;
+
+/**
+ * Check whether another attempt is allowed for all of the given keys.
+ * A lock on any account key wins over delays.
+ */
+export const checkAttempt = async (keys: string[]): Promise<AttemptCheck> => {
+    const now = Date.now();
+    let delayMs = 0;
+
+    for (const key of keys) {
+        const record = await store.get(key);
+        if (!record) {
+            continue;
+        }
+
+        if (record.lockedUntil > now) {
+            // An IP lock is reported as throttling so it is not mistaken for an account lock
+            if (key.startsWith('account:')) {
+                return { status: 'locked', retryAfterMs: record.lockedUntil - now };
+            }
+            delayMs = Math.max(delayMs, record.lockedUntil - now);
+        } else if (record.nextAttemptAt > now) {
+            delayMs = Math.max(delayMs, record.nextAttemptAt - now);
+        }
+    }
+
+    return delayMs > 0 ? { status: 'delayed', retryAfterMs: delayMs } : { status: 'allowed' };
+};
+
+/**
+ * Count a failed attempt against each key. After the free attempts every failure
+ * doubles the wait before the next attempt; reaching the threshold locks the key.
+ */
+export const recordFailure = async (keys: string[]): Promise<void> => {
+    const config = getConfig();
+    const now = Date.now();
+
+    for (const key of keys) {
+        const record = await store.get(key);
+        const failures = (record?.failures || 0) + 1;
+        const threshold = key.startsWith('ip:') ? config.ipThreshold : config.accountThreshold;
+
+        const penalized = failures - config.freeAttempts;
+        const delayMs = penalized > 0
+            ? Math.min(config.delayBaseMs * 2 ** (penalized - 1), config.delayMaxMs)
+            : 0;
+        const lockedUntil = failures >= threshold ? now + config.lockoutMs : 0;
+
+        await store.set(key, {
+            failures,
+            nextAttemptAt: now + delayMs,
+            lockedUntil,
+            expiresAt: Math.max(now + config.windowMs, lockedUntil)
+        });
+    }
+};
+
+/**
+ * Forget the failures counted against the given keys
+ */
+export const recordSuccess = async (keys: string[]): Promise<void> => {
+    await Promise.all(keys.map(key => store.delete(key)));
+};
+
+/**
+ * Check whether an account is currently locked
+ */
+export const isAccountLocked = async (accountId: string): Promise<boolean> => {
+    const record = await store.get(accountKey(accountId));
+    return !!record && record.lockedUntil > Date.now();
+};
+
+/**
+ * Clear an account's failed attempts and lock
+ */
+export const clearAccountLock = async (accountId: string): Promise<void> => {
+    await store.delete(accountKey(accountId));
+};
+
+/**
+ * Send the response for an attempt that is not allowed yet
+ */
+export const sendAttemptBlocked = (res: Response, check: Exclude<AttemptCheck, { status: 'allowed' }>): void => {
+    const retryAfterSeconds = Math.ceil(check.retryAfterMs / 1000);
+    res.set('Retry-After', retryAfterSeconds.toString());
+
+    if (check.status === 'locked') {
+        res.status(423).json({
+            success: false,
+            message: 'Account temporarily locked due to too many failed attempts. Try again later.',
+            retryAfter: retryAfterSeconds
+        });
+        return;
+    }
+
+    res.status(429).json({
+        success: false,
+        message: 'Too many failed attempts. Please wait before trying again.',
+        retryAfter: retryAfterSeconds
+    });
+};
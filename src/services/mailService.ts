@@ -0,0 +1,77 @@
+import fs from 'fs/promises';
+import path from 'path';
+
+export interface MailMessage {
+    to: string;
+    subject: string;
+    text: string;
+    html?: string;
+}
+
+/**
+ * A transport delivers a fully addressed message
+ */
+export interface MailTransport {
+    send(message: MailMessage & { from: string }): Promise<void>;
+}
+
+/**
+ * Prints messages to stdout (default for local development)
+ */
+export class ConsoleTransport implements MailTransport {
+    async send(message: MailMessage & { from: string }): Promise<void> {
+        console.log(
+            `📧 Mail to ${message.to} from ${message.from}\n` +
+            `Subject: ${message.subject}\n\n${message.text}\n`
+        );
+    }
+}
+
+/**
+ * Writes each message as a JSON file to a directory (useful for tests)
+ */
+export class FileTransport implements MailTransport {
+    constructor(private directory: string) { }
+
+    async send(message: MailMessage & { from: string }): Promise<void> {
+        await fs.mkdir(this.directory, { recursive: true });
+
+        const fileName = `${Date.now()}-${Math.random().toString(36).slice(2, 8)}.json`;
+        await fs.writeFile(
+            path.join(this.directory, fileName),
+            JSON.stringify({ ...message, sentAt: new Date().toISOString() }, null, 2)
+        );
+    }
+}
+
+let transport: MailTransport | null = null;
+
+/**
+ * Replace the mail transport (e.g. with an SMTP or provider API transport)
+ */
+export const setMailTransport = (mailTransport: MailTransport): void => {
+    transport = mailTransport;
+};
+
+/**
+ * Get the configured transport, creating it from MAIL_TRANSPORT on first use
+ */
+export const getMailTransport = (): MailTransport => {
+    if (!transport) {
+        transport = process.env.MAIL_TRANSPORT === 'file'
+            ? new FileTransport(process.env.MAIL_FILE_DIR || path.join(process.cwd(), 'tmp', 'mail'))
+            : new ConsoleTransport();
+    }
+
+    return transport;
+};
+
+/**
+ * Send an email through the configured transport
+ */
+export const sendMail = async (message: MailMessage): Promise<void> => {
+    await getMailTransport().send({
+        ...message,
+        from: process.env.MAIL_FROM || 'no-reply@user-management-api.local'
+    });
+};
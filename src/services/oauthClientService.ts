@@ -0,0 +1,116 @@
+import OAuthClient, { IOAuthClient, OAuthClientType } from '../models/OAuthClient';
+import OAuthAuthorizationCode from '../models/OAuthAuthorizationCode';
+import OAuthConsent from '../models/OAuthConsent';
+import { OAuthGrantType } from '../config/oauthScopes';
+import { AppError } from '../utils/AppError';
+import { generateRandomToken, hashToken } from '../utils/crypto.utils';
+
+export interface OAuthClientInput {
+    name: string;
+    type?: OAuthClientType;
+    redirectUris?: string[];
+    grantTypes?: OAuthGrantType[];
+    scopes?: string[];
+    firstParty?: boolean;
+}
+
+/**
+ * Check that a client's grant types fit its type and redirect URIs.
+ * Public clients cannot keep a secret, so they may only use the authorization code flow.
+ */
+const assertValidClient = (client: Pick<IOAuthClient, 'type' | 'grantTypes' | 'redirectUris'>): void => {
+    if (client.type === 'public' && client.grantTypes.includes('client_credentials')) {
+        throw new AppError('Public clients cannot use the client_credentials grant', 400);
+    }
+
+    if (client.grantTypes.includes('authorization_code') && client.redirectUris.length === 0) {
+        throw new AppError('Clients using the authorization_code grant need at least one redirect URI', 400);
+    }
+};
+
+/**
+ * Register a client. Returns the plain secret for confidential clients;
+ * it is not retrievable afterwards.
+ */
+export const createOAuthClient = async (
+    input: OAuthClientInput,
+    createdBy: string
+): Promise<{ client: IOAuthClient; clientSecret?: string }> => {
+    const client = new OAuthClient({
+        ...input,
+        clientId: generateRandomToken(16),
+        createdBy
+    });
+    assertValidClient(client);
+
+    let clientSecret: string | undefined;
+    if (client.type === 'confidential') {
+        clientSecret = generateRandomToken();
+        client.clientSecretHash = hashToken(clientSecret);
+    }
+
+    await client.save();
+    return { client, clientSecret };
+};
+
+/**
+ * Update a client's settings. The client id, type and secret cannot be changed here.
+ */
+export const updateOAuthClient = async (
+    id: string,
+    changes: Partial<OAuthClientInput> & { isActive?: boolean }
+): Promise<IOAuthClient | null> => {
+    const client = await OAuthClient.findById(id);
+    if (!client) {
+        return null;
+    }
+
+    const { type, ...allowed } = changes;
+    Object.entries(allowed).forEach(([key, value]) => {
+        if (value !== undefined) client.set(key, value);
+    });
+    assertValidClient(client);
+
+    await client.save();
+    return client;
+};
+
+/**
+ * Replace a confidential client's secret. The old secret stops working at once.
+ */
+export const rotateClientSecret = async (
+    id: string
+): Promise<{ client: IOAuthClient; clientSecret: string } | null> => {
+    const client = await OAuthClient.findById(id);
+    if (!client) {
+        return null;
+    }
+
+    if (client.type !== 'confidential') {
+        throw new AppError('Public clients do not have a secret', 400);
+    }
+
+    const clientSecret = generateRandomToken();
+    client.clientSecretHash = hashToken(clientSecret);
+    await client.save();
+
+    return { client, clientSecret };
+};
+
+/**
+ * Delete a client with its consents and unused codes. Its access tokens stop
+ * working at once, since introspection and userinfo check that the client exists.
+ */
+export const deleteOAuthClient = async (id: string): Promise<IOAuthClient | null> => {
+    const client = await OAuthClient.findByIdAndDelete(id);
+    if (!client) {
+        return null;
+    }
+
+    await Promise.all([
+        OAuthConsent.deleteMany({ clientId: client.clientId }),
+        OAuthAuthorizationCode.deleteMany({ clientId: client.clientId })
+    ]);
+
+    return client;
+};
@@ -0,0 +1,440 @@
+import crypto from 'crypto';
+import OAuthClient, { IOAuthClient } from '../models/OAuthClient';
+import OAuthAuthorizationCode from '../models/OAuthAuthorizationCode';
+import OAuthConsent from '../models/OAuthConsent';
+import User from '../models/User';
+import { OAUTH_SCOPES } from '../config/oauthScopes';
+import { AppError } from '../utils/AppError';
+import { generateRandomToken, hashToken } from '../utils/crypto.utils';
+import {
+    generateOAuthAccessToken,
+    OAuthAccessTokenPayload,
+    verifyOAuthAccessToken
+} from '../utils/jwt.utils';
+import { isAccessTokenRevoked, revokeAccessToken } from './tokenRevocationService';
+import { getUserState } from './userStateService';
+
+/**
+ * Raised for failures reported as `{ error, error_description }` (RFC 6749).
+ * When `redirectUri` is set the client is trusted enough to receive the error
+ * on its redirect URI; otherwise it is shown to the user.
+ */
+export class OAuthError extends AppError {
+    public error: string;
+    public redirectUri?: string;
+    public state?: string;
+
+    constructor(error: string, description: string, statusCode: number = 400, redirectUri?: string, state?: string) {
+        super(description, statusCode);
+        this.error = error;
+        this.redirectUri = redirectUri;
+        this.state = state;
+    }
+}
+
+export interface AuthorizationRequest {
+    client: IOAuthClient;
+    redirectUri: string;
+    /** Whether redirect_uri was sent, rather than defaulting to the client's only one */
+    redirectUriProvided: boolean;
+    scopes: string[];
+    state?: string;
+    codeChallenge: string;
+}
+
+export type ActiveOAuthToken = OAuthAccessTokenPayload & { jti: string; exp: number; iat: number };
+
+export interface OAuthTokenResponse {
+    access_token: string;
+    token_type: 'Bearer';
+    expires_in: number;
+    scope: string;
+}
+
+const getCodeTtlMs = (): number => {
+    return parseInt(process.env.OAUTH_CODE_TTL_SECONDS || '60') * 1000;
+};
+
+/**
+ * Build a redirect back to the client with the given query parameters
+ */
+const buildRedirect = (redirectUri: string, params: Record<string, string | undefined>): string => {
+    const url = new URL(redirectUri);
+    Object.entries(params).forEach(([key, value]) => {
+        if (value !== undefined) url.searchParams.set(key, value);
+    });
+
+    return url.toString();
+};
+
+/**
+ * Get the URL that reports an OAuthError to the client, if it may be redirected
+ */
+export const getErrorRedirect = (error: OAuthError): string | undefined => {
+    return error.redirectUri
+        ? buildRedirect(error.redirectUri, { error: error.error, error_description: error.message, state: error.state })
+        : undefined;
+};
+
+/**
+ * Parse the scope parameter. Without one, the client gets every scope it is allowed.
+ */
+const resolveScopes = (client: IOAuthClient, scope?: string): string[] | null => {
+    if (!scope) {
+        return client.scopes;
+    }
+
+    const requested = [...new Set(scope.split(' ').filter(Boolean))];
+    return requested.every(name => client.scopes.includes(name)) ? requested : null;
+};
+
+/**
+ * Validate the parameters of an authorization request (RFC 6749 section 4.1.1, RFC 7636).
+ * Errors about the client or redirect URI are shown to the user; later errors are
+ * sent back to the client.
+ */
+export const validateAuthorizationRequest = async (params: Record<string, any>): Promise<AuthorizationRequest> => {
+    const client = params.client_id
+        ? await OAuthClient.findOne({ clientId: String(params.client_id), isActive: true })
+        : null;
+    if (!client) {
+        throw new OAuthError('invalid_client', 'Unknown or disabled client');
+    }
+
+    const redirectUri = params.redirect_uri
+        ? String(params.redirect_uri)
+        : (client.redirectUris.length === 1 ? client.redirectUris[0] : undefined);
+    if (!redirectUri || !client.redirectUris.includes(redirectUri)) {
+        throw new OAuthError('invalid_request', 'redirect_uri is missing or not registered for this client');
+    }
+
+    const state = params.state ? String(params.state) : undefined;
+    const fail = (error: string, description: string) => new OAuthError(error, description, 400, redirectUri, state);
+
+    if (params.response_type !== 'code') {
+        throw fail('unsupported_response_type', 'Only response_type=code is supported');
+    }
+
+    if (!client.grantTypes.includes('authorization_code')) {
+        throw fail('unauthorized_client', 'This client may not use the authorization code flow');
+    }
+
+    const scopes = resolveScopes(client, params.scope ? String(params.scope) : undefined);
+    if (!scopes) {
+        throw fail('invalid_scope', 'The requested scope is not allowed for this client');
+    }
+
+    if (!params.code_challenge || params.code_challenge_method !== 'S256') {
+        throw fail('invalid_request', 'PKCE is required: send code_challenge with code_challenge_method=S256');
+    }
+
+    return {
+        client,
+        redirectUri,
+        redirectUriProvided: !!params.redirect_uri,
+        scopes,
+        state,
+        codeChallenge: String(params.code_challenge)
+    };
+};
+
+/**
+ * Describe the requested scopes for the consent screen
+ */
+export const describeScopes = (scopes: string[]): { name: string; description: string }[] => {
+    return scopes.map(name => ({ name, description: OAUTH_SCOPES[name as keyof typeof OAUTH_SCOPES] }));
+};
+
+/**
+ * Check whether the user still has to approve the request. First-party clients
+ * are trusted, and earlier approvals covering every requested scope are remembered.
+ */
+export const isConsentRequired = async (userId: string, request: AuthorizationRequest): Promise<boolean> => {
+    if (request.client.firstParty) {
+        return false;
+    }
+
+    const consent = await OAuthConsent.findOne({ user: userId, clientId: request.client.clientId });
+    return !consent || !request.scopes.every(scope => consent.scopes.includes(scope));
+};
+
+/**
+ * Approve an authorization request: remember the consent, issue a single-use code
+ * and return the redirect that delivers it to the client
+ */
+export const approveAuthorization = async (userId: string, request: AuthorizationRequest): Promise<string> => {
+    if (!request.client.firstParty) {
+        await OAuthConsent.updateOne(
+            { user: userId, clientId: request.client.clientId },
+            { $addToSet: { scopes: { $each: request.scopes } } },
+            { upsert: true }
+        );
+    }
+
+    const code = generateRandomToken();
+    await OAuthAuthorizationCode.create({
+        codeHash: hashToken(code),
+        clientId: request.client.clientId,
+        user: userId,
+        redirectUri: request.redirectUri,
+        redirectUriProvided: request.redirectUriProvided,
+        scopes: request.scopes,
+        codeChallenge: request.codeChallenge,
+        expiresAt: new Date(Date.now() + getCodeTtlMs())
+    });
+
+    return buildRedirect(request.redirectUri, { code, state: request.state });
+};
+
+/**
+ * Deny an authorization request and return the redirect that tells the client
+ */
+export const denyAuthorization = (request: AuthorizationRequest): string => {
+    return buildRedirect(request.redirectUri, {
+        error: 'access_denied',
+        error_description: 'The user denied the request',
+        state: request.state
+    });
+};
+
+/**
+ * Authenticate a client at the token, introspection and revocation endpoints.
+ * Confidential clients must present their secret; public clients only their id.
+ */
+export const authenticateClient = async (clientId?: unknown, clientSecret?: unknown): Promise<IOAuthClient> => {
+    // Credentials that are not strings (e.g. client_id[$ne]=x) must never reach the query
+    const client = typeof clientId === 'string' && clientId
+        ? await OAuthClient.findOne({ clientId, isActive: true }).select('+clientSecretHash')
+        : null;
+
+    if (!client) {
+        throw new OAuthError('invalid_client', 'Client authentication failed', 401);
+    }
+
+    if (client.type === 'confidential') {
+        const expected = Buffer.from(client.clientSecretHash || '', 'hex');
+        const secret = typeof clientSecret === 'string' ? clientSecret : '';
+        const actual = Buffer.from(hashToken(secret), 'hex');
+        if (!secret || expected.length !== actual.length || !crypto.timingSafeEqual(expected, actual)) {
+            throw new OAuthError('invalid_client', 'Client authentication failed', 401);
+        }
+    }
+
+    return client;
+};
+
+const issueAccessToken = (payload: OAuthAccessTokenPayload): OAuthTokenResponse => {
+    const accessToken = generateOAuthAccessToken(payload);
+    const { exp, iat } = verifyOAuthAccessToken(accessToken);
+
+    return {
+        access_token: accessToken,
+        token_type: 'Bearer',
+        expires_in: exp! - iat!,
+        scope: payload.scope
+    };
+};
+
+/**
+ * Revoke the access token an already used authorization code was exchanged for.
+ * A code presented twice may have been intercepted (RFC 6749 section 4.1.2).
+ */
+const revokeReplayedCode = async (codeHash: string): Promise<void> => {
+    const used = await OAuthAuthorizationCode.findOne({ codeHash, usedAt: { $ne: null } });
+    if (!used?.accessTokenJti) {
+        return;
+    }
+
+    console.warn(`OAuth authorization code replayed for client ${used.clientId}; its access token was revoked`);
+    await revokeAccessToken(used.accessTokenJti, used.expiresAt, used.user.toString(), 'oauth-code-replay');
+};
+
+/**
+ * Exchange an authorization code and its PKCE verifier for an access token.
+ * redirect_uri must match the authorization request's if that one included it
+ * (RFC 6749 section 4.1.3).
+ */
+export const exchangeAuthorizationCode = async (
+    client: IOAuthClient,
+    params: { code?: unknown; redirect_uri?: unknown; code_verifier?: unknown }
+): Promise<OAuthTokenResponse> => {
+    // Checked before the code is looked up, so a malformed request cannot consume it
+    const { code, code_verifier: codeVerifier } = params;
+    if (typeof code !== 'string' || typeof codeVerifier !== 'string' || !code || !codeVerifier) {
+        throw new OAuthError('invalid_request', 'code and code_verifier are required');
+    }
+
+    // Mark the code used first, so it can be exchanged only once
+    const codeHash = hashToken(code);
+    const authorizationCode = await OAuthAuthorizationCode.findOneAndUpdate(
+        { codeHash, usedAt: null, expiresAt: { $gt: new Date() } },
+        { usedAt: new Date() }
+    );
+
+    if (!authorizationCode) {
+        await revokeReplayedCode(codeHash);
+    }
+
+    const redirectUriMatches = authorizationCode?.redirectUriProvided
+        ? params.redirect_uri === authorizationCode.redirectUri
+        : !params.redirect_uri || params.redirect_uri === authorizationCode?.redirectUri;
+
+    const challenge = crypto.createHash('sha256').update(codeVerifier).digest('base64url');
+    if (
+        !authorizationCode ||
+        authorizationCode.clientId !== client.clientId ||
+        !redirectUriMatches ||
+        authorizationCode.codeChallenge !== challenge
+    ) {
+        throw new OAuthError(
+            'invalid_grant',
+            'The authorization code is invalid, expired or was issued to another client'
+        );
+    }
+
+    const user = await User.findById(authorizationCode.user);
+    if (!user || !user.isActive) {
+        throw new OAuthError('invalid_grant', 'The user is no longer active');
+    }
+
+    const response = issueAccessToken({
+        sub: user._id.toString(),
+        client_id: client.clientId,
+        scope: authorizationCode.scopes.join(' '),
+        ver: user.tokenVersion ?? 0
+    });
+
+    // Remember the token, and keep the code as long as the token lives, so a replay can revoke it
+    const { jti, exp } = verifyOAuthAccessToken(response.access_token);
+    await OAuthAuthorizationCode.updateOne(
+        { _id: authorizationCode._id },
+        { accessTokenJti: jti, expiresAt: new Date(exp! * 1000) }
+    );
+
+    return response;
+};
+
+/**
+ * Issue an access token for the client itself (client_credentials grant)
+ */
+export const issueClientCredentialsToken = async (
+    client: IOAuthClient,
+    scope?: string
+): Promise<OAuthTokenResponse> => {
+    if (client.type !== 'confidential' || !client.grantTypes.includes('client_credentials')) {
+        throw new OAuthError('unauthorized_client', 'This client may not use the client_credentials grant');
+    }
+
+    const scopes = resolveScopes(client, scope);
+    if (!scopes) {
+        throw new OAuthError('invalid_scope', 'The requested scope is not allowed for this client');
+    }
+
+    return issueAccessToken({
+        sub: client.clientId,
+        client_id: client.clientId,
+        scope: scopes.join(' ')
+    });
+};
+
+/**
+ * Verify an OAuth access token and check that it, its client and its user are
+ * all still valid. Returns null for any token that should not be honored.
+ */
+export const getActiveAccessToken = async (token: string): Promise<ActiveOAuthToken | null> => {
+    let payload;
+    try {
+        payload = verifyOAuthAccessToken(token);
+    } catch (error) {
+        return null;
+    }
+
+    if (!payload.jti || await isAccessTokenRevoked(payload.jti)) {
+        return null;
+    }
+
+    if (!await OAuthClient.exists({ clientId: payload.client_id, isActive: true })) {
+        return null;
+    }
+
+    // Tokens issued for a user follow the same rules as the user's own tokens
+    if (payload.sub !== payload.client_id) {
+        const state = await getUserState(payload.sub);
+        if (!state || !state.isActive || (payload.ver ?? 0) !== state.tokenVersion) {
+            return null;
+        }
+    }
+
+    return payload as ActiveOAuthToken;
+};
+
+/**
+ * Describe a token for a resource server (RFC 7662)
+ */
+export const introspectToken = async (token: string): Promise<Record<string, unknown>> => {
+    const payload = await getActiveAccessToken(token);
+    if (!payload) {
+        return { active: false };
+    }
+
+    const user = payload.sub !== payload.client_id ? await User.findById(payload.sub) : null;
+
+    return {
+        active: true,
+        scope: payload.scope,
+        client_id: payload.client_id,
+        sub: payload.sub,
+        ...(user && { username: user.username }),
+        token_type: 'Bearer',
+        exp: payload.exp,
+        iat: payload.iat,
+        iss: 'user-management-api',
+        aud: 'user-management-oauth',
+        jti: payload.jti
+    };
+};
+
+/**
+ * Get the OpenID-style claims about the token's user that its scopes allow
+ */
+export const getUserInfo = async (token: ActiveOAuthToken): Promise<Record<string, unknown> | null> => {
+    const user = token.sub !== token.client_id ? await User.findById(token.sub) : null;
+    if (!user) {
+        return null;
+    }
+
+    const scopes = token.scope.split(' ');
+    return {
+        sub: user._id.toString(),
+        ...(scopes.includes('profile') && {
+            preferred_username: user.username,
+            name: user.getFullName(),
+            given_name: user.firstName,
+            family_name: user.lastName
+        }),
+        ...(scopes.includes('email') && {
+            email: user.email,
+            email_verified: user.isEmailVerified
+        })
+    };
+};
+
+/**
+ * Revoke a token issued to the client (RFC 7009). Unknown tokens and tokens
+ * of other clients are ignored, as the RFC requires the same response.
+ */
+export const revokeOAuthToken = async (client: IOAuthClient, token: string): Promise<void> => {
+    let payload;
+    try {
+        payload = verifyOAuthAccessToken(token);
+    } catch (error) {
+        return;
+    }
+
+    if (payload.client_id !== client.clientId || !payload.jti || !payload.exp) {
+        return;
+    }
+
+    const userId = payload.sub !== payload.client_id ? payload.sub : undefined;
+    await revokeAccessToken(payload.jti, new Date(payload.exp * 1000), userId, 'oauth-revoked');
+};
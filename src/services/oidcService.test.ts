@@ -0,0 +1,196 @@
+import crypto from 'crypto';
+import http from 'http';
+import { AddressInfo } from 'net';
+import jwt from 'jsonwebtoken';
+import { beginAuthorization, completeAuthorization } from './oidcService';
+
+// In-memory stand-in for the OidcState collection
+const mockStates: Record<string, any>[] = [];
+
+jest.mock('../models/OidcState', () => ({
+    __esModule: true,
+    default: {
+        create: jest.fn(async (state: Record<string, any>) => {
+            mockStates.push({ ...state, _id: String(mockStates.length + 1) });
+        }),
+        findOne: jest.fn(async (filter: Record<string, any>) => {
+            return mockStates.find(state => state.stateHash === filter.stateHash && state.provider === filter.provider);
+        }),
+        deleteOne: jest.fn(async (filter: Record<string, any>) => {
+            const index = mockStates.findIndex(state => state._id === filter._id);
+            if (index !== -1) mockStates.splice(index, 1);
+            return { deletedCount: index === -1 ? 0 : 1 };
+        })
+    }
+}));
+
+const CLIENT_ID = 'test-client';
+const KID = 'test-key';
+const { privateKey, publicKey } = crypto.generateKeyPairSync('rsa', { modulusLength: 2048 });
+
+/**
+ * Minimal OpenID provider: discovery, keys and a token endpoint that checks
+ * PKCE and returns an ID token with the claims set by each test
+ */
+let issuer: string;
+let server: http.Server;
+let codeChallenge: string | null;
+let idTokenClaims: Record<string, unknown>;
+let signingKey: crypto.KeyObject;
+let tokenRequests: URLSearchParams[];
+
+const handleRequest = (req: http.IncomingMessage, res: http.ServerResponse): void => {
+    const send = (status: number, body: unknown) => {
+        res.writeHead(status, { 'Content-Type': 'application/json' });
+        res.end(JSON.stringify(body));
+    };
+
+    if (req.url === '/.well-known/openid-configuration') {
+        send(200, {
+            issuer,
+            authorization_endpoint: `${issuer}/authorize`,
+            token_endpoint: `${issuer}/token`,
+            jwks_uri: `${issuer}/jwks`
+        });
+    } else if (req.url === '/jwks') {
+        send(200, { keys: [{ ...publicKey.export({ format: 'jwk' }), kid: KID, alg: 'RS256', use: 'sig' }] });
+    } else if (req.url === '/token' && req.method === 'POST') {
+        let body = '';
+        req.on('data', chunk => (body += chunk));
+        req.on('end', () => {
+            const params = new URLSearchParams(body);
+            tokenRequests.push(params);
+
+            const challenge = crypto.createHash('sha256').update(params.get('code_verifier') || '').digest('base64url');
+            if (params.get('code') !== 'valid-code' || challenge !== codeChallenge) {
+                send(400, { error: 'invalid_grant' });
+                return;
+            }
+
+            send(200, {
+                access_token: 'provider-access-token',
+                id_token: jwt.sign(idTokenClaims, signingKey, { algorithm: 'RS256', keyid: KID, expiresIn: 300 })
+            });
+        });
+    } else {
+        send(404, { error: 'not_found' });
+    }
+};
+
+/**
+ * Start a sign-in and return its state, with the ID token claims the provider will return
+ */
+const startSignIn = async (claims: Record<string, unknown> = {}): Promise<string> => {
+    const url = new URL(await beginAuthorization('mock', 'login'));
+    codeChallenge = url.searchParams.get('code_challenge');
+    idTokenClaims = {
+        iss: issuer,
+        aud: CLIENT_ID,
+        sub: 'provider-user-1',
+        nonce: url.searchParams.get('nonce'),
+        email: 'ann@example.com',
+        email_verified: true,
+        given_name: 'Ann',
+        family_name: 'Lee',
+        ...claims
+    };
+
+    return url.searchParams.get('state')!;
+};
+
+describe('oidcService against a mock issuer', () => {
+    beforeAll(async () => {
+        server = http.createServer(handleRequest);
+        await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+        issuer = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+
+        process.env.OIDC_PROVIDERS = 'mock';
+        process.env.OIDC_MOCK_CLIENT_ID = CLIENT_ID;
+        process.env.OIDC_MOCK_ISSUER = issuer;
+    });
+
+    afterAll(async () => {
+        await new Promise(resolve => server.close(resolve));
+    });
+
+    beforeEach(() => {
+        mockStates.length = 0;
+        tokenRequests = [];
+        signingKey = privateKey;
+        jest.spyOn(console, 'error').mockImplementation(() => undefined);
+    });
+
+    afterEach(() => {
+        jest.restoreAllMocks();
+    });
+
+    it('builds an authorization URL with PKCE, state and nonce', async () => {
+        const url = new URL(await beginAuthorization('mock', 'login'));
+
+        expect(url.origin + url.pathname).toBe(`${issuer}/authorize`);
+        expect(url.searchParams.get('client_id')).toBe(CLIENT_ID);
+        expect(url.searchParams.get('response_type')).toBe('code');
+        expect(url.searchParams.get('code_challenge_method')).toBe('S256');
+        expect(url.searchParams.get('state')).toBeTruthy();
+        expect(url.searchParams.get('nonce')).toBeTruthy();
+        expect(mockStates).toHaveLength(1);
+    });
+
+    it('exchanges the code and returns the verified profile', async () => {
+        const state = await startSignIn();
+
+        const result = await completeAuthorization('mock', 'valid-code', state);
+
+        expect(result).toEqual({
+            intent: 'login',
+            userId: undefined,
+            profile: {
+                provider: 'mock',
+                subject: 'provider-user-1',
+                email: 'ann@example.com',
+                emailVerified: true,
+                firstName: 'Ann',
+                lastName: 'Lee'
+            }
+        });
+        expect(tokenRequests[0].get('redirect_uri')).toBe('http://localhost:3000/auth/callback/mock');
+    });
+
+    it('consumes the state, so a callback can be completed once', async () => {
+        const state = await startSignIn();
+        await completeAuthorization('mock', 'valid-code', state);
+
+        await expect(completeAuthorization('mock', 'valid-code', state))
+            .rejects.toThrow('Invalid or expired sign-in request');
+        expect(tokenRequests).toHaveLength(1);
+    });
+
+    it('rejects an unknown state', async () => {
+        await expect(completeAuthorization('mock', 'valid-code', 'unknown-state'))
+            .rejects.toThrow('Invalid or expired sign-in request');
+    });
+
+    it('fails when the provider rejects the code', async () => {
+        const state = await startSignIn();
+
+        await expect(completeAuthorization('mock', 'wrong-code', state))
+            .rejects.toMatchObject({ statusCode: 401, message: 'Sign-in with the provider failed. Please try again.' });
+    });
+
+    it.each([
+        ['nonce', { nonce: 'another-nonce' }],
+        ['issuer', { iss: 'https://evil.example.com' }],
+        ['audience', { aud: 'another-client' }]
+    ])('rejects an ID token with the wrong %s', async (_, claims) => {
+        const state = await startSignIn(claims);
+
+        await expect(completeAuthorization('mock', 'valid-code', state)).rejects.toThrow('Invalid ID token');
+    });
+
+    it('rejects an ID token signed with another key', async () => {
+        const state = await startSignIn();
+        signingKey = crypto.generateKeyPairSync('rsa', { modulusLength: 2048 }).privateKey;
+
+        await expect(completeAuthorization('mock', 'valid-code', state)).rejects.toThrow('Invalid ID token');
+    });
+});
@@ -0,0 +1,353 @@
+import crypto, { JsonWebKey } from 'crypto';
+import jwt, { JwtPayload } from 'jsonwebtoken';
+import OidcState, { OidcIntent } from '../models/OidcState';
+import { getOidcProvider, OidcProviderConfig } from '../config/oidcProviders';
+import { AppError } from '../utils/AppError';
+import { generateRandomToken, hashToken } from '../utils/crypto.utils';
+
+const STATE_TTL_MS = 10 * 60 * 1000;
+const METADATA_CACHE_TTL_MS = 60 * 60 * 1000;
+// A provider that does not answer must not hold sign-in requests open
+const PROVIDER_REQUEST_TIMEOUT_MS = 10 * 1000;
+const ID_TOKEN_ALGORITHMS: jwt.Algorithm[] = ['RS256', 'RS384', 'RS512', 'ES256', 'ES384', 'ES512', 'PS256'];
+
+interface DiscoveryDocument {
+    issuer: string;
+    authorization_endpoint: string;
+    token_endpoint: string;
+    userinfo_endpoint?: string;
+    jwks_uri: string;
+}
+
+interface ProviderTokens {
+    access_token?: string;
+    id_token?: string;
+}
+
+interface CachedValue<T> {
+    value: T;
+    expiresAt: number;
+}
+
+/**
+ * What a provider told us about the user who signed in
+ */
+export interface ExternalProfile {
+    provider: string;
+    subject: string;
+    email?: string;
+    emailVerified: boolean;
+    firstName?: string;
+    lastName?: string;
+}
+
+export interface AuthorizationResult {
+    intent: OidcIntent;
+    /** The user who started a link request */
+    userId?: string;
+    profile: ExternalProfile;
+}
+
+const discoveryCache = new Map<string, CachedValue<DiscoveryDocument>>();
+const jwksCache = new Map<string, CachedValue<JsonWebKey[]>>();
+
+/**
+ * Get an enabled provider or fail with 404
+ */
+export const requireProvider = (name: string): OidcProviderConfig => {
+    const provider = getOidcProvider(name);
+    if (!provider) {
+        throw new AppError(`Unknown sign-in provider: ${name}`, 404);
+    }
+
+    return provider;
+};
+
+/**
+ * Call a provider endpoint and parse its JSON response.
+ * Gives up after PROVIDER_REQUEST_TIMEOUT_MS.
+ */
+const fetchJson = async <T>(url: string, init?: RequestInit): Promise<T> => {
+    const response = await fetch(url, {
+        ...init,
+        headers: { Accept: 'application/json', ...init?.headers },
+        signal: AbortSignal.timeout(PROVIDER_REQUEST_TIMEOUT_MS)
+    });
+
+    if (!response.ok) {
+        throw new Error(`Request to ${url} failed with status ${response.status}`);
+    }
+
+    return response.json() as Promise<T>;
+};
+
+/**
+ * Fetch (and cache) the provider's OpenID configuration
+ */
+const discover = async (issuer: string): Promise<DiscoveryDocument> => {
+    const cached = discoveryCache.get(issuer);
+    if (cached && cached.expiresAt > Date.now()) {
+        return cached.value;
+    }
+
+    const document = await fetchJson<DiscoveryDocument>(`${issuer.replace(/\/$/, '')}/.well-known/openid-configuration`);
+    discoveryCache.set(issuer, { value: document, expiresAt: Date.now() + METADATA_CACHE_TTL_MS });
+
+    return document;
+};
+
+/**
+ * Find the provider's signing key for a `kid`, refetching the key set once
+ * when the key is unknown (the provider may have rotated its keys)
+ */
+const findProviderKey = async (jwksUri: string, kid?: string): Promise<JsonWebKey | undefined> => {
+    const match = (keys: JsonWebKey[]) => keys.find(key => key.kid === kid || (!kid && keys.length === 1));
+
+    const cached = jwksCache.get(jwksUri);
+    const cachedKey = cached && cached.expiresAt > Date.now() ? match(cached.value) : undefined;
+    if (cachedKey) {
+        return cachedKey;
+    }
+
+    const { keys = [] } = await fetchJson<{ keys?: JsonWebKey[] }>(jwksUri);
+    jwksCache.set(jwksUri, { value: keys, expiresAt: Date.now() + METADATA_CACHE_TTL_MS });
+
+    return match(keys);
+};
+
+/**
+ * Resolve the endpoints of a provider, from discovery for OIDC providers
+ */
+const getEndpoints = async (provider: OidcProviderConfig) => {
+    if (provider.type === 'oauth2') {
+        return {
+            authorizationEndpoint: provider.authorizationEndpoint!,
+            tokenEndpoint: provider.tokenEndpoint!
+        };
+    }
+
+    const document = await discover(provider.issuer!);
+    return {
+        authorizationEndpoint: document.authorization_endpoint,
+        tokenEndpoint: document.token_endpoint,
+        document
+    };
+};
+
+/**
+ * Start an authorization code + PKCE request and return the URL to send the user to.
+ * `state`, `nonce` and the PKCE verifier are stored server-side until the callback.
+ */
+export const beginAuthorization = async (
+    providerName: string,
+    intent: OidcIntent,
+    userId?: string
+): Promise<string> => {
+    const provider = requireProvider(providerName);
+    const { authorizationEndpoint } = await getEndpoints(provider);
+
+    const state = generateRandomToken();
+    const nonce = generateRandomToken();
+    const codeVerifier = generateRandomToken(48);
+    const codeChallenge = crypto.createHash('sha256').update(codeVerifier).digest('base64url');
+
+    await OidcState.create({
+        stateHash: hashToken(state),
+        provider: provider.name,
+        intent,
+        user: userId || null,
+        nonce,
+        codeVerifier,
+        expiresAt: new Date(Date.now() + STATE_TTL_MS)
+    });
+
+    const url = new URL(authorizationEndpoint);
+    url.searchParams.set('response_type', 'code');
+    url.searchParams.set('client_id', provider.clientId);
+    url.searchParams.set('redirect_uri', provider.redirectUri);
+    url.searchParams.set('scope', provider.scopes.join(' '));
+    url.searchParams.set('state', state);
+    url.searchParams.set('code_challenge', codeChallenge);
+    url.searchParams.set('code_challenge_method', 'S256');
+    if (provider.type === 'oidc') {
+        url.searchParams.set('nonce', nonce);
+    }
+
+    return url.toString();
+};
+
+/**
+ * Exchange the authorization code for the provider's tokens
+ */
+const exchangeCode = async (
+    provider: OidcProviderConfig,
+    tokenEndpoint: string,
+    code: string,
+    codeVerifier: string
+): Promise<ProviderTokens> => {
+    const body = new URLSearchParams({
+        grant_type: 'authorization_code',
+        code,
+        redirect_uri: provider.redirectUri,
+        client_id: provider.clientId,
+        code_verifier: codeVerifier
+    });
+    if (provider.clientSecret) {
+        body.set('client_secret', provider.clientSecret);
+    }
+
+    try {
+        return await fetchJson<ProviderTokens>(tokenEndpoint, {
+            method: 'POST',
+            headers: { 'Content-Type': 'application/x-www-form-urlencoded' },
+            body
+        });
+    } catch (error) {
+        console.error('OIDC token exchange error:', error);
+        throw new AppError('Sign-in with the provider failed. Please try again.', 401);
+    }
+};
+
+/**
+ * Verify an ID token's signature, issuer, audience, expiry and nonce
+ */
+const verifyIdToken = async (
+    provider: OidcProviderConfig,
+    document: DiscoveryDocument,
+    idToken: string,
+    nonce: string
+): Promise<JwtPayload> => {
+    const decoded = jwt.decode(idToken, { complete: true });
+    const jwk = decoded && await findProviderKey(document.jwks_uri, decoded.header.kid);
+    if (!jwk) {
+        throw new AppError('Invalid ID token', 401);
+    }
+
+    let claims: JwtPayload;
+    try {
+        claims = jwt.verify(idToken, crypto.createPublicKey({ key: jwk, format: 'jwk' }), {
+            algorithms: ID_TOKEN_ALGORITHMS,
+            audience: provider.clientId
+        }) as JwtPayload;
+    } catch (error) {
+        throw new AppError('Invalid ID token', 401);
+    }
+
+    // Multi-tenant issuers (Microsoft "common") advertise a {tenantid} template
+    const expectedIssuer = document.issuer.replace('{tenantid}', String(claims.tid));
+    if (claims.iss !== expectedIssuer || claims.nonce !== nonce || !claims.sub) {
+        throw new AppError('Invalid ID token', 401);
+    }
+
+    return claims;
+};
+
+/**
+ * Build the profile from a verified ID token (plus userinfo for missing claims)
+ */
+const getOidcProfile = async (
+    provider: OidcProviderConfig,
+    document: DiscoveryDocument,
+    tokens: ProviderTokens,
+    nonce: string
+): Promise<ExternalProfile> => {
+    if (!tokens.id_token) {
+        throw new AppError('The provider did not return an ID token', 401);
+    }
+
+    let claims = await verifyIdToken(provider, document, tokens.id_token, nonce);
+
+    if (!claims.email && document.userinfo_endpoint && tokens.access_token) {
+        const userinfo = await fetchJson<JwtPayload>(document.userinfo_endpoint, {
+            headers: { Authorization: `Bearer ${tokens.access_token}` }
+        });
+        // Userinfo must describe the same subject as the ID token
+        if (userinfo.sub === claims.sub) {
+            claims = { ...userinfo, ...claims };
+        }
+    }
+
+    return {
+        provider: provider.name,
+        subject: String(claims.sub),
+        email: claims.email,
+        emailVerified: claims.email_verified === true || claims.email_verified === 'true',
+        firstName: claims.given_name,
+        lastName: claims.family_name
+    };
+};
+
+/**
+ * Build the profile for an OAuth 2.0-only provider (GitHub) from its user API
+ */
+const getOAuth2Profile = async (
+    provider: OidcProviderConfig,
+    tokens: ProviderTokens
+): Promise<ExternalProfile> => {
+    if (!tokens.access_token) {
+        throw new AppError('The provider did not return an access token', 401);
+    }
+
+    const headers = { Authorization: `Bearer ${tokens.access_token}` };
+    const user = await fetchJson<{ id: number | string; name?: string | null }>(
+        provider.userinfoEndpoint!,
+        { headers }
+    );
+
+    let email: string | undefined;
+    if (provider.emailsEndpoint) {
+        const emails = await fetchJson<{ email: string; primary: boolean; verified: boolean }[]>(
+            provider.emailsEndpoint,
+            { headers }
+        );
+        email = emails.find(entry => entry.primary && entry.verified)?.email;
+    }
+
+    const [firstName, ...rest] = (user.name || '').split(' ');
+
+    return {
+        provider: provider.name,
+        subject: String(user.id),
+        email,
+        emailVerified: !!email,
+        firstName: firstName || undefined,
+        lastName: rest.join(' ') || undefined
+    };
+};
+
+/**
+ * Complete an authorization request from the provider's callback parameters.
+ * The state is consumed, so each callback can be completed once.
+ */
+export const completeAuthorization = async (
+    providerName: string,
+    code: string,
+    state: string
+): Promise<AuthorizationResult> => {
+    const provider = requireProvider(providerName);
+
+    const pending = await OidcState.findOne({
+        stateHash: hashToken(state),
+        provider: provider.name,
+        expiresAt: { $gt: new Date() }
+    });
+
+    // Only the request that deletes the state may continue
+    const consumed = pending && (await OidcState.deleteOne({ _id: pending._id })).deletedCount === 1;
+    if (!pending || !consumed) {
+        throw new AppError('Invalid or expired sign-in request. Please start again.', 400);
+    }
+
+    const { tokenEndpoint, document } = await getEndpoints(provider);
+    const tokens = await exchangeCode(provider, tokenEndpoint, code, pending.codeVerifier);
+
+    const profile = provider.type === 'oidc'
+        ? await getOidcProfile(provider, document!, tokens, pending.nonce)
+        : await getOAuth2Profile(provider, tokens);
+
+    return {
+        intent: pending.intent,
+        userId: pending.user?.toString(),
+        profile
+    };
+};
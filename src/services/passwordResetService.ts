@@ -0,0 +1,94 @@
+import User, { IUser } from '../models/User';
+import { buildClientUrl } from '../utils/url.utils';
+import { revokeAllApiKeys } from './apiKeyService';
+import { sendMail } from './mailService';
+import { revokeAllSessions } from './sessionService';
+import { consumeUserToken, invalidateUserTokens, issueUserToken } from './userTokenService';
+import { invalidateUserState } from './userStateService';
+
+const getTokenTtlMinutes = (): number => {
+    return parseInt(process.env.PASSWORD_RESET_TOKEN_TTL_MINUTES || '60');
+};
+
+/**
+ * Email a password reset link if an active account uses this email.
+ * Does nothing otherwise, so callers can answer the same way in both cases.
+ */
+export const requestPasswordReset = async (email: string): Promise<void> => {
+    const user = await User.findOne({ email });
+    if (!user || !user.isActive) {
+        return;
+    }
+
+    const ttlMinutes = getTokenTtlMinutes();
+    const token = await issueUserToken(user._id.toString(), 'password-reset', ttlMinutes * 60 * 1000);
+    const link = buildClientUrl('/reset-password', { token });
+
+    await sendMail({
+        to: user.email,
+        subject: 'Reset your password',
+        text: `Hi ${user.firstName},\n\n` +
+            `We received a request to reset your password. Open the link below to choose a new one:\n\n${link}\n\n` +
+            `The link expires in ${ttlMinutes} minutes and can be used once. ` +
+            'If you did not request a reset, you can ignore this email; your password has not been changed.'
+    });
+};
+
+/**
+ * Email a new account created by an admin a link to choose its first password.
+ * Uses a password reset token that lasts ACCOUNT_SETUP_TOKEN_TTL_HOURS.
+ */
+export const sendPasswordSetupEmail = async (user: IUser): Promise<void> => {
+    const ttlHours = parseInt(process.env.ACCOUNT_SETUP_TOKEN_TTL_HOURS || '72');
+    const token = await issueUserToken(user._id.toString(), 'password-reset', ttlHours * 60 * 60 * 1000);
+    const link = buildClientUrl('/reset-password', { token });
+
+    await sendMail({
+        to: user.email,
+        subject: 'Your account has been created',
+        text: `Hi ${user.firstName},\n\n` +
+            `An account has been created for you. Open the link below to choose your password:\n\n${link}\n\n` +
+            `The link expires in ${ttlHours} hours and can be used once.`
+    });
+};
+
+/**
+ * Redeem a reset token and set a new password. Every existing session and API
+ * key of the user is revoked, since whoever knew the old password may have
+ * created them. Returns the user's ID, or null if the token is invalid, expired or used.
+ */
+export const resetPassword = async (token: string, newPassword: string): Promise<string | null> => {
+    const userId = await consumeUserToken(token, 'password-reset');
+    if (!userId) {
+        return null;
+    }
+
+    const user = await User.findById(userId).select('+password');
+    if (!user || !user.isActive) {
+        return null;
+    }
+
+    user.password = newPassword;
+    await user.save();
+    invalidateUserState(userId);
+
+    await Promise.all([
+        revokeAllSessions(userId, 'password-reset'),
+        invalidateUserTokens(userId, 'password-reset'),
+        revokeAllApiKeys(userId)
+    ]);
+
+    try {
+        await sendMail({
+            to: user.email,
+            subject: 'Your password was changed',
+            text: `Hi ${user.firstName},\n\n` +
+                'Your password was just reset. You have been signed out everywhere and your API keys were revoked. ' +
+                'If this was not you, contact support immediately.'
+        });
+    } catch (error) {
+        console.error('Password reset confirmation email error:', error);
+    }
+
+    return userId;
+};
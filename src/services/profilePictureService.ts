@@ -0,0 +1,173 @@
+import crypto from 'crypto';
+import User from '../models/User';
+import { AppError } from '../utils/AppError';
+import { getMultipartBoundary, parseMultipart } from '../utils/multipart.utils';
+import { getStorageBackend } from './storageService';
+
+/** Form field the picture is uploaded in */
+export const PROFILE_PICTURE_FIELD = 'picture';
+
+export const MAX_PROFILE_PICTURE_BYTES = 2 * 1024 * 1024;
+
+// Request body limit: the picture plus room for the multipart framing around it
+export const PROFILE_PICTURE_UPLOAD_LIMIT = MAX_PROFILE_PICTURE_BYTES + 64 * 1024;
+
+/**
+ * Accepted image types, recognized by the magic bytes their files start with
+ */
+const IMAGE_TYPES: Record<string, { extension: string; matches: (data: Buffer) => boolean }> = {
+    'image/png': {
+        extension: 'png',
+        matches: data => data.subarray(0, 8).equals(Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]))
+    },
+    'image/jpeg': {
+        extension: 'jpg',
+        matches: data => data.subarray(0, 3).equals(Buffer.from([0xff, 0xd8, 0xff]))
+    },
+    'image/gif': {
+        extension: 'gif',
+        matches: data => ['GIF87a', 'GIF89a'].includes(data.subarray(0, 6).toString('latin1'))
+    },
+    'image/webp': {
+        extension: 'webp',
+        matches: data =>
+            data.subarray(0, 4).toString('latin1') === 'RIFF' && data.subarray(8, 12).toString('latin1') === 'WEBP'
+    }
+};
+
+// Pictures are stored under random names, so their URLs cannot be guessed from user ids
+const KEY_PREFIX = 'profile-pictures/';
+const FILE_NAME_PATTERN = /^[a-f0-9]{32}\.(png|jpg|gif|webp)$/;
+
+export interface ProfilePictureUpload {
+    data: Buffer;
+    contentType: string;
+}
+
+/**
+ * Extract the picture from a buffered multipart/form-data request body and
+ * check that it is an image of an accepted type and size: the declared
+ * content type must be accepted and the file's magic bytes must match it.
+ */
+export const readProfilePictureUpload = (body: Buffer, contentType: string): ProfilePictureUpload => {
+    const boundary = getMultipartBoundary(contentType);
+    if (!boundary) {
+        throw new AppError('Upload the picture as multipart/form-data', 415);
+    }
+
+    let parts;
+    try {
+        parts = parseMultipart(body, boundary);
+    } catch {
+        throw new AppError('Malformed multipart/form-data body', 400);
+    }
+
+    const part = parts.find(candidate => candidate.name === PROFILE_PICTURE_FIELD && candidate.filename !== undefined);
+    if (!part) {
+        throw new AppError(`No picture uploaded. Send it as the "${PROFILE_PICTURE_FIELD}" file field.`, 400);
+    }
+
+    const type = part.contentType?.split(';')[0].trim().toLowerCase() || '';
+    const imageType = IMAGE_TYPES[type];
+    if (!imageType) {
+        throw new AppError('Profile pictures must be PNG, JPEG, GIF or WebP images', 415);
+    }
+
+    if (part.data.length === 0) {
+        throw new AppError('The uploaded picture is empty', 400);
+    }
+
+    if (part.data.length > MAX_PROFILE_PICTURE_BYTES) {
+        throw new AppError(`Profile pictures cannot exceed ${MAX_PROFILE_PICTURE_BYTES / (1024 * 1024)} MB`, 413);
+    }
+
+    if (!imageType.matches(part.data)) {
+        throw new AppError(`The uploaded file is not a valid ${type} image`, 400);
+    }
+
+    return { data: part.data, contentType: type };
+};
+
+/**
+ * URL a stored picture is served from: the storage backend's own URL if it has
+ * one, otherwise GET /api/users/pictures/:fileName
+ */
+const getProfilePictureUrl = (key: string): string => {
+    return getStorageBackend().getPublicUrl(key) ?? `/api/users/pictures/${key.slice(KEY_PREFIX.length)}`;
+};
+
+/**
+ * Delete a stored picture. Never throws: a failure leaves an orphaned file
+ * behind, which is logged, rather than failing the request that replaced or
+ * removed the picture.
+ */
+export const deleteStoredProfilePicture = async (key?: string): Promise<void> => {
+    if (!key) {
+        return;
+    }
+
+    try {
+        await getStorageBackend().delete(key);
+    } catch (error) {
+        console.error(`Profile picture cleanup error for ${key}:`, error);
+    }
+};
+
+/**
+ * Store a user's new profile picture and delete the one it replaces.
+ * Returns the picture's URL.
+ */
+export const saveProfilePicture = async (userId: string, upload: ProfilePictureUpload): Promise<string> => {
+    const key = `${KEY_PREFIX}${crypto.randomBytes(16).toString('hex')}.${IMAGE_TYPES[upload.contentType].extension}`;
+    const url = getProfilePictureUrl(key);
+
+    await getStorageBackend().put(key, upload.data, upload.contentType);
+
+    // Returns the user as it was before, with the key of the picture being replaced
+    const previous = await User.findByIdAndUpdate(userId, { profilePicture: url, profilePictureKey: key })
+        .select('+profilePictureKey');
+
+    if (!previous) {
+        await deleteStoredProfilePicture(key);
+        throw new AppError('User not found', 404);
+    }
+
+    await deleteStoredProfilePicture(previous.profilePictureKey);
+
+    return url;
+};
+
+/**
+ * Remove a user's profile picture. Returns false if they had none.
+ */
+export const removeProfilePicture = async (userId: string): Promise<boolean> => {
+    const previous = await User.findByIdAndUpdate(userId, { $unset: { profilePicture: 1, profilePictureKey: 1 } })
+        .select('+profilePictureKey');
+
+    if (!previous) {
+        throw new AppError('User not found', 404);
+    }
+
+    await deleteStoredProfilePicture(previous.profilePictureKey);
+
+    return !!previous.profilePicture;
+};
+
+/**
+ * Read a stored picture by the file name in its URL, or null if there is none
+ */
+export const getProfilePictureFile = async (fileName: string): Promise<ProfilePictureUpload | null> => {
+    if (!FILE_NAME_PATTERN.test(fileName)) {
+        return null;
+    }
+
+    const data = await getStorageBackend().get(`${KEY_PREFIX}${fileName}`);
+    if (!data) {
+        return null;
+    }
+
+    const extension = fileName.split('.').pop();
+    const contentType = Object.keys(IMAGE_TYPES).find(type => IMAGE_TYPES[type].extension === extension)!;
+
+    return { data, contentType };
+};
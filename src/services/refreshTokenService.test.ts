@@ -0,0 +1,155 @@
+import RefreshToken from '../models/RefreshToken';
+import User from '../models/User';
+import { AppError } from '../utils/AppError';
+import { hashToken } from '../utils/crypto.utils';
+import { generateRefreshToken } from '../utils/jwt.utils';
+import { RefreshTokenReuseError, rotateRefreshToken } from './refreshTokenService';
+
+jest.mock('../models/RefreshToken', () => ({
+    __esModule: true,
+    default: {
+        create: jest.fn(),
+        findOne: jest.fn(),
+        findOneAndUpdate: jest.fn(),
+        updateMany: jest.fn()
+    }
+}));
+
+jest.mock('../models/User', () => ({
+    __esModule: true,
+    default: {
+        findById: jest.fn()
+    }
+}));
+
+const mockedRefreshToken = jest.mocked(RefreshToken);
+const mockedUser = jest.mocked(User);
+
+const USER_ID = '64b7f0c2a1b2c3d4e5f60718';
+const FAMILY = 'family-1';
+const CONTEXT = { ip: '127.0.0.1', userAgent: 'jest' };
+
+interface StoredToken {
+    user: { toString: () => string };
+    family: string;
+    revokedAt?: Date | null;
+    revokedReason?: string;
+    replacedByHash?: string;
+    save: jest.Mock;
+}
+
+const storedToken = (fields: Partial<StoredToken> = {}): StoredToken => ({
+    user: { toString: () => USER_ID },
+    family: FAMILY,
+    save: jest.fn(),
+    ...fields
+});
+
+const activeUser = () => ({ _id: { toString: () => USER_ID }, isActive: true });
+
+describe('rotateRefreshToken', () => {
+    let token: string;
+
+    beforeAll(() => {
+        process.env.JWT_REFRESH_SECRET = 'test-refresh-secret';
+    });
+
+    beforeEach(() => {
+        jest.resetAllMocks();
+        jest.spyOn(console, 'warn').mockImplementation(() => undefined);
+        token = generateRefreshToken({ id: USER_ID, family: FAMILY });
+    });
+
+    afterEach(() => {
+        jest.restoreAllMocks();
+    });
+
+    it('rejects tokens that are not valid refresh tokens without a lookup', async () => {
+        await expect(rotateRefreshToken('not-a-token', CONTEXT)).rejects.toThrow('Invalid refresh token');
+        expect(mockedRefreshToken.findOneAndUpdate).not.toHaveBeenCalled();
+    });
+
+    it('marks the token rotated and issues a new one in the same family', async () => {
+        const current = storedToken();
+        mockedRefreshToken.findOneAndUpdate.mockResolvedValue(current as never);
+        mockedUser.findById.mockResolvedValue(activeUser() as never);
+
+        const result = await rotateRefreshToken(token, CONTEXT);
+
+        expect(mockedRefreshToken.findOneAndUpdate).toHaveBeenCalledWith(
+            { tokenHash: hashToken(token), revokedAt: null, expiresAt: { $gt: expect.any(Date) } },
+            { revokedAt: expect.any(Date), revokedReason: 'rotated' }
+        );
+        expect(result.family).toBe(FAMILY);
+        expect(result.refreshToken).not.toBe(token);
+        expect(mockedRefreshToken.create).toHaveBeenCalledWith(expect.objectContaining({
+            user: USER_ID,
+            family: FAMILY,
+            tokenHash: hashToken(result.refreshToken)
+        }));
+        expect(current.replacedByHash).toBe(hashToken(result.refreshToken));
+        expect(current.save).toHaveBeenCalled();
+    });
+
+    it('revokes the whole family when a rotated token is presented again', async () => {
+        mockedRefreshToken.findOneAndUpdate.mockResolvedValue(null as never);
+        mockedRefreshToken.findOne.mockResolvedValue(
+            storedToken({ revokedAt: new Date(), revokedReason: 'rotated' }) as never
+        );
+
+        const rotation = rotateRefreshToken(token, CONTEXT);
+
+        await expect(rotation).rejects.toBeInstanceOf(RefreshTokenReuseError);
+        await expect(rotation).rejects.toMatchObject({ family: FAMILY, userId: USER_ID, statusCode: 401 });
+        expect(mockedRefreshToken.updateMany).toHaveBeenCalledWith(
+            { family: FAMILY, revokedAt: null },
+            { revokedAt: expect.any(Date), revokedReason: 'reuse-detected' }
+        );
+    });
+
+    it.each(['logout', 'session-revoked', 'password-reset'])(
+        'rejects a token revoked for %s without revoking its family',
+        async (reason) => {
+            mockedRefreshToken.findOneAndUpdate.mockResolvedValue(null as never);
+            mockedRefreshToken.findOne.mockResolvedValue(
+                storedToken({ revokedAt: new Date(), revokedReason: reason }) as never
+            );
+
+            const rotation = rotateRefreshToken(token, CONTEXT);
+
+            await expect(rotation).rejects.not.toBeInstanceOf(RefreshTokenReuseError);
+            await expect(rotation).rejects.toThrow('Invalid refresh token');
+            expect(mockedRefreshToken.updateMany).not.toHaveBeenCalled();
+        }
+    );
+
+    it('rejects an expired token that was never revoked', async () => {
+        mockedRefreshToken.findOneAndUpdate.mockResolvedValue(null as never);
+        mockedRefreshToken.findOne.mockResolvedValue(storedToken({ revokedAt: null }) as never);
+
+        await expect(rotateRefreshToken(token, CONTEXT)).rejects.toThrow('Refresh token expired');
+        expect(mockedRefreshToken.updateMany).not.toHaveBeenCalled();
+    });
+
+    it('rejects an unknown token', async () => {
+        mockedRefreshToken.findOneAndUpdate.mockResolvedValue(null as never);
+        mockedRefreshToken.findOne.mockResolvedValue(null as never);
+
+        const rotation = rotateRefreshToken(token, CONTEXT);
+
+        await expect(rotation).rejects.toBeInstanceOf(AppError);
+        await expect(rotation).rejects.toThrow('Invalid refresh token');
+    });
+
+    it('revokes the family of an inactive user', async () => {
+        mockedRefreshToken.findOneAndUpdate.mockResolvedValue(storedToken() as never);
+        mockedUser.findById.mockResolvedValue({ ...activeUser(), isActive: false } as never);
+
+        await expect(rotateRefreshToken(token, CONTEXT)).rejects.toThrow('User not found or inactive');
+        expect(mockedRefreshToken.updateMany).toHaveBeenCalledWith(
+            { family: FAMILY, revokedAt: null },
+            { revokedAt: expect.any(Date), revokedReason: 'user-unavailable' }
+        );
+        expect(mockedRefreshToken.create).not.toHaveBeenCalled();
+    });
+});
@@ -0,0 +1,129 @@
+import { Request } from 'express';
+import RefreshToken from '../models/RefreshToken';
+import User, { IUser } from '../models/User';
+import { generateRefreshToken, verifyRefreshToken, decodeToken } from '../utils/jwt.utils';
+import { AppError } from '../utils/AppError';
+import { hashToken } from '../utils/crypto.utils';
+
+export interface ClientContext {
+    ip?: string;
+    userAgent?: string;
+}
+
+export interface IssuedRefreshToken {
+    token: string;
+    expiresAt: Date;
+}
+
+export interface RotationResult {
+    user: IUser;
+    refreshToken: string;
+    family: string;
+    expiresAt: Date;
+}
+
+/**
+ * Raised when an already-rotated refresh token is presented again
+ */
+export class RefreshTokenReuseError extends AppError {
+    public family: string;
+    public userId: string;
+
+    constructor(family: string, userId: string) {
+        super('Refresh token reuse detected. Please log in again.', 401);
+        this.family = family;
+        this.userId = userId;
+    }
+}
+
+/**
+ * Capture the client details recorded alongside issued tokens
+ */
+export const getClientContext = (req: Request): ClientContext => ({
+    ip: req.ip,
+    userAgent: req.get('user-agent')
+});
+
+/**
+ * Sign a refresh token for a family (session) and persist its hash
+ */
+export const issueRefreshToken = async (
+    userId: string,
+    context: ClientContext,
+    family: string
+): Promise<IssuedRefreshToken> => {
+    const token = generateRefreshToken({ id: userId, family });
+    const { exp } = decodeToken(token) as { exp: number };
+    const expiresAt = new Date(exp * 1000);
+
+    await RefreshToken.create({
+        user: userId,
+        tokenHash: hashToken(token),
+        family,
+        expiresAt,
+        createdByIp: context.ip,
+        userAgent: context.userAgent
+    });
+
+    return { token, expiresAt };
+};
+
+/**
+ * Revoke every live token of a family
+ */
+export const revokeTokenFamily = async (family: string, reason: string): Promise<void> => {
+    await RefreshToken.updateMany(
+        { family, revokedAt: null },
+        { revokedAt: new Date(), revokedReason: reason }
+    );
+};
+
+/**
+ * Exchange a refresh token for a new one in the same family.
+ *
+ * The presented token is revoked atomically, so it can be used exactly once.
+ * Presenting a token that was already rotated means two parties hold the same
+ * family; we cannot tell which one is legitimate, so the whole family is revoked.
+ * Tokens revoked for any other reason (logout, session revocation, password
+ * reset) or expired are simply rejected.
+ */
+export const rotateRefreshToken = async (token: string, context: ClientContext): Promise<RotationResult> => {
+    try {
+        verifyRefreshToken(token);
+    } catch (error) {
+        throw new AppError('Invalid refresh token', 401);
+    }
+
+    const tokenHash = hashToken(token);
+    const current = await RefreshToken.findOneAndUpdate(
+        { tokenHash, revokedAt: null, expiresAt: { $gt: new Date() } },
+        { revokedAt: new Date(), revokedReason: 'rotated' }
+    );
+
+    if (!current) {
+        const known = await RefreshToken.findOne({ tokenHash });
+        if (known?.revokedReason === 'rotated') {
+            await revokeTokenFamily(known.family, 'reuse-detected');
+            console.warn(
+                `Refresh token reuse detected for user ${known.user} (family ${known.family}); possible token theft, family revoked`
+            );
+            throw new RefreshTokenReuseError(known.family, known.user.toString());
+        }
+        if (known && !known.revokedAt) {
+            throw new AppError('Refresh token expired', 401);
+        }
+        throw new AppError('Invalid refresh token', 401);
+    }
+
+    const user = await User.findById(current.user);
+    if (!user || !user.isActive) {
+        await revokeTokenFamily(current.family, 'user-unavailable');
+        throw new AppError('User not found or inactive', 401);
+    }
+
+    const { token: refreshToken, expiresAt } = await issueRefreshToken(user._id.toString(), context, current.family);
+    current.replacedByHash = hashToken(refreshToken);
+    await current.save();
+
+    return { user, refreshToken, family: current.family, expiresAt };
+};
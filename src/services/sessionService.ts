@@ -0,0 +1,202 @@
+import { Request } from 'express';
+import mongoose, { FilterQuery } from 'mongoose';
+import Session, { ISession } from '../models/Session';
+import RefreshToken from '../models/RefreshToken';
+import { IUser } from '../models/User';
+import { generateToken } from '../utils/jwt.utils';
+import { AppError } from '../utils/AppError';
+import { describeDevice } from '../utils/device.utils';
+import {
+    getClientContext,
+    issueRefreshToken,
+    revokeTokenFamily,
+    rotateRefreshToken,
+    RefreshTokenReuseError,
+    RotationResult
+} from './refreshTokenService';
+import { recordAuditEvent } from './auditService';
+
+export interface SessionTokens {
+    accessToken: string;
+    refreshToken: string;
+    expiresIn: string;
+}
+
+/**
+ * Sign an access token bound to a session
+ */
+const generateSessionAccessToken = (user: IUser, sessionId: string): string => {
+    return generateToken({
+        id: user._id.toString(),
+        email: user.email,
+        role: user.role,
+        sid: sessionId,
+        ver: user.tokenVersion ?? 0
+    });
+};
+
+/**
+ * Start a new session for a user who just authenticated and issue its tokens
+ */
+export const startSession = async (user: IUser, req: Request, deviceName?: string): Promise<SessionTokens> => {
+    const context = getClientContext(req);
+    const session = new Session({
+        user: user._id,
+        device: deviceName || describeDevice(context.userAgent),
+        ip: context.ip,
+        userAgent: context.userAgent
+    });
+
+    const { token: refreshToken, expiresAt } = await issueRefreshToken(user._id.toString(), context, session.id);
+    session.expiresAt = expiresAt;
+    await session.save();
+
+    return {
+        accessToken: generateSessionAccessToken(user, session.id),
+        refreshToken,
+        expiresIn: process.env.JWT_EXPIRES_IN || '7d'
+    };
+};
+
+/**
+ * Rotate a session's refresh token and issue a new access token for it
+ */
+export const refreshSession = async (token: string, req: Request): Promise<SessionTokens> => {
+    const context = getClientContext(req);
+
+    let rotation: RotationResult;
+    try {
+        rotation = await rotateRefreshToken(token, context);
+    } catch (error) {
+        // The token family was compromised, so the session it belongs to is too
+        if (error instanceof RefreshTokenReuseError) {
+            await Session.updateOne(
+                { _id: toObjectId(error.family), revokedAt: null },
+                { revokedAt: new Date(), revokedReason: 'reuse-detected' }
+            );
+            await recordAuditEvent(req, {
+                action: 'auth.refresh-token-reuse',
+                actor: null,
+                target: error.userId,
+                metadata: { sessionId: error.family }
+            });
+        }
+        throw error;
+    }
+
+    const { user, refreshToken, family, expiresAt } = rotation;
+
+    const session = await Session.findOneAndUpdate(
+        { _id: toObjectId(family), revokedAt: null },
+        {
+            lastUsedAt: new Date(),
+            ip: context.ip,
+            userAgent: context.userAgent,
+            expiresAt
+        },
+        { new: true }
+    );
+
+    if (!session) {
+        await revokeTokenFamily(family, 'session-ended');
+        throw new AppError('Session has ended. Please log in again.', 401);
+    }
+
+    return {
+        accessToken: generateSessionAccessToken(user, session.id),
+        refreshToken,
+        expiresIn: process.env.JWT_EXPIRES_IN || '7d'
+    };
+};
+
+/**
+ * Check whether a session exists and has not been revoked or expired
+ */
+export const isSessionActive = async (sessionId: string): Promise<boolean> => {
+    const id = toObjectId(sessionId);
+    if (!id) {
+        return false;
+    }
+
+    const session = await Session.exists({ _id: id, revokedAt: null, expiresAt: { $gt: new Date() } });
+    return session !== null;
+};
+
+/**
+ * List the active sessions of a user, most recently used first
+ */
+export const listActiveSessions = async (userId: string): Promise<ISession[]> => {
+    return Session.find({ user: userId, revokedAt: null, expiresAt: { $gt: new Date() } })
+        .sort({ lastUsedAt: -1 });
+};
+
+/**
+ * Revoke one session of a user along with its refresh tokens.
+ * Returns false if the user has no such active session.
+ */
+export const revokeSession = async (userId: string, sessionId: string, reason: string): Promise<boolean> => {
+    const id = toObjectId(sessionId);
+    if (!id) {
+        return false;
+    }
+
+    const session = await Session.findOneAndUpdate(
+        { _id: id, user: userId, revokedAt: null },
+        { revokedAt: new Date(), revokedReason: reason }
+    );
+
+    if (!session) {
+        return false;
+    }
+
+    await revokeTokenFamily(session.id, reason);
+    return true;
+};
+
+/**
+ * Revoke all sessions of a user, optionally keeping one (usually the caller's).
+ * Returns the number of sessions revoked.
+ */
+export const revokeAllSessions = async (userId: string, reason: string, exceptSessionId?: string): Promise<number> => {
+    const filter: FilterQuery<ISession> = { user: userId, revokedAt: null };
+    if (exceptSessionId) {
+        filter._id = { $ne: toObjectId(exceptSessionId) };
+    }
+
+    const sessions = await Session.find(filter).select('_id');
+    if (sessions.length === 0) {
+        return 0;
+    }
+
+    const families = sessions.map(session => session.id as string);
+    await Promise.all([
+        Session.updateMany(
+            { _id: { $in: sessions.map(session => session._id) } },
+            { revokedAt: new Date(), revokedReason: reason }
+        ),
+        RefreshToken.updateMany(
+            { family: { $in: families }, revokedAt: null },
+            { revokedAt: new Date(), revokedReason: reason }
+        )
+    ]);
+
+    return sessions.length;
+};
+
+/**
+ * Shape a session for API responses
+ */
+export const toSessionResponse = (session: ISession, currentSessionId?: string) => ({
+    id: session._id,
+    device: session.device,
+    ip: session.ip,
+    userAgent: session.userAgent,
+    createdAt: session.createdAt,
+    lastUsedAt: session.lastUsedAt,
+    expiresAt: session.expiresAt,
+    current: session.id === currentSessionId
+});
+
+const toObjectId = (id: string): mongoose.Types.ObjectId | null => {
+    return mongoose.isValidObjectId(id) ? new mongoose.Types.ObjectId(id) : null;
+};
@@ -0,0 +1,229 @@
+import crypto from 'crypto';
+import fs from 'fs/promises';
+import path from 'path';
+
+/**
+ * A storage backend keeps files (such as profile pictures) under string keys
+ */
+export interface StorageBackend {
+    put(key: string, data: Buffer, contentType: string): Promise<void>;
+    /** Resolves to null if there is no file under the key */
+    get(key: string): Promise<Buffer | null>;
+    /** Deleting a missing file is not an error */
+    delete(key: string): Promise<void>;
+    /** URL the file can be fetched from directly, or null if the API has to serve it */
+    getPublicUrl(key: string): string | null;
+}
+
+/**
+ * Stores files in a directory on the local filesystem (default)
+ */
+export class LocalStorageBackend implements StorageBackend {
+    constructor(private directory: string) { }
+
+    private resolve(key: string): string {
+        const root = path.resolve(this.directory);
+        const filePath = path.resolve(root, key);
+
+        // Keys must not escape the storage directory
+        if (!filePath.startsWith(`${root}${path.sep}`)) {
+            throw new Error(`Invalid storage key: ${key}`);
+        }
+
+        return filePath;
+    }
+
+    async put(key: string, data: Buffer): Promise<void> {
+        const filePath = this.resolve(key);
+        await fs.mkdir(path.dirname(filePath), { recursive: true });
+        await fs.writeFile(filePath, data);
+    }
+
+    async get(key: string): Promise<Buffer | null> {
+        try {
+            return await fs.readFile(this.resolve(key));
+        } catch (error) {
+            if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+                return null;
+            }
+            throw error;
+        }
+    }
+
+    async delete(key: string): Promise<void> {
+        await fs.rm(this.resolve(key), { force: true });
+    }
+
+    getPublicUrl(): string | null {
+        return null;
+    }
+}
+
+export interface S3StorageConfig {
+    /** e.g. https://s3.eu-west-1.amazonaws.com, or a local S3-compatible server */
+    endpoint: string;
+    region: string;
+    bucket: string;
+    accessKeyId: string;
+    secretAccessKey: string;
+    /** Base URL the bucket's files are publicly readable from, if any */
+    publicUrl?: string;
+}
+
+const sha256Hex = (data: string | Buffer): string => {
+    return crypto.createHash('sha256').update(data).digest('hex');
+};
+
+const hmac = (key: string | Buffer, data: string): Buffer => {
+    return crypto.createHmac('sha256', key).update(data).digest();
+};
+
+/**
+ * Percent-encode a key for use in a URL path (RFC 3986, as S3 expects), keeping its slashes
+ */
+const encodeKey = (key: string): string => {
+    const encodeSegment = (segment: string): string => {
+        return encodeURIComponent(segment).replace(/[!'()*]/g, c => `%${c.charCodeAt(0).toString(16).toUpperCase()}`);
+    };
+
+    return key.split('/').map(encodeSegment).join('/');
+};
+
+/**
+ * Stores files in an S3 bucket, or any server speaking the S3 API. Requests
+ * are signed with AWS Signature Version 4 and use path-style URLs
+ * (endpoint/bucket/key), which S3-compatible servers support too.
+ */
+export class S3StorageBackend implements StorageBackend {
+    constructor(private config: S3StorageConfig) { }
+
+    /**
+     * Build the Authorization header for a request (AWS Signature Version 4)
+     */
+    private sign(
+        method: string,
+        url: URL,
+        headers: Record<string, string>,
+        payloadHash: string,
+        amzDate: string
+    ): string {
+        const date = amzDate.slice(0, 8);
+        const scope = `${date}/${this.config.region}/s3/aws4_request`;
+
+        const values = Object.fromEntries(
+            Object.entries(headers).map(([name, value]) => [name.toLowerCase(), value.trim()])
+        );
+        const names = Object.keys(values).sort();
+        const signedHeaders = names.join(';');
+
+        const canonicalRequest = [
+            method,
+            url.pathname,
+            url.search.slice(1),
+            names.map(name => `${name}:${values[name]}\n`).join(''),
+            signedHeaders,
+            payloadHash
+        ].join('\n');
+
+        const stringToSign = ['AWS4-HMAC-SHA256', amzDate, scope, sha256Hex(canonicalRequest)].join('\n');
+
+        const signingKey = ['s3', 'aws4_request'].reduce(
+            (key, part) => hmac(key, part),
+            hmac(hmac(`AWS4${this.config.secretAccessKey}`, date), this.config.region)
+        );
+        const signature = hmac(signingKey, stringToSign).toString('hex');
+
+        return `AWS4-HMAC-SHA256 Credential=${this.config.accessKeyId}/${scope}, ` +
+            `SignedHeaders=${signedHeaders}, Signature=${signature}`;
+    }
+
+    private async request(method: string, key: string, body?: Buffer, contentType?: string): Promise<Response> {
+        const url = new URL(`${this.config.endpoint.replace(/\/$/, '')}/${this.config.bucket}/${encodeKey(key)}`);
+        const payloadHash = sha256Hex(body ?? '');
+        const amzDate = new Date().toISOString().replace(/[-:]/g, '').replace(/\.\d{3}/, '');
+
+        const headers: Record<string, string> = {
+            'x-amz-content-sha256': payloadHash,
+            'x-amz-date': amzDate,
+            ...(contentType && { 'content-type': contentType })
+        };
+
+        // fetch sends the Host header itself, but it is part of the signature
+        const authorization = this.sign(method, url, { host: url.host, ...headers }, payloadHash, amzDate);
+
+        return fetch(url, { method, headers: { ...headers, authorization }, body });
+    }
+
+    async put(key: string, data: Buffer, contentType: string): Promise<void> {
+        const response = await this.request('PUT', key, data, contentType);
+        if (!response.ok) {
+            throw new Error(`S3 upload of ${key} failed with status ${response.status}`);
+        }
+    }
+
+    async get(key: string): Promise<Buffer | null> {
+        const response = await this.request('GET', key);
+        if (response.status === 404) {
+            return null;
+        }
+        if (!response.ok) {
+            throw new Error(`S3 download of ${key} failed with status ${response.status}`);
+        }
+
+        return Buffer.from(await response.arrayBuffer());
+    }
+
+    async delete(key: string): Promise<void> {
+        const response = await this.request('DELETE', key);
+        if (!response.ok && response.status !== 404) {
+            throw new Error(`S3 deletion of ${key} failed with status ${response.status}`);
+        }
+    }
+
+    getPublicUrl(key: string): string | null {
+        return this.config.publicUrl ? `${this.config.publicUrl.replace(/\/$/, '')}/${encodeKey(key)}` : null;
+    }
+}
+
+/**
+ * Read the S3 backend's settings from S3_* environment variables
+ */
+const getS3Config = (): S3StorageConfig => {
+    const { S3_BUCKET, S3_ACCESS_KEY_ID, S3_SECRET_ACCESS_KEY } = process.env;
+    if (!S3_BUCKET || !S3_ACCESS_KEY_ID || !S3_SECRET_ACCESS_KEY) {
+        throw new Error('S3_BUCKET, S3_ACCESS_KEY_ID and S3_SECRET_ACCESS_KEY are required for S3 storage');
+    }
+
+    const region = process.env.S3_REGION || 'us-east-1';
+
+    return {
+        endpoint: process.env.S3_ENDPOINT || `https://s3.${region}.amazonaws.com`,
+        region,
+        bucket: S3_BUCKET,
+        accessKeyId: S3_ACCESS_KEY_ID,
+        secretAccessKey: S3_SECRET_ACCESS_KEY,
+        publicUrl: process.env.S3_PUBLIC_URL
+    };
+};
+
+let backend: StorageBackend | null = null;
+
+/**
+ * Replace the storage backend
+ */
+export const setStorageBackend = (storageBackend: StorageBackend): void => {
+    backend = storageBackend;
+};
+
+/**
+ * Get the configured backend, creating it from STORAGE_BACKEND on first use
+ */
+export const getStorageBackend = (): StorageBackend => {
+    if (!backend) {
+        backend = process.env.STORAGE_BACKEND === 's3'
+            ? new S3StorageBackend(getS3Config())
+            : new LocalStorageBackend(process.env.STORAGE_DIR || path.join(process.cwd(), 'uploads'));
+    }
+
+    return backend;
+};
@@ -0,0 +1,26 @@
+import RevokedToken from '../models/RevokedToken';
+
+/**
+ * Add an access token to the revocation store until it expires.
+ * Revoking the same token twice is a no-op.
+ */
+export const revokeAccessToken = async (
+    jti: string,
+    expiresAt: Date,
+    userId?: string,
+    reason?: string
+): Promise<void> => {
+    await RevokedToken.updateOne(
+        { jti },
+        { $setOnInsert: { jti, expiresAt, user: userId, reason } },
+        { upsert: true }
+    );
+};
+
+/**
+ * Check whether an access token has been revoked
+ */
+export const isAccessTokenRevoked = async (jti: string): Promise<boolean> => {
+    const entry = await RevokedToken.exists({ jti });
+    return entry !== null;
+};
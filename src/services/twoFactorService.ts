@@ -0,0 +1,235 @@
+import crypto from 'crypto';
+import Setting from '../models/Setting';
+import User, { IUser } from '../models/User';
+import { AppError } from '../utils/AppError';
+import { hashToken } from '../utils/crypto.utils';
+import { generateChallengeToken } from '../utils/jwt.utils';
+import {
+    base32Encode,
+    buildOtpauthUri,
+    generateTotpSecret,
+    verifyTotp
+} from '../utils/totp.utils';
+
+const REQUIRED_ROLES_SETTING = 'twoFactor.requiredRoles';
+const RECOVERY_CODE_COUNT = 10;
+
+export interface LoginChallenge {
+    purpose: 'verify' | 'enroll';
+    challengeToken: string;
+    expiresIn: string;
+}
+
+export interface SecondFactor {
+    code?: string;
+    recoveryCode?: string;
+}
+
+/**
+ * Roles whose members must use two-factor authentication.
+ * Stored as a setting; falls back to TWO_FACTOR_REQUIRED_ROLES (default admin,moderator).
+ */
+export const getRequiredRoles = async (): Promise<string[]> => {
+    const setting = await Setting.findOne({ key: REQUIRED_ROLES_SETTING });
+    if (setting && Array.isArray(setting.value)) {
+        return setting.value.filter((role): role is string => typeof role === 'string');
+    }
+
+    return (process.env.TWO_FACTOR_REQUIRED_ROLES ?? 'admin,moderator')
+        .split(',')
+        .map(role => role.trim())
+        .filter(Boolean);
+};
+
+/**
+ * Replace the set of roles that require two-factor authentication
+ */
+export const setRequiredRoles = async (roles: string[], updatedBy: string): Promise<string[]> => {
+    const unique = [...new Set(roles)];
+    await Setting.findOneAndUpdate(
+        { key: REQUIRED_ROLES_SETTING },
+        { value: unique, updatedBy },
+        { upsert: true }
+    );
+
+    return unique;
+};
+
+/**
+ * Check whether a role requires two-factor authentication
+ */
+export const isTwoFactorRequired = async (role: string): Promise<boolean> => {
+    const roles = await getRequiredRoles();
+    return roles.includes(role);
+};
+
+/**
+ * Decide whether a user who passed the first factor still owes a second one.
+ * Returns a challenge to verify a code, a challenge to enroll first (when their
+ * role requires 2FA but they have not set it up), or null if tokens may be issued.
+ */
+export const getLoginChallenge = async (user: IUser): Promise<LoginChallenge | null> => {
+    let purpose: LoginChallenge['purpose'] | null = null;
+
+    if (user.twoFactor?.enabled) {
+        purpose = 'verify';
+    } else if (await isTwoFactorRequired(user.role)) {
+        purpose = 'enroll';
+    }
+
+    if (!purpose) {
+        return null;
+    }
+
+    return {
+        purpose,
+        challengeToken: generateChallengeToken({ id: user._id.toString(), purpose }),
+        expiresIn: process.env.TWO_FACTOR_CHALLENGE_EXPIRES_IN || '5m'
+    };
+};
+
+/**
+ * Start enrollment by generating a pending secret.
+ * The secret only becomes active once a code generated from it is confirmed.
+ */
+export const beginEnrollment = async (user: IUser): Promise<{ secret: string; otpauthUri: string }> => {
+    if (user.twoFactor?.enabled) {
+        throw new AppError('Two-factor authentication is already enabled', 409);
+    }
+
+    const secret = generateTotpSecret();
+    await User.updateOne({ _id: user._id }, { 'twoFactor.pendingSecret': secret });
+
+    return {
+        secret,
+        otpauthUri: buildOtpauthUri(secret, user.email, process.env.TWO_FACTOR_ISSUER || 'User Management API')
+    };
+};
+
+/**
+ * Confirm enrollment with the first code and enable two-factor authentication.
+ * Returns the plain recovery codes; they are not retrievable afterwards.
+ */
+export const confirmEnrollment = async (userId: string, code: string): Promise<string[]> => {
+    const user = await User.findById(userId).select('+twoFactor.pendingSecret');
+    if (!user) {
+        throw new AppError('User not found', 404);
+    }
+
+    if (user.twoFactor?.enabled) {
+        throw new AppError('Two-factor authentication is already enabled', 409);
+    }
+
+    const pendingSecret = user.twoFactor?.pendingSecret;
+    if (!pendingSecret) {
+        throw new AppError('Two-factor setup has not been started', 400);
+    }
+
+    const step = verifyTotp(pendingSecret, code);
+    if (step === null) {
+        throw new AppError('Invalid verification code', 400);
+    }
+
+    const recoveryCodes = generateRecoveryCodes();
+    await User.updateOne(
+        { _id: user._id },
+        {
+            $set: {
+                'twoFactor.enabled': true,
+                'twoFactor.secret': pendingSecret,
+                'twoFactor.recoveryCodes': recoveryCodes.map(hashRecoveryCode),
+                'twoFactor.lastUsedStep': step,
+                'twoFactor.enabledAt': new Date()
+            },
+            $unset: { 'twoFactor.pendingSecret': 1 }
+        }
+    );
+
+    return recoveryCodes;
+};
+
+/**
+ * Check a TOTP code or a one-time recovery code for a user with 2FA enabled.
+ * A TOTP code is accepted once; a recovery code is consumed.
+ */
+export const verifySecondFactor = async (userId: string, factor: SecondFactor): Promise<boolean> => {
+    const user = await User.findById(userId)
+        .select('+twoFactor.secret +twoFactor.recoveryCodes +twoFactor.lastUsedStep');
+
+    if (!user || !user.twoFactor?.enabled || !user.twoFactor.secret) {
+        return false;
+    }
+
+    if (factor.code) {
+        const step = verifyTotp(user.twoFactor.secret, factor.code);
+        if (step === null || step <= (user.twoFactor.lastUsedStep ?? -1)) {
+            return false;
+        }
+
+        // Only advance the step if nobody used this code concurrently
+        const result = await User.updateOne(
+            {
+                _id: user._id,
+                $or: [
+                    { 'twoFactor.lastUsedStep': { $lt: step } },
+                    { 'twoFactor.lastUsedStep': { $exists: false } }
+                ]
+            },
+            { 'twoFactor.lastUsedStep': step }
+        );
+        return result.modifiedCount === 1;
+    }
+
+    if (factor.recoveryCode) {
+        const result = await User.updateOne(
+            { _id: user._id, 'twoFactor.recoveryCodes': hashRecoveryCode(factor.recoveryCode) },
+            { $pull: { 'twoFactor.recoveryCodes': hashRecoveryCode(factor.recoveryCode) } }
+        );
+        return result.modifiedCount === 1;
+    }
+
+    return false;
+};
+
+/**
+ * Replace all recovery codes with a new set
+ */
+export const regenerateRecoveryCodes = async (userId: string): Promise<string[]> => {
+    const recoveryCodes = generateRecoveryCodes();
+    await User.updateOne(
+        { _id: userId },
+        { 'twoFactor.recoveryCodes': recoveryCodes.map(hashRecoveryCode) }
+    );
+
+    return recoveryCodes;
+};
+
+/**
+ * Turn two-factor authentication off and forget the secret and recovery codes
+ */
+export const disableTwoFactor = async (userId: string): Promise<void> => {
+    await User.updateOne(
+        { _id: userId },
+        {
+            $set: { 'twoFactor.enabled': false },
+            $unset: {
+                'twoFactor.secret': 1,
+                'twoFactor.pendingSecret': 1,
+                'twoFactor.recoveryCodes': 1,
+                'twoFactor.lastUsedStep': 1,
+                'twoFactor.enabledAt': 1
+            }
+        }
+    );
+};
+
+const generateRecoveryCodes = (): string[] => {
+    return Array.from({ length: RECOVERY_CODE_COUNT }, () => {
+        const code = base32Encode(crypto.randomBytes(5));
+        return `${code.slice(0, 4)}-${code.slice(4)}`;
+    });
+};
+
+const hashRecoveryCode = (code: string): string => {
+    return hashToken(code.toUpperCase().replace(/[\s-]/g, ''));
+};
@@ -0,0 +1,137 @@
+import User, { IUser } from '../models/User';
+import Session from '../models/Session';
+import RefreshToken from '../models/RefreshToken';
+import UserToken from '../models/UserToken';
+import ApiKey from '../models/ApiKey';
+import ExternalIdentity from '../models/ExternalIdentity';
+import OidcState from '../models/OidcState';
+import OAuthConsent from '../models/OAuthConsent';
+import OAuthAuthorizationCode from '../models/OAuthAuthorizationCode';
+import DataExport from '../models/DataExport';
+import Invitation from '../models/Invitation';
+import { clearAccountLock } from './loginAttemptService';
+import { invalidateUserState } from './userStateService';
+import { deleteStoredProfilePicture } from './profilePictureService';
+
+/**
+ * User fields replaced with placeholders when an account is anonymized. They
+ * are required (and email and username unique), so they cannot simply be removed.
+ */
+export const ANONYMIZED_USER_FIELDS = ['email', 'username', 'firstName', 'lastName'] as const;
+
+/**
+ * User fields removed when an account is anonymized. The password hash and
+ * two-factor secrets go too; the id, role, status and timestamps are kept.
+ */
+export const REMOVED_USER_FIELDS = [
+    'password',
+    'profilePicture',
+    'profilePictureKey',
+    'bio',
+    'phoneNumber',
+    'dateOfBirth',
+    'address',
+    'lastLogin'
+] as const;
+
+/**
+ * Placeholder replacing a deleted user's email address
+ */
+const getDeletedEmail = (userId: string): string => `deleted-${userId}@deleted.invalid`;
+
+/**
+ * Replace the user's email address in invitations sent to it or accepted by
+ * them, and revoke the ones still pending. The invitations themselves are kept
+ * as a record of who invited whom.
+ */
+const scrubInvitations = async (userId: string, email: string): Promise<void> => {
+    const deletedEmail = getDeletedEmail(userId);
+
+    await Invitation.updateMany({ $or: [{ email }, { acceptedBy: userId }] }, { email: deletedEmail });
+    await Invitation.updateMany(
+        { email: deletedEmail, acceptedAt: null, revokedAt: null },
+        { revokedAt: new Date() }
+    );
+};
+
+/**
+ * Delete everything that belongs to a user apart from the user document itself,
+ * including their uploaded profile picture, and scrub their email address from
+ * invitations. Takes the user as it was before deletion or anonymization.
+ */
+const deleteUserRecords = async (
+    userId: string,
+    user: Pick<IUser, 'email' | 'profilePictureKey'>
+): Promise<void> => {
+    await Promise.all([
+        Session.deleteMany({ user: userId }),
+        RefreshToken.deleteMany({ user: userId }),
+        UserToken.deleteMany({ user: userId }),
+        ApiKey.deleteMany({ user: userId }),
+        ExternalIdentity.deleteMany({ user: userId }),
+        OidcState.deleteMany({ user: userId }),
+        OAuthConsent.deleteMany({ user: userId }),
+        OAuthAuthorizationCode.deleteMany({ user: userId }),
+        DataExport.deleteMany({ user: userId }),
+        clearAccountLock(userId),
+        scrubInvitations(userId, user.email),
+        deleteStoredProfilePicture(user.profilePictureKey)
+    ]);
+};
+
+/**
+ * Permanently delete a user and everything that belongs to them. Audit events
+ * and invitations keep referring to the user's id as a record of what happened.
+ * Outstanding access tokens stop working because the user no longer exists.
+ */
+export const purgeUser = async (userId: string): Promise<boolean> => {
+    const user = await User.findById(userId).select('+profilePictureKey');
+    if (!user) {
+        return false;
+    }
+
+    const result = await User.deleteOne({ _id: userId });
+    if (result.deletedCount === 0) {
+        return false;
+    }
+
+    invalidateUserState(userId);
+    await deleteUserRecords(userId, user);
+
+    return true;
+};
+
+/**
+ * Strip a deactivated user of their personal data but keep the account's id,
+ * so that records referring to it stay meaningful. ANONYMIZED_USER_FIELDS get
+ * placeholders, REMOVED_USER_FIELDS are removed, and everything else that
+ * belongs to the user is deleted as in purgeUser. The email and username are
+ * free to be used again afterwards.
+ */
+export const anonymizeUser = async (userId: string): Promise<boolean> => {
+    // Returns the user as it was before, with the key of their profile picture
+    const user = await User.findOneAndUpdate(
+        { _id: userId, isActive: false, anonymizedAt: null },
+        {
+            $set: {
+                email: getDeletedEmail(userId),
+                username: `del_${userId}`,
+                firstName: 'Deleted',
+                lastName: 'User',
+                hasPassword: false,
+                twoFactor: { enabled: false },
+                anonymizedAt: new Date()
+            },
+            $unset: Object.fromEntries(REMOVED_USER_FIELDS.map(field => [field, 1])),
+            $inc: { tokenVersion: 1 }
+        }
+    ).select('+profilePictureKey');
+    if (!user) {
+        return false;
+    }
+
+    invalidateUserState(userId);
+    await deleteUserRecords(userId, user);
+
+    return true;
+};
@@ -0,0 +1,129 @@
+import { Transform, Writable } from 'stream';
+import { pipeline } from 'stream/promises';
+import User from '../models/User';
+import { formatCsvRow } from '../utils/csv.utils';
+import { buildUserQuery, UserFilter } from '../utils/userQueries';
+
+export const EXPORT_FORMATS = ['csv', 'ndjson'] as const;
+
+export type ExportFormat = typeof EXPORT_FORMATS[number];
+
+interface ExportColumn {
+    /** Path of the value in the user document */
+    path: string;
+    /** Personal details that are only exported when explicitly allowed */
+    sensitive?: boolean;
+}
+
+/**
+ * Columns that can be exported. Anything not listed here (passwords,
+ * two-factor secrets, token versions) can never be exported.
+ */
+export const EXPORT_COLUMNS: Record<string, ExportColumn> = {
+    id: { path: '_id' },
+    email: { path: 'email' },
+    username: { path: 'username' },
+    firstName: { path: 'firstName' },
+    lastName: { path: 'lastName' },
+    role: { path: 'role' },
+    isActive: { path: 'isActive' },
+    isEmailVerified: { path: 'isEmailVerified' },
+    twoFactorEnabled: { path: 'twoFactor.enabled' },
+    hasPassword: { path: 'hasPassword' },
+    profilePicture: { path: 'profilePicture' },
+    bio: { path: 'bio' },
+    lastLogin: { path: 'lastLogin' },
+    deletedAt: { path: 'deletedAt' },
+    deletionScheduledFor: { path: 'deletionScheduledFor' },
+    anonymizedAt: { path: 'anonymizedAt' },
+    createdAt: { path: 'createdAt' },
+    updatedAt: { path: 'updatedAt' },
+    phoneNumber: { path: 'phoneNumber', sensitive: true },
+    dateOfBirth: { path: 'dateOfBirth', sensitive: true },
+    'address.street': { path: 'address.street', sensitive: true },
+    'address.city': { path: 'address.city', sensitive: true },
+    'address.state': { path: 'address.state', sensitive: true },
+    'address.country': { path: 'address.country', sensitive: true },
+    'address.zipCode': { path: 'address.zipCode', sensitive: true }
+};
+
+/** Columns exported when none are requested */
+export const DEFAULT_EXPORT_COLUMNS = [
+    'id',
+    'email',
+    'username',
+    'firstName',
+    'lastName',
+    'role',
+    'isActive',
+    'isEmailVerified',
+    'lastLogin',
+    'createdAt'
+];
+
+// Documents fetched from MongoDB per round trip
+const EXPORT_BATCH_SIZE = 500;
+
+export const isSensitiveColumn = (column: string): boolean => {
+    return EXPORT_COLUMNS[column]?.sensitive === true;
+};
+
+/**
+ * Read a column's value from a plain user document
+ */
+const getColumnValue = (user: Record<string, unknown>, column: string): unknown => {
+    const value = EXPORT_COLUMNS[column].path
+        .split('.')
+        .reduce<unknown>(
+            (current, key) => (current == null ? undefined : (current as Record<string, unknown>)[key]),
+            user
+        );
+
+    // ObjectIds are written as their hex string
+    return column === 'id' && value != null ? String(value) : value;
+};
+
+/**
+ * Stream every user matching a filter to a writable (the response) as CSV or
+ * NDJSON. Users are read through a cursor and written as the destination
+ * drains, so memory use does not grow with the number of users. Resolves once
+ * everything was written; rejects if the destination closes early.
+ */
+export const streamUserExport = async (
+    destination: Writable,
+    options: { filter: UserFilter; columns: string[]; format: ExportFormat }
+): Promise<void> => {
+    const { columns, format } = options;
+
+    const cursor = User.find(buildUserQuery(options.filter))
+        .select(columns.map(column => EXPORT_COLUMNS[column].path).join(' '))
+        .sort({ _id: 1 })
+        .lean()
+        .batchSize(EXPORT_BATCH_SIZE)
+        .cursor();
+
+    let headerWritten = false;
+
+    const formatter = new Transform({
+        writableObjectMode: true,
+        transform(user: Record<string, unknown>, _encoding, callback) {
+            const values = columns.map(column => getColumnValue(user, column));
+
+            if (format === 'ndjson') {
+                const record = Object.fromEntries(columns.map((column, index) => [column, values[index] ?? null]));
+                callback(null, `${JSON.stringify(record)}\n`);
+                return;
+            }
+
+            const header = headerWritten ? '' : `${formatCsvRow(columns)}\r\n`;
+            headerWritten = true;
+            callback(null, `${header}${formatCsvRow(values)}\r\n`);
+        },
+        flush(callback) {
+            // An export without users still gets its CSV header
+            callback(null, format === 'csv' && !headerWritten ? `${formatCsvRow(columns)}\r\n` : undefined);
+        }
+    });
+
+    await pipeline(cursor, formatter, destination);
+};
@@ -0,0 +1,290 @@
+import { Request } from 'express';
+import { ValidationChain, validationResult } from 'express-validator';
+import mongoose from 'mongoose';
+import User from '../models/User';
+import { DEFAULT_ROLE } from '../config/roles';
+import { AppError } from '../utils/AppError';
+import { parseCsvRecords } from '../utils/csv.utils';
+import { generateRandomToken } from '../utils/crypto.utils';
+import { getRoleNames } from '../utils/permissions';
+import { getAssignRoleViolation } from '../utils/userPolicies';
+import { validateRegister, validateRegisterWithoutPassword } from '../validators/authValidators';
+import { recordAuditEvent } from './auditService';
+import { sendVerificationEmail } from './emailVerificationService';
+import { sendPasswordSetupEmail } from './passwordResetService';
+
+export type ImportFormat = 'csv' | 'ndjson';
+
+export interface ImportOptions {
+    /** Validate every row without creating anyone */
+    dryRun: boolean;
+    /** Email each user a link to choose a password instead of importing passwords */
+    sendInvites: boolean;
+}
+
+export interface ImportRowError {
+    field?: string;
+    message: string;
+}
+
+export interface ImportRowResult {
+    /** 1-based position of the row in the file, not counting the CSV header or blank lines */
+    row: number;
+    status: 'valid' | 'created' | 'error';
+    email?: string;
+    userId?: string;
+    errors?: ImportRowError[];
+}
+
+export interface ImportReport {
+    dryRun: boolean;
+    total: number;
+    valid: number;
+    created: number;
+    failed: number;
+    results: ImportRowResult[];
+}
+
+/** Largest number of rows accepted in one import */
+export const MAX_IMPORT_ROWS = 1000;
+
+/** Columns read from each row; anything else is ignored */
+const IMPORT_FIELDS = ['email', 'password', 'username', 'firstName', 'lastName', 'phoneNumber', 'role'];
+
+interface ParsedRow {
+    row: number;
+    data: Record<string, unknown>;
+    errors: ImportRowError[];
+}
+
+/**
+ * Keep the importable columns of a row, dropping empty values so that blank
+ * optional cells pass validation
+ */
+const pickImportFields = (record: Record<string, unknown>): Record<string, unknown> => {
+    const data: Record<string, unknown> = {};
+    for (const field of IMPORT_FIELDS) {
+        const value = record[field];
+        if (value !== undefined && value !== null && value !== '') {
+            data[field] = value;
+        }
+    }
+    return data;
+};
+
+/**
+ * Split the uploaded file into rows. Unparseable NDJSON lines become rows with
+ * an error; a malformed CSV file is rejected as a whole.
+ */
+const parseImportFile = (text: string, format: ImportFormat): ParsedRow[] => {
+    if (format === 'csv') {
+        let records: Record<string, string>[];
+        try {
+            records = parseCsvRecords(text);
+        } catch (error) {
+            throw new AppError(`Invalid CSV: ${(error as Error).message}`, 400);
+        }
+
+        return records.map((record, index) => ({ row: index + 1, data: pickImportFields(record), errors: [] }));
+    }
+
+    return text
+        .split(/\r?\n/)
+        .filter(line => line.trim() !== '')
+        .map((line, index) => {
+            let record: unknown;
+            try {
+                record = JSON.parse(line);
+            } catch {
+                record = null;
+            }
+
+            if (!record || typeof record !== 'object' || Array.isArray(record)) {
+                return { row: index + 1, data: {}, errors: [{ message: 'Line is not a JSON object' }] };
+            }
+
+            return { row: index + 1, data: pickImportFields(record as Record<string, unknown>), errors: [] };
+        });
+};
+
+/**
+ * Run the registration rules against a row. Sanitizers (such as email
+ * normalization) are applied to the returned data.
+ */
+const validateRow = async (
+    data: Record<string, unknown>,
+    chains: ValidationChain[]
+): Promise<{ data: Record<string, unknown>; errors: ImportRowError[] }> => {
+    const req = { body: { ...data } };
+    for (const chain of chains) {
+        await chain.run(req);
+    }
+
+    const errors = validationResult(req).array().map(error => ({
+        field: error.type === 'field' ? error.path : undefined,
+        message: error.msg
+    }));
+
+    return { data: req.body, errors };
+};
+
+/**
+ * Validate and (unless dry-running) create users from a CSV or NDJSON file.
+ * Every row is validated with the registration rules, may set a role the
+ * caller can assign, and must not clash with another row or an existing user.
+ * Valid rows are created even when other rows fail.
+ */
+export const runUserImport = async (
+    req: Request,
+    text: string,
+    format: ImportFormat,
+    options: ImportOptions
+): Promise<ImportReport> => {
+    const rows = parseImportFile(text, format);
+
+    if (rows.length === 0) {
+        throw new AppError('The file contains no rows to import', 400);
+    }
+
+    if (rows.length > MAX_IMPORT_ROWS) {
+        throw new AppError(`An import can contain at most ${MAX_IMPORT_ROWS} rows`, 400);
+    }
+
+    // Invited users choose their own password, so none is validated
+    const chains = options.sendInvites ? validateRegisterWithoutPassword : validateRegister;
+    const roles = getRoleNames();
+
+    for (const row of rows) {
+        if (row.errors.length > 0) continue;
+
+        const { data, errors } = await validateRow(row.data, chains);
+        row.data = data;
+        row.errors = errors;
+
+        if (options.sendInvites && data.password !== undefined) {
+            row.errors.push({ field: 'password', message: 'Passwords cannot be imported when sending invites' });
+        }
+
+        if (data.role !== undefined) {
+            const role = String(data.role);
+
+            if (!roles.includes(role)) {
+                row.errors.push({ field: 'role', message: `Invalid role. Must be one of: ${roles.join(', ')}` });
+            } else {
+                const violation = getAssignRoleViolation(req.user!, role);
+                if (violation) row.errors.push({ field: 'role', message: violation });
+            }
+        }
+    }
+
+    // Clashes within the file: the first occurrence wins
+    const seenEmails = new Map<string, number>();
+    const seenUsernames = new Map<string, number>();
+    for (const row of rows) {
+        if (row.errors.length > 0) continue;
+
+        const email = String(row.data.email);
+        const username = String(row.data.username);
+
+        if (seenEmails.has(email)) {
+            row.errors.push({ field: 'email', message: `Duplicate email (same as row ${seenEmails.get(email)})` });
+        }
+        if (seenUsernames.has(username)) {
+            row.errors.push({
+                field: 'username',
+                message: `Duplicate username (same as row ${seenUsernames.get(username)})`
+            });
+        }
+
+        if (!seenEmails.has(email)) seenEmails.set(email, row.row);
+        if (!seenUsernames.has(username)) seenUsernames.set(username, row.row);
+    }
+
+    // Clashes with existing users
+    const existingUsers = await User.find({
+        $or: [{ email: { $in: [...seenEmails.keys()] } }, { username: { $in: [...seenUsernames.keys()] } }]
+    }).select('email username');
+    const existingEmails = new Set(existingUsers.map(user => user.email));
+    const existingUsernames = new Set(existingUsers.map(user => user.username));
+
+    for (const row of rows) {
+        if (row.errors.length > 0) continue;
+
+        if (existingUsernames.has(String(row.data.username))) {
+            row.errors.push({ field: 'username', message: 'User with this username already exists' });
+        }
+        if (existingEmails.has(String(row.data.email))) {
+            row.errors.push({ field: 'email', message: 'User with this email already exists' });
+        }
+    }
+
+    const results: ImportRowResult[] = [];
+
+    for (const row of rows) {
+        const email = row.data.email !== undefined ? String(row.data.email) : undefined;
+
+        if (row.errors.length > 0) {
+            results.push({ row: row.row, status: 'error', email, errors: row.errors });
+            continue;
+        }
+
+        if (options.dryRun) {
+            results.push({ row: row.row, status: 'valid', email });
+            continue;
+        }
+
+        const { password, username, firstName, lastName, phoneNumber, role = DEFAULT_ROLE } = row.data;
+
+        try {
+            const user = await User.create({
+                email,
+                password: options.sendInvites ? generateRandomToken() : password,
+                hasPassword: !options.sendInvites,
+                username,
+                firstName,
+                lastName,
+                phoneNumber,
+                role
+            });
+
+            await recordAuditEvent(req, {
+                action: 'user.create',
+                target: user._id.toString(),
+                after: { email: user.email, username: user.username, role: user.role },
+                metadata: { source: 'import' }
+            });
+
+            // Emails are best-effort; the account exists either way
+            try {
+                if (options.sendInvites) {
+                    await sendPasswordSetupEmail(user);
+                } else {
+                    await sendVerificationEmail(user);
+                }
+            } catch (mailError) {
+                console.error('Imported user email error:', mailError);
+            }
+
+            results.push({ row: row.row, status: 'created', email: user.email, userId: user._id.toString() });
+        } catch (error) {
+            // Most likely a user registered with the same email or username since the checks above
+            console.error('Import user error:', error);
+            const duplicate = error instanceof mongoose.mongo.MongoServerError && error.code === 11000;
+            results.push({
+                row: row.row,
+                status: 'error',
+                email,
+                errors: [{ message: duplicate ? 'User already exists' : 'Failed to create user' }]
+            });
+        }
+    }
+
+    return {
+        dryRun: options.dryRun,
+        total: results.length,
+        valid: results.filter(result => result.status !== 'error').length,
+        created: results.filter(result => result.status === 'created').length,
+        failed: results.filter(result => result.status === 'error').length,
+        results
+    };
+};
@@ -0,0 +1,66 @@
+import User from '../models/User';
+
+export interface UserState {
+    email: string;
+    role: string;
+    isActive: boolean;
+    tokenVersion: number;
+}
+
+interface CachedUserState {
+    state: UserState;
+    expiresAt: number;
+}
+
+const cache = new Map<string, CachedUserState>();
+
+const getCacheTtlMs = (): number => {
+    return parseInt(process.env.USER_STATE_CACHE_TTL_MS || '30000');
+};
+
+// Sweep expired entries once a minute
+setInterval(() => {
+    const now = Date.now();
+    cache.forEach((entry, userId) => {
+        if (entry.expiresAt <= now) cache.delete(userId);
+    });
+}, 60 * 1000).unref();
+
+/**
+ * Get the parts of a user that decide whether their access tokens are still valid.
+ * Cached in memory for USER_STATE_CACHE_TTL_MS (0 disables the cache), which bounds
+ * how long other instances keep accepting tokens after a change.
+ */
+export const getUserState = async (userId: string): Promise<UserState | null> => {
+    const cached = cache.get(userId);
+    if (cached && cached.expiresAt > Date.now()) {
+        return cached.state;
+    }
+
+    const user = await User.findById(userId).select('email role isActive tokenVersion');
+    if (!user) {
+        cache.delete(userId);
+        return null;
+    }
+
+    const state: UserState = {
+        email: user.email,
+        role: user.role,
+        isActive: user.isActive,
+        tokenVersion: user.tokenVersion ?? 0
+    };
+
+    const ttlMs = getCacheTtlMs();
+    if (ttlMs > 0) {
+        cache.set(userId, { state, expiresAt: Date.now() + ttlMs });
+    }
+
+    return state;
+};
+
+/**
+ * Drop a user's cached state after changing it, so this instance applies the change at once
+ */
+export const invalidateUserState = (userId: string): void => {
+    cache.delete(userId);
+};
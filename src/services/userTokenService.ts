@@ -0,0 +1,48 @@
+import UserToken, { UserTokenType } from '../models/UserToken';
+import { generateRandomToken, hashToken } from '../utils/crypto.utils';
+
+/**
+ * Issue a single-use token of the given type for a user.
+ * Any earlier unused token of the same type stops working.
+ */
+export const issueUserToken = async (userId: string, type: UserTokenType, ttlMs: number): Promise<string> => {
+    await invalidateUserTokens(userId, type);
+
+    const token = generateRandomToken();
+    await UserToken.create({
+        user: userId,
+        type,
+        tokenHash: hashToken(token),
+        expiresAt: new Date(Date.now() + ttlMs)
+    });
+
+    return token;
+};
+
+/**
+ * Redeem a single-use token. Returns the id of the user it was issued to,
+ * or null if it is unknown, expired or already used.
+ */
+export const consumeUserToken = async (token: string, type: UserTokenType): Promise<string | null> => {
+    const userToken = await UserToken.findOneAndUpdate(
+        {
+            tokenHash: hashToken(token),
+            type,
+            usedAt: null,
+            expiresAt: { $gt: new Date() }
+        },
+        { usedAt: new Date() }
+    );
+
+    return userToken ? userToken.user.toString() : null;
+};
+
+/**
+ * Mark all unused tokens of a type as used
+ */
+export const invalidateUserTokens = async (userId: string, type: UserTokenType): Promise<void> => {
+    await UserToken.updateMany(
+        { user: userId, type, usedAt: null },
+        { usedAt: new Date() }
+    );
+};
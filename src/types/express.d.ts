@@ -1,4 +1,5 @@
 import { IUser } from '../models/User';
+import { Permission } from '../config/roles';
 
 declare global {
     namespace Express {
@@ -7,8 +8,16 @@ declare global {
                 id: string;
                 email: string;
                 role: string;
+                jti?: string;
+                sid?: string;
+                exp?: number;
+                /** Set when the request was authenticated with an API key */
+                apiKeyId?: string;
+                /** The key's scopes; absent for regular access tokens */
+                permissions?: Permission[];
             };
             userId?: string;
+            twoFactorEnrollment?: boolean;
         }
     }
 }
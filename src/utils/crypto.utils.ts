@@ -0,0 +1,15 @@
+import crypto from 'crypto';
+
+/**
+ * Hash a token for storage and lookup (SHA-256, hex)
+ */
+export const hashToken = (token: string): string => {
+    return crypto.createHash('sha256').update(token).digest('hex');
+};
+
+/**
+ * Generate a URL-safe random token
+ */
+export const generateRandomToken = (bytes: number = 32): string => {
+    return crypto.randomBytes(bytes).toString('base64url');
+};
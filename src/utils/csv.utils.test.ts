@@ -0,0 +1,65 @@
+import { formatCsvRow, parseCsvRecords, parseCsvRows } from './csv.utils';
+
+describe('parseCsvRows', () => {
+    it('splits lines and fields', () => {
+        expect(parseCsvRows('a,b,c\n1,2,3')).toEqual([['a', 'b', 'c'], ['1', '2', '3']]);
+    });
+
+    it('handles quoted commas, escaped quotes and line breaks', () => {
+        expect(parseCsvRows('"a,b","say ""hi""","two\nlines"\n')).toEqual([['a,b', 'say "hi"', 'two\nlines']]);
+    });
+
+    it('accepts CRLF endings and skips blank lines', () => {
+        expect(parseCsvRows('a,b\r\n\r\n1,2\r\n')).toEqual([['a', 'b'], ['1', '2']]);
+    });
+
+    it('keeps empty fields', () => {
+        expect(parseCsvRows('a,,c\n,,x')).toEqual([['a', '', 'c'], ['', '', 'x']]);
+    });
+
+    it('throws on an unterminated quoted field', () => {
+        expect(() => parseCsvRows('"abc\n1,2')).toThrow('Unterminated quoted field');
+    });
+});
+
+describe('parseCsvRecords', () => {
+    it('maps rows to the trimmed header, ignoring a BOM', () => {
+        expect(parseCsvRecords('\uFEFFemail , username\nann@example.com,ann\nbob@example.com')).toEqual([
+            { email: 'ann@example.com', username: 'ann' },
+            { email: 'bob@example.com', username: '' }
+        ]);
+    });
+
+    it('returns no records for empty text', () => {
+        expect(parseCsvRecords('')).toEqual([]);
+    });
+});
+
+describe('formatCsvRow', () => {
+    it('writes dates as ISO 8601 and missing values as empty fields', () => {
+        const date = new Date('2024-01-02T03:04:05.000Z');
+        expect(formatCsvRow(['a', 1, true, date, null, undefined])).toBe('a,1,true,2024-01-02T03:04:05.000Z,,');
+    });
+
+    it('quotes fields only when needed', () => {
+        expect(formatCsvRow(['a,b', 'say "hi"', 'two\nlines', ' padded', 'plain']))
+            .toBe('"a,b","say ""hi""","two\nlines"," padded",plain');
+    });
+
+    it('prefixes text that spreadsheets would run as a formula', () => {
+        expect(formatCsvRow(['=SUM(A1)', '+1', '-1', '@cmd', '\tx'])).toBe('\'=SUM(A1),\'+1,\'-1,\'@cmd,\'\tx');
+    });
+
+    it('quotes prefixed text that still needs quoting', () => {
+        expect(formatCsvRow(['=HYPERLINK("x")'])).toBe('"\'=HYPERLINK(""x"")"');
+    });
+
+    it('leaves negative numbers alone', () => {
+        expect(formatCsvRow([-5])).toBe('-5');
+    });
+
+    it('round-trips through parseCsvRows', () => {
+        const values = ['a,b', 'say "hi"', 'two\r\nlines', ''];
+        expect(parseCsvRows(formatCsvRow(values))).toEqual([values]);
+    });
+});
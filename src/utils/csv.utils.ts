@@ -0,0 +1,94 @@
+/**
+ * Split CSV text (RFC 4180) into rows of fields. Handles quoted fields with
+ * embedded commas, quotes ("") and line breaks, and both LF and CRLF endings.
+ */
+export const parseCsvRows = (text: string): string[][] => {
+    const rows: string[][] = [];
+    let row: string[] = [];
+    let field = '';
+    let inQuotes = false;
+
+    for (let i = 0; i < text.length; i++) {
+        const char = text[i];
+
+        if (inQuotes) {
+            if (char === '"' && text[i + 1] === '"') {
+                field += '"';
+                i++;
+            } else if (char === '"') {
+                inQuotes = false;
+            } else {
+                field += char;
+            }
+        } else if (char === '"' && field === '') {
+            inQuotes = true;
+        } else if (char === ',') {
+            row.push(field);
+            field = '';
+        } else if (char === '\n' || char === '\r') {
+            if (char === '\r' && text[i + 1] === '\n') i++;
+            row.push(field);
+            rows.push(row);
+            row = [];
+            field = '';
+        } else {
+            field += char;
+        }
+    }
+
+    if (inQuotes) {
+        throw new Error('Unterminated quoted field');
+    }
+
+    // Last line without a trailing newline
+    if (field !== '' || row.length > 0) {
+        row.push(field);
+        rows.push(row);
+    }
+
+    // Ignore blank lines
+    return rows.filter(fields => fields.some(value => value.trim() !== ''));
+};
+
+/**
+ * Parse CSV text whose first row is a header into one record per data row
+ */
+export const parseCsvRecords = (text: string): Record<string, string>[] => {
+    const [header, ...rows] = parseCsvRows(text.replace(/^\uFEFF/, ''));
+    if (!header) {
+        return [];
+    }
+
+    const columns = header.map(column => column.trim());
+
+    return rows.map(fields => {
+        const record: Record<string, string> = {};
+        columns.forEach((column, index) => {
+            if (column) record[column] = fields[index] ?? '';
+        });
+        return record;
+    });
+};
+
+/**
+ * Format one CSV line (without line ending). Dates are written as ISO 8601,
+ * missing values as empty fields; fields are quoted only when needed.
+ *
+ * Text starting with =, +, -, @, a tab or a carriage return would be run as a
+ * formula by spreadsheet applications, so it is prefixed with a single quote
+ * (OWASP's CSV injection advice). Numbers, booleans and dates are left as they are.
+ */
+export const formatCsvRow = (values: unknown[]): string => {
+    return values
+        .map(value => {
+            if (value === undefined || value === null) return '';
+
+            let text = value instanceof Date ? value.toISOString() : String(value);
+            if (typeof value === 'string' && /^[=+\-@\t\r]/.test(text)) {
+                text = `'${text}`;
+            }
+
+            return /[",\r\n]|^\s|\s$/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+        })
+        .join(',');
+};
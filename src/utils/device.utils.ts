@@ -0,0 +1,36 @@
+const BROWSERS: Array<[RegExp, string]> = [
+    [/Edg\//, 'Edge'],
+    [/OPR\/|Opera/, 'Opera'],
+    [/Firefox\//, 'Firefox'],
+    [/Chrome\//, 'Chrome'],
+    [/Safari\//, 'Safari'],
+    [/curl\//, 'curl'],
+    [/PostmanRuntime\//, 'Postman']
+];
+
+const PLATFORMS: Array<[RegExp, string]> = [
+    [/iPhone|iPad|iPod/, 'iOS'],
+    [/Android/, 'Android'],
+    [/Windows/, 'Windows'],
+    [/Mac OS X|Macintosh/, 'macOS'],
+    [/CrOS/, 'ChromeOS'],
+    [/Linux/, 'Linux']
+];
+
+/**
+ * Build a human readable device label (e.g. "Firefox on Linux") from a user agent
+ */
+export const describeDevice = (userAgent?: string): string => {
+    if (!userAgent) {
+        return 'Unknown device';
+    }
+
+    const browser = BROWSERS.find(([pattern]) => pattern.test(userAgent))?.[1];
+    const platform = PLATFORMS.find(([pattern]) => pattern.test(userAgent))?.[1];
+
+    if (browser && platform) {
+        return `${browser} on ${platform}`;
+    }
+
+    return browser || platform || 'Unknown device';
+};
@@ -1,76 +1,164 @@
-import jwt, { SignOptions } from 'jsonwebtoken';
+import jwt, { JsonWebTokenError, JwtPayload, SignOptions } from 'jsonwebtoken';
+import { randomUUID } from 'crypto';
+import { findVerificationKey, getKeyRing, SigningKey } from './jwtKeys.utils';
 
-interface TokenPayload {
+export interface TokenPayload {
     id: string;
     email: string;
     role: string;
+    sid?: string;
+    /** User's token version when issued; see User.tokenVersion */
+    ver?: number;
 }
 
-interface RefreshTokenPayload {
+export interface RefreshTokenPayload {
     id: string;
+    family: string;
 }
 
+export interface ChallengeTokenPayload {
+    id: string;
+    purpose: 'verify' | 'enroll';
+}
+
+export interface OAuthAccessTokenPayload {
+    /** The user who authorized the client, or the client itself for client_credentials */
+    sub: string;
+    client_id: string;
+    /** Space-separated granted scopes */
+    scope: string;
+    ver?: number;
+}
+
+export type TokenType = 'access' | 'refresh' | '2fa-challenge' | 'oauth-access';
+
 /**
- * Generate JWT access token
+ * Each token type has its own audience and `typ` claim, so a token of one type
+ * is rejected wherever another type is expected
  */
-export const generateToken = (payload: TokenPayload): string => {
-    const secret = process.env.JWT_SECRET;
-    if (!secret) {
-        throw new Error('JWT_SECRET is not defined in environment variables');
+const TOKEN_AUDIENCES: Record<TokenType, string> = {
+    access: 'user-management-client',
+    refresh: 'user-management-refresh',
+    '2fa-challenge': 'user-management-2fa',
+    'oauth-access': 'user-management-oauth'
+};
+
+/**
+ * Refresh tokens are only ever verified by this API, so they can be signed with
+ * their own HS256 secret (JWT_REFRESH_SECRET) instead of the access token keys
+ */
+const getRefreshSecretKey = (): SigningKey | null => {
+    const secret = process.env.JWT_REFRESH_SECRET;
+    return secret ? { algorithm: 'HS256', signingKey: secret, verificationKey: secret } : null;
+};
+
+/**
+ * Sign a token of the given type, naming the key in the `kid` header
+ */
+const signJwt = (type: TokenType, payload: object, options: SignOptions): string => {
+    const key = (type === 'refresh' && getRefreshSecretKey()) || getKeyRing().active;
+
+    return jwt.sign({ ...payload, typ: type }, key.signingKey!, {
+        ...options,
+        algorithm: key.algorithm,
+        ...(key.kid && { keyid: key.kid }),
+        issuer: 'user-management-api',
+        audience: TOKEN_AUDIENCES[type]
+    });
+};
+
+/**
+ * Verify a token of the given type with the key named in its header. Each key only
+ * accepts its own algorithm, so a token cannot pick a weaker one (e.g. HS256 with a public key).
+ */
+const verifyJwt = (type: TokenType, token: string): JwtPayload => {
+    const decoded = jwt.decode(token, { complete: true });
+    const kid = decoded?.header.kid;
+    const refreshKey = type === 'refresh' ? getRefreshSecretKey() : null;
+    const key = refreshKey ? (kid ? undefined : refreshKey) : findVerificationKey(kid);
+    if (!decoded || !key) {
+        throw new JsonWebTokenError('invalid signature');
     }
 
-    const options: SignOptions = {
-        expiresIn: process.env.JWT_EXPIRES_IN as any,
+    const payload = jwt.verify(token, key.verificationKey, {
+        algorithms: [key.algorithm],
         issuer: 'user-management-api',
-        audience: 'user-management-client'
-    };
-
-    return jwt.sign(
-        payload,
-        secret,
-        options
-    );
+        audience: TOKEN_AUDIENCES[type]
+    }) as JwtPayload;
+
+    if (payload.typ !== type) {
+        throw new JsonWebTokenError('invalid token type');
+    }
+
+    return payload;
+};
+
+/**
+ * Generate JWT access token
+ */
+export const generateToken = (payload: TokenPayload): string => {
+    return signJwt('access', payload, {
+        expiresIn: process.env.JWT_EXPIRES_IN as any,
+        jwtid: randomUUID()
+    });
 };
 
 /**
  * Generate JWT refresh token
  */
 export const generateRefreshToken = (payload: RefreshTokenPayload): string => {
-    const secret = process.env.JWT_SECRET;
-    if (!secret) {
-        throw new Error('JWT_SECRET is not defined in environment variables');
-    }
+    return signJwt('refresh', payload, {
+        expiresIn: (process.env.REFRESH_TOKEN_EXPIRES_IN || '30d') as any,
+        jwtid: randomUUID()
+    });
+};
 
-    return jwt.sign(
-        payload,
-        secret,
-        {
-            expiresIn: '30d',
-            issuer: 'user-management-api',
-            audience: 'user-management-client'
-        }
-    );
+/**
+ * Verify an access token. Refresh and challenge tokens are rejected.
+ */
+export const verifyAccessToken = (token: string): TokenPayload & JwtPayload => {
+    return verifyJwt('access', token) as TokenPayload & JwtPayload;
 };
 
 /**
- * Verify JWT token
+ * Verify a refresh token. Access and challenge tokens are rejected.
  */
-export const verifyToken = (token: string, isRefreshToken: boolean = false): TokenPayload | RefreshTokenPayload => {
-    const secret = process.env.JWT_SECRET;
-    if (!secret) {
-        throw new Error('JWT_SECRET is not defined in environment variables');
-    }
+export const verifyRefreshToken = (token: string): RefreshTokenPayload & JwtPayload => {
+    return verifyJwt('refresh', token) as RefreshTokenPayload & JwtPayload;
+};
+
+/**
+ * Generate a short-lived two-factor challenge token.
+ * Its type and audience differ from access tokens, so it cannot be used as one.
+ */
+export const generateChallengeToken = (payload: ChallengeTokenPayload): string => {
+    return signJwt('2fa-challenge', payload, {
+        expiresIn: (process.env.TWO_FACTOR_CHALLENGE_EXPIRES_IN || '5m') as any
+    });
+};
 
-    try {
-        const decoded = jwt.verify(token, secret, {
-            issuer: 'user-management-api',
-            audience: 'user-management-client'
-        }) as TokenPayload | RefreshTokenPayload;
+/**
+ * Verify a two-factor challenge token
+ */
+export const verifyChallengeToken = (token: string): ChallengeTokenPayload => {
+    return verifyJwt('2fa-challenge', token) as ChallengeTokenPayload;
+};
 
-        return decoded;
-    } catch (error) {
-        throw error;
-    }
+/**
+ * Generate an access token for an OAuth client
+ */
+export const generateOAuthAccessToken = (payload: OAuthAccessTokenPayload): string => {
+    return signJwt('oauth-access', payload, {
+        expiresIn: (process.env.OAUTH_ACCESS_TOKEN_EXPIRES_IN || '1h') as any,
+        jwtid: randomUUID()
+    });
+};
+
+/**
+ * Verify an OAuth client access token. Our own access tokens are rejected.
+ */
+export const verifyOAuthAccessToken = (token: string): OAuthAccessTokenPayload & JwtPayload => {
+    return verifyJwt('oauth-access', token) as OAuthAccessTokenPayload & JwtPayload;
 };
 
 /**
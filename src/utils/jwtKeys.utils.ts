@@ -0,0 +1,159 @@
+import crypto, { KeyObject } from 'crypto';
+import fs from 'fs';
+import path from 'path';
+
+export type JwtAlgorithm = 'HS256' | 'RS256' | 'ES256';
+
+export interface SigningKey {
+    /** Key ID, sent in the `kid` header (undefined for the legacy shared secret) */
+    kid?: string;
+    algorithm: JwtAlgorithm;
+    /** Key used to sign; absent for keys that only verify tokens issued before a rotation */
+    signingKey?: KeyObject | string;
+    verificationKey: KeyObject | string;
+}
+
+export interface KeyRing {
+    active: SigningKey;
+    keys: SigningKey[];
+}
+
+let keyRing: KeyRing | null = null;
+
+const getConfiguredAlgorithm = (): JwtAlgorithm => {
+    const algorithm = (process.env.JWT_ALGORITHM || 'HS256').toUpperCase();
+    if (algorithm !== 'HS256' && algorithm !== 'RS256' && algorithm !== 'ES256') {
+        throw new Error(`Unsupported JWT_ALGORITHM "${algorithm}". Use HS256, RS256 or ES256.`);
+    }
+
+    return algorithm;
+};
+
+/**
+ * The algorithm a PEM key can sign with, or null if it suits none of ours
+ */
+const getKeyAlgorithm = (key: KeyObject): JwtAlgorithm | null => {
+    if (key.asymmetricKeyType === 'rsa') {
+        return 'RS256';
+    }
+    if (key.asymmetricKeyType === 'ec' && key.asymmetricKeyDetails?.namedCurve === 'prime256v1') {
+        return 'ES256';
+    }
+
+    return null;
+};
+
+/**
+ * The shared JWT_SECRET as an HS256 key. Tokens signed with it carry no `kid`.
+ */
+const getSecretKey = (): SigningKey | null => {
+    const secret = process.env.JWT_SECRET;
+    if (!secret) {
+        return null;
+    }
+
+    return { algorithm: 'HS256', signingKey: secret, verificationKey: secret };
+};
+
+/**
+ * Load every `<kid>.pem` file in JWT_KEYS_DIR. Private keys can sign and verify;
+ * public keys only verify, which is how retired keys are kept during a rotation.
+ */
+const loadKeyDirectory = (directory: string): SigningKey[] => {
+    return fs.readdirSync(directory)
+        .filter(file => file.endsWith('.pem'))
+        .sort()
+        .map((file) => {
+            const kid = path.basename(file, '.pem');
+            const pem = fs.readFileSync(path.join(directory, file), 'utf8');
+            const isPrivate = pem.includes('PRIVATE KEY');
+
+            const privateKey = isPrivate ? crypto.createPrivateKey(pem) : undefined;
+            const publicKey = privateKey ? crypto.createPublicKey(privateKey) : crypto.createPublicKey(pem);
+
+            const algorithm = getKeyAlgorithm(publicKey);
+            if (!algorithm) {
+                throw new Error(`JWT key "${kid}" must be an RSA or P-256 EC key`);
+            }
+
+            return { kid, algorithm, signingKey: privateKey, verificationKey: publicKey };
+        });
+};
+
+const loadKeyRing = (): KeyRing => {
+    const algorithm = getConfiguredAlgorithm();
+    const secretKey = getSecretKey();
+
+    if (algorithm === 'HS256') {
+        if (!secretKey) {
+            throw new Error('JWT_SECRET is not defined in environment variables');
+        }
+        return { active: secretKey, keys: [secretKey] };
+    }
+
+    const directory = process.env.JWT_KEYS_DIR;
+    if (!directory) {
+        throw new Error(`JWT_KEYS_DIR is required when JWT_ALGORITHM is ${algorithm}`);
+    }
+
+    const keys = loadKeyDirectory(directory);
+    const signingKeys = keys.filter(key => key.signingKey && key.algorithm === algorithm);
+    const activeKid = process.env.JWT_ACTIVE_KID;
+
+    // Without JWT_ACTIVE_KID, the last private key by name signs (e.g. date-named keys)
+    const active = activeKid
+        ? signingKeys.find(key => key.kid === activeKid)
+        : signingKeys[signingKeys.length - 1];
+
+    if (!active) {
+        throw new Error(activeKid
+            ? `JWT_ACTIVE_KID "${activeKid}" is not a ${algorithm} private key in ${directory}`
+            : `No ${algorithm} private key found in ${directory}`);
+    }
+
+    // Keep accepting tokens signed with the shared secret while migrating away from HS256
+    return { active, keys: secretKey ? [...keys, secretKey] : keys };
+};
+
+/**
+ * Get the signing keys, loading them from the environment on first use
+ */
+export const getKeyRing = (): KeyRing => {
+    if (!keyRing) {
+        keyRing = loadKeyRing();
+    }
+
+    return keyRing;
+};
+
+/**
+ * Forget the loaded keys so the next token operation reads them again
+ */
+export const reloadKeyRing = (): void => {
+    keyRing = null;
+};
+
+/**
+ * Find the key that must have signed a token with the given header.
+ * Tokens without a `kid` can only have been signed with the shared secret.
+ */
+export const findVerificationKey = (kid?: string): SigningKey | undefined => {
+    return getKeyRing().keys.find(key => key.kid === kid);
+};
+
+/**
+ * Public keys in JWK Set format (RFC 7517), for services that verify our tokens.
+ * The shared HS256 secret is never published.
+ */
+export const getJwks = (): { keys: Record<string, unknown>[] } => {
+    return {
+        keys: getKeyRing().keys
+            .filter(key => key.kid && typeof key.verificationKey !== 'string')
+            .map(key => ({
+                ...(key.verificationKey as KeyObject).export({ format: 'jwk' }),
+                kid: key.kid,
+                alg: key.algorithm,
+                use: 'sig'
+            }))
+    };
+};
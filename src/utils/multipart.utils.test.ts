@@ -0,0 +1,65 @@
+import { getMultipartBoundary, parseMultipart } from './multipart.utils';
+
+const BOUNDARY = '----boundary123';
+
+const buildBody = (...parts: string[]): Buffer => {
+    // latin1 keeps binary characters as single bytes
+    return Buffer.from(parts.map(part => `--${BOUNDARY}\r\n${part}\r\n`).join('') + `--${BOUNDARY}--\r\n`, 'latin1');
+};
+
+describe('getMultipartBoundary', () => {
+    it('reads plain and quoted boundaries', () => {
+        expect(getMultipartBoundary(`multipart/form-data; boundary=${BOUNDARY}`)).toBe(BOUNDARY);
+        expect(getMultipartBoundary('multipart/form-data; boundary="a b"; charset=utf-8')).toBe('a b');
+    });
+
+    it('returns null without a boundary', () => {
+        expect(getMultipartBoundary('multipart/form-data')).toBeNull();
+    });
+});
+
+describe('parseMultipart', () => {
+    it('splits fields and files', () => {
+        const body = buildBody(
+            'Content-Disposition: form-data; name="title"\r\n\r\nHello',
+            'Content-Disposition: form-data; name="picture"; filename="me.png"\r\n' +
+                'Content-Type: image/png\r\n\r\n\x89PNG\r\nbinary'
+        );
+
+        const parts = parseMultipart(body, BOUNDARY);
+
+        expect(parts).toHaveLength(2);
+        expect(parts[0]).toMatchObject({ name: 'title', filename: undefined, contentType: undefined });
+        expect(parts[0].data.toString()).toBe('Hello');
+        expect(parts[1]).toMatchObject({ name: 'picture', filename: 'me.png', contentType: 'image/png' });
+        expect(parts[1].data.toString('latin1')).toBe('\x89PNG\r\nbinary');
+    });
+
+    it('ignores a preamble before the first delimiter', () => {
+        const body = Buffer.concat([
+            Buffer.from('preamble\r\n'),
+            buildBody('Content-Disposition: form-data; name="a"\r\n\r\n1')
+        ]);
+
+        expect(parseMultipart(body, BOUNDARY).map(part => part.name)).toEqual(['a']);
+    });
+
+    it('throws when the boundary is missing', () => {
+        expect(() => parseMultipart(Buffer.from('no parts here'), BOUNDARY)).toThrow('Multipart boundary not found');
+    });
+
+    it('throws on an unterminated part', () => {
+        const body = Buffer.from(`--${BOUNDARY}\r\nContent-Disposition: form-data; name="a"\r\n\r\nno end`);
+        expect(() => parseMultipart(body, BOUNDARY)).toThrow('Unterminated multipart part');
+    });
+
+    it('throws on part headers without a blank line', () => {
+        const body = Buffer.from(`--${BOUNDARY}\r\nContent-Disposition: form-data; name="a"`);
+        expect(() => parseMultipart(body, BOUNDARY)).toThrow('Malformed multipart part headers');
+    });
+
+    it('throws on a malformed delimiter', () => {
+        const body = Buffer.from(`--${BOUNDARY}xx\r\n`);
+        expect(() => parseMultipart(body, BOUNDARY)).toThrow('Malformed multipart delimiter');
+    });
+});
@@ -0,0 +1,71 @@
+export interface MultipartPart {
+    /** Form field name */
+    name: string;
+    filename?: string;
+    contentType?: string;
+    data: Buffer;
+}
+
+/**
+ * Read the boundary from a multipart/form-data Content-Type header, or null
+ */
+export const getMultipartBoundary = (contentType: string): string | null => {
+    const match = /;\s*boundary=(?:"([^"]+)"|([^;\s]+))/i.exec(contentType);
+    return match ? match[1] || match[2] : null;
+};
+
+/**
+ * Split a buffered multipart/form-data body (RFC 7578) into its parts.
+ * Throws if the body is malformed.
+ */
+export const parseMultipart = (body: Buffer, boundary: string): MultipartPart[] => {
+    const delimiter = Buffer.from(`--${boundary}`);
+    const parts: MultipartPart[] = [];
+
+    let position = body.indexOf(delimiter);
+    if (position === -1) {
+        throw new Error('Multipart boundary not found');
+    }
+
+    for (;;) {
+        position += delimiter.length;
+
+        // The last delimiter is followed by "--"
+        if (body.subarray(position, position + 2).toString() === '--') {
+            return parts;
+        }
+        if (body.subarray(position, position + 2).toString() !== '\r\n') {
+            throw new Error('Malformed multipart delimiter');
+        }
+        position += 2;
+
+        const headersEnd = body.indexOf('\r\n\r\n', position);
+        if (headersEnd === -1) {
+            throw new Error('Malformed multipart part headers');
+        }
+
+        const headers: Record<string, string> = {};
+        for (const line of body.subarray(position, headersEnd).toString('utf8').split('\r\n')) {
+            const separator = line.indexOf(':');
+            if (separator > 0) {
+                headers[line.slice(0, separator).trim().toLowerCase()] = line.slice(separator + 1).trim();
+            }
+        }
+
+        const dataStart = headersEnd + 4;
+        const next = body.indexOf(Buffer.concat([Buffer.from('\r\n'), delimiter]), dataStart);
+        if (next === -1) {
+            throw new Error('Unterminated multipart part');
+        }
+
+        const disposition = headers['content-disposition'] || '';
+        parts.push({
+            name: /\bname="([^"]*)"/i.exec(disposition)?.[1] ?? '',
+            filename: /\bfilename="([^"]*)"/i.exec(disposition)?.[1],
+            contentType: headers['content-type'],
+            data: body.subarray(dataStart, next)
+        });
+
+        position = next + 2;
+    }
+};
@@ -0,0 +1,101 @@
+import { DEFAULT_ROLE, Permission, PERMISSIONS, ROLES } from '../config/roles';
+
+/**
+ * Resolve the permissions of every role, following inheritance.
+ * Fails fast on unknown roles, unknown permissions and inheritance cycles.
+ */
+const resolveRoles = (): Map<string, Set<Permission>> => {
+    const resolved = new Map<string, Set<Permission>>();
+
+    const resolve = (role: string, path: string[]): Set<Permission> => {
+        const cached = resolved.get(role);
+        if (cached) {
+            return cached;
+        }
+
+        const definition = ROLES[role];
+        if (!definition) {
+            throw new Error(`Unknown role "${role}" in role registry (via ${path.join(' -> ')})`);
+        }
+        if (path.includes(role)) {
+            throw new Error(`Role inheritance cycle: ${[...path, role].join(' -> ')}`);
+        }
+
+        const permissions = new Set<Permission>();
+        for (const parent of definition.inherits || []) {
+            resolve(parent, [...path, role]).forEach(permission => permissions.add(permission));
+        }
+        for (const permission of definition.permissions) {
+            if (!(permission in PERMISSIONS)) {
+                throw new Error(`Unknown permission "${permission}" on role "${role}"`);
+            }
+            permissions.add(permission);
+        }
+
+        resolved.set(role, permissions);
+        return permissions;
+    };
+
+    Object.keys(ROLES).forEach(role => resolve(role, []));
+
+    if (!resolved.has(DEFAULT_ROLE)) {
+        throw new Error(`Default role "${DEFAULT_ROLE}" is not defined`);
+    }
+
+    return resolved;
+};
+
+const rolePermissions = resolveRoles();
+
+/**
+ * Names of all defined roles
+ */
+export const getRoleNames = (): string[] => {
+    return Object.keys(ROLES);
+};
+
+/**
+ * Check whether a role is defined
+ */
+export const isValidRole = (role: string): boolean => {
+    return rolePermissions.has(role);
+};
+
+/**
+ * All permissions of a role, including inherited ones
+ */
+export const getRolePermissions = (role: string): Permission[] => {
+    return [...(rolePermissions.get(role) || [])];
+};
+
+/**
+ * Check whether a role has a permission (directly or inherited)
+ */
+export const hasPermission = (role: string, permission: Permission): boolean => {
+    return rolePermissions.get(role)?.has(permission) ?? false;
+};
+
+/**
+ * Check whether an authenticated user has a permission. Requests made with an
+ * API key are also limited to the key's scopes.
+ */
+export const userHasPermission = (
+    user: { role: string; permissions?: Permission[] },
+    permission: Permission
+): boolean => {
+    return hasPermission(user.role, permission) && (!user.permissions || user.permissions.includes(permission));
+};
+
+/**
+ * Rank of a role (0 for unknown roles)
+ */
+export const getRoleRank = (role: string): number => {
+    return ROLES[role]?.rank ?? 0;
+};
+
+/**
+ * Roles that can manage roles, i.e. the ones an instance must never run out of
+ */
+export const getAdministrativeRoles = (): string[] => {
+    return getRoleNames().filter(role => hasPermission(role, 'users:update-role'));
+};
@@ -0,0 +1,64 @@
+import { base32Decode, base32Encode, generateTotp, getTimeStep, verifyTotp } from './totp.utils';
+
+// RFC 6238 appendix B test secret ("12345678901234567890")
+const SECRET = base32Encode(Buffer.from('12345678901234567890'));
+
+describe('base32', () => {
+    it('encodes the RFC 6238 secret', () => {
+        expect(SECRET).toBe('GEZDGNBVGY3TQOJQGEZDGNBVGY3TQOJQ');
+    });
+
+    it('decodes case-insensitively, ignoring padding and spaces', () => {
+        expect(base32Decode('gezd gnbv gy3t qojq gezd gnbv gy3t qojq==').toString()).toBe('12345678901234567890');
+    });
+
+    it('rejects invalid characters', () => {
+        expect(() => base32Decode('GEZ1')).toThrow('Invalid base32 character');
+    });
+});
+
+describe('generateTotp', () => {
+    // RFC 6238 SHA-1 vectors, truncated to 6 digits
+    it.each([
+        [59, '287082'],
+        [1111111109, '081804'],
+        [1234567890, '005924'],
+        [2000000000, '279037']
+    ])('matches the RFC 6238 code at %i seconds', (seconds, code) => {
+        expect(generateTotp(SECRET, getTimeStep(seconds * 1000))).toBe(code);
+    });
+});
+
+describe('verifyTotp', () => {
+    afterEach(() => {
+        jest.restoreAllMocks();
+    });
+
+    it('returns the time step of a current code', () => {
+        jest.spyOn(Date, 'now').mockReturnValue(59 * 1000);
+        expect(verifyTotp(SECRET, '287082')).toBe(1);
+    });
+
+    it('accepts codes with spaces', () => {
+        jest.spyOn(Date, 'now').mockReturnValue(59 * 1000);
+        expect(verifyTotp(SECRET, '287 082')).toBe(1);
+    });
+
+    it('accepts codes one step either side of now', () => {
+        jest.spyOn(Date, 'now').mockReturnValue(89 * 1000);
+        expect(verifyTotp(SECRET, '287082')).toBe(1);
+    });
+
+    it('rejects codes outside the window', () => {
+        jest.spyOn(Date, 'now').mockReturnValue(119 * 1000);
+        expect(verifyTotp(SECRET, '287082')).toBeNull();
+        expect(verifyTotp(SECRET, '287082', 2)).toBe(1);
+    });
+
+    it('rejects wrong and malformed codes', () => {
+        jest.spyOn(Date, 'now').mockReturnValue(59 * 1000);
+        expect(verifyTotp(SECRET, '287083')).toBeNull();
+        expect(verifyTotp(SECRET, '28708')).toBeNull();
+        expect(verifyTotp(SECRET, 'abcdef')).toBeNull();
+    });
+});
@@ -0,0 +1,10 @@
+/**
+ * Build a link into the client application (CLIENT_URL) for emails
+ */
+export const buildClientUrl = (pathname: string, query: Record<string, string> = {}): string => {
+    const url = new URL(pathname, process.env.CLIENT_URL || 'http://localhost:3000');
+
+    Object.entries(query).forEach(([key, value]) => url.searchParams.set(key, value));
+
+    return url.toString();
+};
@@ -0,0 +1,63 @@
+import User from '../models/User';
+import { AppError } from './AppError';
+import { getAdministrativeRoles, getRoleRank } from './permissions';
+
+interface PolicySubject {
+    id: string;
+    role: string;
+}
+
+/**
+ * Check whether an actor may manage a target user. Returns the reason they may
+ * not, or null if they may. Nobody may manage themselves or a user whose role
+ * ranks the same as or higher than their own.
+ */
+export const getManageUserViolation = (actor: PolicySubject, target: PolicySubject): string | null => {
+    if (actor.id === target.id) {
+        return 'You cannot perform this action on your own account';
+    }
+
+    if (getRoleRank(target.role) >= getRoleRank(actor.role)) {
+        return 'You cannot manage a user whose role is equal to or higher than yours';
+    }
+
+    return null;
+};
+
+/**
+ * Check whether an actor may hand out a role. Returns the reason they may not, or null.
+ */
+export const getAssignRoleViolation = (actor: PolicySubject, role: string): string | null => {
+    if (getRoleRank(role) > getRoleRank(actor.role)) {
+        return 'You cannot assign a role higher than your own';
+    }
+
+    return null;
+};
+
+/**
+ * Throw if a change would leave no active user with an administrative role
+ */
+export const assertNotLastActiveAdmin = async (
+    target: PolicySubject & { isActive: boolean },
+    change: { role?: string; isActive?: boolean }
+): Promise<void> => {
+    const adminRoles = getAdministrativeRoles();
+
+    const isActiveAdmin = target.isActive && adminRoles.includes(target.role);
+    const remainsActiveAdmin = (change.isActive ?? target.isActive) && adminRoles.includes(change.role ?? target.role);
+
+    if (!isActiveAdmin || remainsActiveAdmin) {
+        return;
+    }
+
+    const otherAdmins = await User.countDocuments({
+        _id: { $ne: target.id },
+        role: { $in: adminRoles },
+        isActive: true
+    });
+
+    if (otherAdmins === 0) {
+        throw new AppError('This change would leave no active administrator', 409);
+    }
+};
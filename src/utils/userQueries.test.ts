@@ -0,0 +1,52 @@
+import { decodeUserCursor } from './userQueries';
+
+const ID = '64b7f0c2a1b2c3d4e5f60718';
+
+const encode = (cursor: unknown): string => Buffer.from(JSON.stringify(cursor)).toString('base64url');
+
+describe('decodeUserCursor', () => {
+    it('decodes a cursor issued for the same sort', () => {
+        const cursor = { sort: '-createdAt', value: '2024-01-02T03:04:05.000Z', id: ID };
+        expect(decodeUserCursor(encode(cursor), '-createdAt')).toEqual(cursor);
+    });
+
+    it('accepts a missing value', () => {
+        expect(decodeUserCursor(encode({ sort: 'lastLogin', value: null, id: ID }), 'lastLogin'))
+            .toEqual({ sort: 'lastLogin', value: null, id: ID });
+    });
+
+    it('accepts any text for string sorts', () => {
+        expect(decodeUserCursor(encode({ sort: 'email', value: 'not a date', id: ID }), 'email')).not.toBeNull();
+    });
+
+    it('drops unknown properties', () => {
+        const decoded = decodeUserCursor(encode({ sort: 'email', value: 'a', id: ID, $where: '1' }), 'email');
+        expect(decoded).toEqual({ sort: 'email', value: 'a', id: ID });
+    });
+
+    it('rejects cursors issued for another sort', () => {
+        expect(decodeUserCursor(encode({ sort: 'email', value: 'a', id: ID }), '-email')).toBeNull();
+    });
+
+    it('rejects an unknown sort', () => {
+        expect(decodeUserCursor(encode({ sort: 'password', value: 'a', id: ID }), 'password')).toBeNull();
+    });
+
+    it('rejects ids that are not ObjectIds', () => {
+        expect(decodeUserCursor(encode({ sort: 'email', value: 'a', id: 'abc' }), 'email')).toBeNull();
+        expect(decodeUserCursor(encode({ sort: 'email', value: 'a', id: { $gt: '' } }), 'email')).toBeNull();
+    });
+
+    it('rejects invalid dates for date sorts', () => {
+        expect(decodeUserCursor(encode({ sort: '-createdAt', value: 'yesterday', id: ID }), '-createdAt')).toBeNull();
+    });
+
+    it('rejects values that are not strings', () => {
+        expect(decodeUserCursor(encode({ sort: 'email', value: { $ne: null }, id: ID }), 'email')).toBeNull();
+    });
+
+    it('rejects malformed cursors', () => {
+        expect(decodeUserCursor('not-a-cursor', 'email')).toBeNull();
+        expect(decodeUserCursor(encode(null), 'email')).toBeNull();
+    });
+});
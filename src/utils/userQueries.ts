@@ -0,0 +1,220 @@
+import { FilterQuery, Types } from 'mongoose';
+import { IUser } from '../models/User';
+
+export interface UserFilter {
+    role?: string;
+    /** "true" or "false" as received in a query string, or a boolean */
+    isActive?: string | boolean;
+    isEmailVerified?: string | boolean;
+    /** Matched case-insensitively as a prefix of email, username and names */
+    search?: string;
+    /** Exact country of the user's address, case-insensitive */
+    country?: string;
+    /** Date ranges (ISO 8601), inclusive */
+    createdFrom?: string;
+    createdTo?: string;
+    lastLoginFrom?: string;
+    lastLoginTo?: string;
+}
+
+/** Query string parameters read into a UserFilter */
+const USER_FILTER_PARAMS: (keyof UserFilter)[] = [
+    'role',
+    'isActive',
+    'isEmailVerified',
+    'search',
+    'country',
+    'createdFrom',
+    'createdTo',
+    'lastLoginFrom',
+    'lastLoginTo'
+];
+
+/**
+ * Fields users can be sorted by, and how their values are stored in cursors
+ */
+export const USER_SORT_FIELDS: Record<string, 'date' | 'string'> = {
+    createdAt: 'date',
+    lastLogin: 'date',
+    email: 'string',
+    username: 'string',
+    lastName: 'string'
+};
+
+export const DEFAULT_USER_SORT = '-createdAt';
+
+export interface UserSort {
+    field: string;
+    direction: 1 | -1;
+}
+
+interface UserCursor {
+    /** Sort the cursor was issued for */
+    sort: string;
+    /** Sort field value and id of the last user on the previous page */
+    value: string | null;
+    id: string;
+}
+
+/**
+ * Escape a string for literal use inside a regular expression
+ */
+export const escapeRegExp = (value: string): string => {
+    return value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+};
+
+const toBoolean = (value: string | boolean): boolean => value === true || value === 'true';
+
+/**
+ * Read the user filter parameters from a query string
+ */
+export const getUserFilter = (params: Record<string, unknown>): UserFilter => {
+    const filter: UserFilter = {};
+    for (const param of USER_FILTER_PARAMS) {
+        if (typeof params[param] === 'string') {
+            filter[param] = params[param] as string;
+        }
+    }
+    return filter;
+};
+
+/**
+ * Build the MongoDB query for listing users, shared by the user list and
+ * the endpoints that act on every user matching a filter. User input never
+ * reaches $regex unescaped.
+ */
+export const buildUserQuery = (filter: UserFilter): FilterQuery<IUser> => {
+    const query: FilterQuery<IUser> = {};
+
+    if (filter.role) {
+        query.role = String(filter.role);
+    }
+
+    if (filter.isActive !== undefined) {
+        query.isActive = toBoolean(filter.isActive);
+    }
+
+    if (filter.isEmailVerified !== undefined) {
+        query.isEmailVerified = toBoolean(filter.isEmailVerified);
+    }
+
+    if (filter.search) {
+        const prefix = { $regex: `^${escapeRegExp(String(filter.search))}`, $options: 'i' };
+        query.$or = [{ email: prefix }, { username: prefix }, { firstName: prefix }, { lastName: prefix }];
+    }
+
+    if (filter.country) {
+        query['address.country'] = { $regex: `^${escapeRegExp(String(filter.country))}$`, $options: 'i' };
+    }
+
+    if (filter.createdFrom || filter.createdTo) {
+        query.createdAt = {
+            ...(filter.createdFrom && { $gte: new Date(filter.createdFrom) }),
+            ...(filter.createdTo && { $lte: new Date(filter.createdTo) })
+        };
+    }
+
+    if (filter.lastLoginFrom || filter.lastLoginTo) {
+        query.lastLogin = {
+            ...(filter.lastLoginFrom && { $gte: new Date(filter.lastLoginFrom) }),
+            ...(filter.lastLoginTo && { $lte: new Date(filter.lastLoginTo) })
+        };
+    }
+
+    return query;
+};
+
+/**
+ * Parse a sort parameter such as "-createdAt" (descending) or "email".
+ * Returns null for fields that cannot be sorted by.
+ */
+export const parseUserSort = (sort: string = DEFAULT_USER_SORT): UserSort | null => {
+    const field = sort.replace(/^-/, '');
+    if (!USER_SORT_FIELDS[field]) {
+        return null;
+    }
+
+    return { field, direction: sort.startsWith('-') ? -1 : 1 };
+};
+
+/**
+ * Build the opaque cursor pointing after the given user
+ */
+export const encodeUserCursor = (sort: string, user: IUser): string => {
+    const { field } = parseUserSort(sort)!;
+    const value = user.get(field);
+
+    const cursor: UserCursor = {
+        sort,
+        value: value == null ? null : value instanceof Date ? value.toISOString() : String(value),
+        id: user._id.toString()
+    };
+
+    return Buffer.from(JSON.stringify(cursor)).toString('base64url');
+};
+
+/**
+ * Decode a cursor issued for the given sort. Returns null if it is malformed
+ * (including ids that are not ObjectIds and values of date sorts that are not
+ * dates) or was issued for another sort.
+ */
+export const decodeUserCursor = (cursor: string, sort: string): UserCursor | null => {
+    const userSort = parseUserSort(sort);
+    if (!userSort) {
+        return null;
+    }
+
+    try {
+        const decoded = JSON.parse(Buffer.from(cursor, 'base64url').toString('utf8'));
+
+        if (
+            !decoded ||
+            decoded.sort !== sort ||
+            typeof decoded.id !== 'string' ||
+            !/^[a-f0-9]{24}$/i.test(decoded.id) ||
+            (decoded.value !== null && typeof decoded.value !== 'string')
+        ) {
+            return null;
+        }
+
+        if (
+            decoded.value !== null &&
+            USER_SORT_FIELDS[userSort.field] === 'date' &&
+            isNaN(new Date(decoded.value).getTime())
+        ) {
+            return null;
+        }
+
+        return { sort: decoded.sort, value: decoded.value, id: decoded.id };
+    } catch {
+        return null;
+    }
+};
+
+/**
+ * Conditions matching the users after a cursor in the given order. Users are
+ * ordered by the sort field, then by id; missing values sort before any other.
+ */
+export const buildUserCursorQuery = (sort: UserSort, cursor: UserCursor): FilterQuery<IUser> => {
+    const { field, direction } = sort;
+    const id = new Types.ObjectId(cursor.id);
+    const after = direction === 1 ? '$gt' : '$lt';
+
+    if (cursor.value === null) {
+        const sameValue = { [field]: null, _id: { [after]: id } };
+        return direction === 1 ? { $or: [sameValue, { [field]: { $ne: null } }] } : sameValue;
+    }
+
+    const value = USER_SORT_FIELDS[field] === 'date' ? new Date(cursor.value) : cursor.value;
+    const conditions: FilterQuery<IUser>[] = [
+        { [field]: { [after]: value } },
+        { [field]: value, _id: { [after]: id } }
+    ];
+
+    // Descending, users without a value come last
+    if (direction === -1) {
+        conditions.push({ [field]: null });
+    }
+
+    return { $or: conditions };
+};
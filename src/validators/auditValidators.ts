@@ -0,0 +1,42 @@
+import { query, ValidationChain } from 'express-validator';
+import { AUDIT_ACTIONS } from '../models/AuditEvent';
+
+/**
+ * Validation rules for querying the audit log
+ */
+export const validateAuditQuery: ValidationChain[] = [
+    query('actor')
+        .optional()
+        .isMongoId()
+        .withMessage('Invalid actor ID'),
+
+    query('target')
+        .optional()
+        .isMongoId()
+        .withMessage('Invalid target ID'),
+
+    query('action')
+        .optional()
+        .isIn(AUDIT_ACTIONS)
+        .withMessage(`Invalid action. Must be one of: ${AUDIT_ACTIONS.join(', ')}`),
+
+    query('from')
+        .optional()
+        .isISO8601()
+        .withMessage('From must be a valid date'),
+
+    query('to')
+        .optional()
+        .isISO8601()
+        .withMessage('To must be a valid date'),
+
+    query('page')
+        .optional()
+        .isInt({ min: 1 })
+        .withMessage('Page must be a positive integer'),
+
+    query('limit')
+        .optional()
+        .isInt({ min: 1, max: 100 })
+        .withMessage('Limit must be between 1 and 100')
+];
@@ -0,0 +1,36 @@
+import { Request } from 'express';
+import { validationResult } from 'express-validator';
+import { validateLogin } from './authValidators';
+
+/**
+ * Run the login rules on a body and return the error message of each failed field
+ */
+const loginErrors = async (body: Record<string, unknown>): Promise<Record<string, string>> => {
+    const req = { body } as Request;
+    for (const chain of validateLogin) {
+        await chain.run(req);
+    }
+
+    const errors = validationResult(req).mapped();
+    return Object.fromEntries(Object.entries(errors).map(([field, error]) => [field, String(error.msg)]));
+};
+
+describe('validateLogin', () => {
+    it('accepts an email or a username with a password', async () => {
+        expect(await loginErrors({ email: 'ann@example.com', password: 'Secret123' })).toEqual({});
+        expect(await loginErrors({ username: 'ann', password: 'Secret123' })).toEqual({});
+    });
+
+    it('requires an email or a username', async () => {
+        expect(Object.values(await loginErrors({ password: 'Secret123' })))
+            .toEqual(['Either email or username is required']);
+    });
+
+    it.each([
+        ['username', { username: { $ne: null }, password: 'Secret123' }],
+        ['email', { email: ['ann@example.com'], password: 'Secret123' }],
+        ['password', { username: 'ann', password: { $gt: '' } }]
+    ])('rejects %s values that are not strings', async (field, body) => {
+        expect(Object.keys(await loginErrors(body))).toContain(field);
+    });
+});
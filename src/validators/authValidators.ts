@@ -1,20 +1,16 @@
-import { body, ValidationChain } from 'express-validator';
+import { body, param, ValidationChain } from 'express-validator';
+import { getRoleNames } from '../utils/permissions';
 
 /**
- * Validation rules for user registration
+ * Validation rules for user registration, except the password
+ * (for users who choose it later, such as invited imports)
  */
-export const validateRegister: ValidationChain[] = [
+export const validateRegisterWithoutPassword: ValidationChain[] = [
     body('email')
         .isEmail()
         .normalizeEmail()
         .withMessage('Please provide a valid email'),
     
-    body('password')
-        .isLength({ min: 8 })
-        .withMessage('Password must be at least 8 characters long')
-        .matches(/^(?=.*[a-z])(?=.*[A-Z])(?=.*\d)/)
-        .withMessage('Password must contain at least one uppercase letter, one lowercase letter, and one number'),
-    
     body('username')
         .isLength({ min: 3, max: 30 })
         .withMessage('Username must be between 3 and 30 characters')
@@ -36,7 +32,33 @@ export const validateRegister: ValidationChain[] = [
     body('phoneNumber')
         .optional()
         .isMobilePhone('any')
-        .withMessage('Please provide a valid phone number')
+        .withMessage('Please provide a valid phone number'),
+
+    body('deviceName')
+        .optional()
+        .isString()
+        .trim()
+        .isLength({ max: 100 })
+        .withMessage('Device name cannot exceed 100 characters'),
+
+    body('inviteToken')
+        .optional()
+        .isString()
+        .notEmpty()
+        .withMessage('Invite token must be a non-empty string')
+];
+
+/**
+ * Validation rules for user registration
+ */
+export const validateRegister: ValidationChain[] = [
+    ...validateRegisterWithoutPassword,
+
+    body('password')
+        .isLength({ min: 8 })
+        .withMessage('Password must be at least 8 characters long')
+        .matches(/^(?=.*[a-z])(?=.*[A-Z])(?=.*\d)/)
+        .withMessage('Password must contain at least one uppercase letter, one lowercase letter, and one number')
 ];
 
 /**
@@ -53,18 +75,31 @@ export const validateLogin: ValidationChain[] = [
     
     body('email')
         .optional()
+        .isString()
+        .withMessage('Please provide a valid email')
         .isEmail()
         .normalizeEmail()
         .withMessage('Please provide a valid email'),
     
     body('username')
         .optional()
+        .isString()
+        .withMessage('Username must be a string')
         .notEmpty()
         .withMessage('Username cannot be empty'),
     
     body('password')
-        .notEmpty()
+        .isString()
         .withMessage('Password is required')
+        .notEmpty()
+        .withMessage('Password is required'),
+
+    body('deviceName')
+        .optional()
+        .isString()
+        .trim()
+        .isLength({ max: 100 })
+        .withMessage('Device name cannot exceed 100 characters')
 ];
 
 /**
@@ -77,3 +112,160 @@ export const validateRefreshToken: ValidationChain[] = [
         .isJWT()
         .withMessage('Invalid refresh token format')
 ];
+
+/**
+ * Validation rules for session id parameter
+ */
+export const validateSessionId: ValidationChain[] = [
+    param('sessionId')
+        .isMongoId()
+        .withMessage('Invalid session id')
+];
+
+/**
+ * Validation rules for email verification
+ */
+export const validateVerifyEmail: ValidationChain[] = [
+    body('token')
+        .isString()
+        .notEmpty()
+        .withMessage('Verification token is required')
+];
+
+/**
+ * Validation rules for resending the verification email
+ */
+export const validateResendVerification: ValidationChain[] = [
+    body('email')
+        .isEmail()
+        .normalizeEmail()
+        .withMessage('Please provide a valid email')
+];
+
+/**
+ * Validation rules for requesting a password reset
+ */
+export const validateForgotPassword: ValidationChain[] = [
+    body('email')
+        .isEmail()
+        .normalizeEmail()
+        .withMessage('Please provide a valid email')
+];
+
+/**
+ * Validation rules for resetting a password
+ */
+export const validateResetPassword: ValidationChain[] = [
+    body('token')
+        .isString()
+        .notEmpty()
+        .withMessage('Reset token is required'),
+
+    body('newPassword')
+        .isLength({ min: 8 })
+        .withMessage('New password must be at least 8 characters long')
+        .matches(/^(?=.*[a-z])(?=.*[A-Z])(?=.*\d)/)
+        .withMessage('New password must contain at least one uppercase letter, one lowercase letter, and one number')
+];
+
+/**
+ * Validation rules for completing a two-factor login
+ */
+export const validateTwoFactorVerify: ValidationChain[] = [
+    body('challengeToken')
+        .notEmpty()
+        .withMessage('Challenge token is required')
+        .isJWT()
+        .withMessage('Invalid challenge token format'),
+
+    body()
+        .custom((value) => {
+            if (!value.code && !value.recoveryCode) {
+                throw new Error('Either code or recoveryCode is required');
+            }
+            return true;
+        }),
+
+    body('code')
+        .optional()
+        .matches(/^\d{6}$/)
+        .withMessage('Code must be 6 digits'),
+
+    body('recoveryCode')
+        .optional()
+        .isString()
+        .withMessage('Invalid recovery code'),
+
+    body('deviceName')
+        .optional()
+        .isString()
+        .trim()
+        .isLength({ max: 100 })
+        .withMessage('Device name cannot exceed 100 characters')
+];
+
+/**
+ * Validation rules for endpoints confirmed with a TOTP code
+ */
+export const validateTwoFactorCode: ValidationChain[] = [
+    body('code')
+        .matches(/^\d{6}$/)
+        .withMessage('Code must be 6 digits')
+];
+
+/**
+ * Validation rules for disabling two-factor authentication
+ */
+export const validateTwoFactorDisable: ValidationChain[] = [
+    body('password')
+        .notEmpty()
+        .withMessage('Password is required'),
+
+    body()
+        .custom((value) => {
+            if (!value.code && !value.recoveryCode) {
+                throw new Error('Either code or recoveryCode is required');
+            }
+            return true;
+        }),
+
+    body('code')
+        .optional()
+        .matches(/^\d{6}$/)
+        .withMessage('Code must be 6 digits')
+];
+
+/**
+ * Validation rules for the two-factor role policy
+ */
+export const validateTwoFactorPolicy: ValidationChain[] = [
+    body('requiredRoles')
+        .isArray()
+        .withMessage('requiredRoles must be an array'),
+
+    body('requiredRoles.*')
+        .isIn(getRoleNames())
+        .withMessage(`Invalid role. Must be one of: ${getRoleNames().join(', ')}`)
+];
+
+/**
+ * Validation rules for completing a sign-in provider redirect
+ */
+export const validateOidcCallback: ValidationChain[] = [
+    body('code')
+        .isString()
+        .notEmpty()
+        .withMessage('Authorization code is required'),
+
+    body('state')
+        .isString()
+        .notEmpty()
+        .withMessage('State is required'),
+
+    body('deviceName')
+        .optional()
+        .isString()
+        .trim()
+        .isLength({ max: 100 })
+        .withMessage('Device name cannot exceed 100 characters')
+];
@@ -0,0 +1,54 @@
+import { body, param, query, ValidationChain } from 'express-validator';
+import { getRoleNames } from '../utils/permissions';
+
+const INVITATION_STATUSES = ['pending', 'accepted', 'revoked', 'expired'];
+
+/**
+ * Validation rules for inviting a user
+ */
+export const validateCreateInvitation: ValidationChain[] = [
+    body('email')
+        .isEmail()
+        .normalizeEmail()
+        .withMessage('Please provide a valid email'),
+
+    body('role')
+        .optional()
+        .isIn(getRoleNames())
+        .withMessage(`Invalid role. Must be one of: ${getRoleNames().join(', ')}`)
+];
+
+/**
+ * Validation rules for listing invitations
+ */
+export const validateListInvitations: ValidationChain[] = [
+    query('status')
+        .optional()
+        .isIn(INVITATION_STATUSES)
+        .withMessage(`Invalid status. Must be one of: ${INVITATION_STATUSES.join(', ')}`),
+
+    query('email')
+        .optional()
+        .isEmail()
+        .normalizeEmail()
+        .withMessage('Please provide a valid email'),
+
+    query('page')
+        .optional()
+        .isInt({ min: 1 })
+        .withMessage('Page must be a positive integer'),
+
+    query('limit')
+        .optional()
+        .isInt({ min: 1, max: 100 })
+        .withMessage('Limit must be between 1 and 100')
+];
+
+/**
+ * Validation rules for routes acting on one invitation
+ */
+export const validateInvitationId: ValidationChain[] = [
+    param('id')
+        .isMongoId()
+        .withMessage('Invalid invitation id')
+];
@@ -0,0 +1,156 @@
+import { body, ValidationChain } from 'express-validator';
+import { OAUTH_GRANT_TYPES, OAUTH_SCOPES } from '../config/oauthScopes';
+
+const scopeNames = Object.keys(OAUTH_SCOPES);
+
+/**
+ * Rules shared by client registration and updates
+ */
+const clientSettingRules = (): ValidationChain[] => [
+    body('redirectUris')
+        .optional()
+        .isArray()
+        .withMessage('Redirect URIs must be an array'),
+
+    body('redirectUris.*')
+        .isURL({ require_tld: false, require_protocol: true })
+        .withMessage('Each redirect URI must be an absolute URL')
+        .not()
+        .contains('#')
+        .withMessage('Redirect URIs cannot contain a fragment'),
+
+    body('grantTypes')
+        .optional()
+        .isArray({ min: 1 })
+        .withMessage('Grant types must be a non-empty array'),
+
+    body('grantTypes.*')
+        .isIn(OAUTH_GRANT_TYPES)
+        .withMessage(`Invalid grant type. Must be one of: ${OAUTH_GRANT_TYPES.join(', ')}`),
+
+    body('scopes')
+        .optional()
+        .isArray()
+        .withMessage('Scopes must be an array'),
+
+    body('scopes.*')
+        .isIn(scopeNames)
+        .withMessage(`Invalid scope. Must be one of: ${scopeNames.join(', ')}`),
+
+    body('firstParty')
+        .optional()
+        .isBoolean()
+        .withMessage('First party must be a boolean')
+];
+
+/**
+ * Validation rules for registering an OAuth client
+ */
+export const validateCreateOAuthClient: ValidationChain[] = [
+    body('name')
+        .trim()
+        .notEmpty()
+        .withMessage('Client name is required')
+        .isLength({ max: 100 })
+        .withMessage('Client name cannot exceed 100 characters'),
+
+    body('type')
+        .optional()
+        .isIn(['confidential', 'public'])
+        .withMessage('Client type must be confidential or public'),
+
+    ...clientSettingRules()
+];
+
+/**
+ * Validation rules for updating an OAuth client
+ */
+export const validateUpdateOAuthClient: ValidationChain[] = [
+    body('name')
+        .optional()
+        .trim()
+        .notEmpty()
+        .withMessage('Client name cannot be empty')
+        .isLength({ max: 100 })
+        .withMessage('Client name cannot exceed 100 characters'),
+
+    body('type')
+        .not()
+        .exists()
+        .withMessage('Client type cannot be changed'),
+
+    body('isActive')
+        .optional()
+        .isBoolean()
+        .withMessage('isActive must be a boolean'),
+
+    ...clientSettingRules()
+];
+
+/**
+ * Validation rules for the user's decision on the consent screen
+ */
+export const validateAuthorizationDecision: ValidationChain[] = [
+    body('approve')
+        .isBoolean()
+        .withMessage('approve must be a boolean')
+];
+
+/**
+ * Client credentials sent in the body (client_secret_post, or client_id alone for
+ * public clients). Both must be strings so they can never reach a query as an operator.
+ */
+const clientCredentialRules = (): ValidationChain[] => [
+    body('client_id')
+        .optional()
+        .isString()
+        .withMessage('client_id must be a string')
+        .trim()
+        .notEmpty()
+        .withMessage('client_id cannot be empty'),
+
+    body('client_secret')
+        .optional()
+        .isString()
+        .withMessage('client_secret must be a string')
+];
+
+/**
+ * Optional string parameter of a token endpoint request
+ */
+const optionalStringParameter = (name: string): ValidationChain => {
+    return body(name)
+        .optional()
+        .isString()
+        .withMessage(`${name} must be a string`)
+        .trim()
+        .notEmpty()
+        .withMessage(`${name} cannot be empty`);
+};
+
+/**
+ * Validation rules for POST /oauth/token. Which parameters a grant requires is
+ * checked by the grant itself.
+ */
+export const validateTokenRequest: ValidationChain[] = [
+    ...clientCredentialRules(),
+    optionalStringParameter('grant_type'),
+    optionalStringParameter('code'),
+    optionalStringParameter('code_verifier'),
+    optionalStringParameter('redirect_uri'),
+    optionalStringParameter('scope')
+];
+
+/**
+ * Validation rules for POST /oauth/introspect and POST /oauth/revoke
+ */
+export const validateTokenParameter: ValidationChain[] = [
+    ...clientCredentialRules(),
+
+    body('token')
+        .isString()
+        .withMessage('token is required')
+        .trim()
+        .notEmpty()
+        .withMessage('token is required')
+];
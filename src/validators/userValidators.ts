@@ -1,4 +1,9 @@
-import { body, ValidationChain } from 'express-validator';
+import { body, param, query, ValidationChain } from 'express-validator';
+import { PERMISSIONS } from '../config/roles';
+import { BULK_USER_ACTIONS, MAX_BULK_TARGETS } from '../services/bulkUserService';
+import { EXPORT_COLUMNS, EXPORT_FORMATS, isSensitiveColumn } from '../services/userExportService';
+import { decodeUserCursor, DEFAULT_USER_SORT, parseUserSort, USER_SORT_FIELDS } from '../utils/userQueries';
+import { getRoleNames } from '../utils/permissions';
 
 /**
  * Validation rules for updating user profile
@@ -43,12 +48,29 @@ export const validateUpdateProfile: ValidationChain[] = [
             return true;
         }),
     
+    body(['address.street', 'address.city', 'address.state', 'address.country'])
+        .optional()
+        .isString()
+        .isLength({ max: 100 })
+        .withMessage('Address fields must be text of at most 100 characters'),
+
     body('address.zipCode')
         .optional()
         .isPostalCode('any')
         .withMessage('Please provide a valid postal code')
 ];
 
+/**
+ * Fields users may change with PUT /api/users/profile. Anything else in the
+ * body (email, role, status, credentials, lifecycle fields) is ignored.
+ */
+export const PROFILE_UPDATABLE_FIELDS = ['username', 'firstName', 'lastName', 'bio', 'phoneNumber', 'dateOfBirth'];
+
+/**
+ * Address fields users may change with PUT /api/users/profile
+ */
+export const PROFILE_ADDRESS_FIELDS = ['street', 'city', 'state', 'country', 'zipCode'];
+
 /**
  * Validation rules for changing password
  */
@@ -73,6 +95,416 @@ export const validateUpdateRole: ValidationChain[] = [
     body('role')
         .notEmpty()
         .withMessage('Role is required')
-        .isIn(['admin', 'user', 'moderator'])
-        .withMessage('Invalid role. Must be admin, user, or moderator')
+        .isIn(getRoleNames())
+        .withMessage(`Invalid role. Must be one of: ${getRoleNames().join(', ')}`)
+];
+
+/**
+ * Fields admins may change with PATCH /api/users/:id. Role, status and password
+ * have their own routes.
+ */
+export const ADMIN_UPDATABLE_FIELDS = [
+    'email',
+    'username',
+    'firstName',
+    'lastName',
+    'bio',
+    'phoneNumber',
+    'dateOfBirth',
+    'address',
+    'isEmailVerified'
+];
+
+/**
+ * Validation rules for creating a user (Admin only)
+ */
+export const validateCreateUser: ValidationChain[] = [
+    body('email')
+        .isEmail()
+        .normalizeEmail()
+        .withMessage('Please provide a valid email'),
+
+    body('username')
+        .isLength({ min: 3, max: 30 })
+        .withMessage('Username must be between 3 and 30 characters')
+        .matches(/^[a-zA-Z0-9_]+$/)
+        .withMessage('Username can only contain letters, numbers, and underscores'),
+
+    body('password')
+        .optional()
+        .isLength({ min: 8 })
+        .withMessage('Password must be at least 8 characters long')
+        .matches(/^(?=.*[a-z])(?=.*[A-Z])(?=.*\d)/)
+        .withMessage('Password must contain at least one uppercase letter, one lowercase letter, and one number'),
+
+    body('firstName')
+        .notEmpty()
+        .withMessage('First name is required')
+        .isLength({ max: 50 })
+        .withMessage('First name cannot exceed 50 characters'),
+
+    body('lastName')
+        .notEmpty()
+        .withMessage('Last name is required')
+        .isLength({ max: 50 })
+        .withMessage('Last name cannot exceed 50 characters'),
+
+    body('role')
+        .optional()
+        .isIn(getRoleNames())
+        .withMessage(`Invalid role. Must be one of: ${getRoleNames().join(', ')}`),
+
+    body('phoneNumber')
+        .optional()
+        .isMobilePhone('any')
+        .withMessage('Please provide a valid phone number'),
+
+    body('isEmailVerified')
+        .optional()
+        .isBoolean()
+        .withMessage('isEmailVerified must be a boolean')
+];
+
+/**
+ * Validation rules for editing a user (Admin only)
+ */
+export const validateAdminUpdateUser: ValidationChain[] = [
+    body()
+        .custom((value) => {
+            const fields = Object.keys(value);
+            const rejected = fields.filter(field => !ADMIN_UPDATABLE_FIELDS.includes(field));
+            if (rejected.length > 0) {
+                throw new Error(`These fields cannot be changed here: ${rejected.join(', ')}`);
+            }
+            if (fields.length === 0) {
+                throw new Error('No fields to update');
+            }
+            return true;
+        }),
+
+    body('email')
+        .optional()
+        .isEmail()
+        .normalizeEmail()
+        .withMessage('Please provide a valid email'),
+
+    body('username')
+        .optional()
+        .isLength({ min: 3, max: 30 })
+        .withMessage('Username must be between 3 and 30 characters')
+        .matches(/^[a-zA-Z0-9_]+$/)
+        .withMessage('Username can only contain letters, numbers, and underscores'),
+
+    body('firstName')
+        .optional()
+        .notEmpty()
+        .withMessage('First name cannot be empty')
+        .isLength({ max: 50 })
+        .withMessage('First name cannot exceed 50 characters'),
+
+    body('lastName')
+        .optional()
+        .notEmpty()
+        .withMessage('Last name cannot be empty')
+        .isLength({ max: 50 })
+        .withMessage('Last name cannot exceed 50 characters'),
+
+    body('bio')
+        .optional()
+        .isLength({ max: 500 })
+        .withMessage('Bio cannot exceed 500 characters'),
+
+    body('phoneNumber')
+        .optional()
+        .isMobilePhone('any')
+        .withMessage('Please provide a valid phone number'),
+
+    body('dateOfBirth')
+        .optional()
+        .isISO8601()
+        .withMessage('Please provide a valid date'),
+
+    body('address')
+        .optional()
+        .isObject()
+        .withMessage('Address must be an object'),
+
+    body('address.zipCode')
+        .optional()
+        .isPostalCode('any')
+        .withMessage('Please provide a valid postal code'),
+
+    body('isEmailVerified')
+        .optional()
+        .isBoolean()
+        .withMessage('isEmailVerified must be a boolean')
+];
+
+/**
+ * Validation rules for setting a user's status (Admin only)
+ */
+export const validateSetStatus: ValidationChain[] = [
+    body('isActive')
+        .isBoolean()
+        .withMessage('isActive must be a boolean')
+];
+
+/**
+ * Validation rules for permanently deleting a user (Admin only)
+ */
+export const validateHardDelete: ValidationChain[] = [
+    body('confirm')
+        .isString()
+        .notEmpty()
+        .withMessage("Confirm the deletion by sending the user's email as confirm")
+];
+
+/**
+ * Validation rules for the user filters shared by listing and exporting users
+ */
+const userFilterRules: ValidationChain[] = [
+    query('role')
+        .optional()
+        .isIn(getRoleNames())
+        .withMessage(`Invalid role. Must be one of: ${getRoleNames().join(', ')}`),
+
+    query('isActive')
+        .optional()
+        .isBoolean()
+        .withMessage('isActive must be a boolean'),
+
+    query('isEmailVerified')
+        .optional()
+        .isBoolean()
+        .withMessage('isEmailVerified must be a boolean'),
+
+    query('search')
+        .optional()
+        .isString()
+        .isLength({ min: 1, max: 100 })
+        .withMessage('Search must be between 1 and 100 characters'),
+
+    query('country')
+        .optional()
+        .isString()
+        .isLength({ min: 1, max: 100 })
+        .withMessage('Country must be between 1 and 100 characters'),
+
+    query(['createdFrom', 'createdTo', 'lastLoginFrom', 'lastLoginTo'])
+        .optional()
+        .isISO8601()
+        .withMessage('Please provide a valid date')
+];
+
+/**
+ * Validation rules for listing users (Admin only)
+ */
+export const validateListUsers: ValidationChain[] = [
+    ...userFilterRules,
+
+    query('limit')
+        .optional()
+        .isInt({ min: 1, max: 100 })
+        .withMessage('Limit must be between 1 and 100'),
+
+    query('sort')
+        .optional()
+        .custom((value) => {
+            if (typeof value !== 'string' || !parseUserSort(value)) {
+                const fields = Object.keys(USER_SORT_FIELDS).join(', ');
+                throw new Error(`Invalid sort. Must be one of: ${fields} (prefix with - for descending)`);
+            }
+            return true;
+        }),
+
+    query('cursor')
+        .optional()
+        .custom((value, { req }) => {
+            const sort = typeof req.query?.sort === 'string' ? req.query.sort : DEFAULT_USER_SORT;
+            if (typeof value !== 'string' || !decodeUserCursor(value, sort)) {
+                throw new Error('Invalid cursor. Cursors only work with the sort they were issued for.');
+            }
+            return true;
+        })
+];
+
+/**
+ * Validation rules for listing pending deletions (Admin only)
+ */
+export const validateListPendingDeletions: ValidationChain[] = [
+    query('page')
+        .optional()
+        .isInt({ min: 1 })
+        .withMessage('Page must be a positive integer'),
+
+    query('limit')
+        .optional()
+        .isInt({ min: 1, max: 100 })
+        .withMessage('Limit must be between 1 and 100')
+];
+
+/**
+ * Validation rules for importing users (Admin only)
+ */
+export const validateImportUsers: ValidationChain[] = [
+    query('dryRun')
+        .optional()
+        .isBoolean()
+        .withMessage('dryRun must be a boolean'),
+
+    query('sendInvites')
+        .optional()
+        .isBoolean()
+        .withMessage('sendInvites must be a boolean')
+];
+
+/**
+ * Validation rules for exporting users (Admin only)
+ */
+export const validateExportUsers: ValidationChain[] = [
+    query('format')
+        .optional()
+        .isIn(EXPORT_FORMATS)
+        .withMessage(`Invalid format. Must be one of: ${EXPORT_FORMATS.join(', ')}`),
+
+    query('columns')
+        .optional()
+        .isString()
+        .custom((value: string, { req }) => {
+            const columns = value.split(',').map(column => column.trim());
+            const unknown = columns.filter(column => !EXPORT_COLUMNS[column]);
+            if (unknown.length > 0) {
+                throw new Error(`Unknown columns: ${unknown.join(', ')}`);
+            }
+
+            const sensitive = columns.filter(isSensitiveColumn);
+            if (sensitive.length > 0 && req.query?.includeSensitive !== 'true') {
+                throw new Error(`These columns require includeSensitive=true: ${sensitive.join(', ')}`);
+            }
+            return true;
+        }),
+
+    query('includeSensitive')
+        .optional()
+        .isBoolean()
+        .withMessage('includeSensitive must be a boolean'),
+
+    ...userFilterRules
+];
+
+/**
+ * Validation rules for bulk user actions (Admin only)
+ */
+export const validateBulkUserAction: ValidationChain[] = [
+    body()
+        .custom((value) => {
+            if (value.ids !== undefined && value.filter !== undefined) {
+                throw new Error('Provide either ids or filter, not both');
+            }
+            if (value.ids === undefined && value.filter === undefined) {
+                throw new Error('Either ids or filter is required');
+            }
+            return true;
+        }),
+
+    body('action')
+        .isIn(BULK_USER_ACTIONS)
+        .withMessage(`Invalid action. Must be one of: ${BULK_USER_ACTIONS.join(', ')}`),
+
+    body('role')
+        .if(body('action').equals('set-role'))
+        .isIn(getRoleNames())
+        .withMessage(`Invalid role. Must be one of: ${getRoleNames().join(', ')}`),
+
+    body('ids')
+        .optional()
+        .isArray({ min: 1, max: MAX_BULK_TARGETS })
+        .withMessage(`ids must be a list of 1 to ${MAX_BULK_TARGETS} user IDs`),
+
+    body('ids.*')
+        .isMongoId()
+        .withMessage('Invalid user ID'),
+
+    body('filter')
+        .optional()
+        .isObject()
+        .withMessage('filter must be an object')
+        .custom((value) => {
+            if (value.role === undefined && value.isActive === undefined && value.search === undefined) {
+                throw new Error('filter needs at least one of role, isActive or search');
+            }
+            return true;
+        }),
+
+    body('filter.role')
+        .optional()
+        .isIn(getRoleNames())
+        .withMessage(`Invalid role. Must be one of: ${getRoleNames().join(', ')}`),
+
+    body('filter.isActive')
+        .optional()
+        .isBoolean()
+        .withMessage('filter.isActive must be a boolean'),
+
+    body('filter.search')
+        .optional()
+        .isString()
+        .notEmpty()
+        .withMessage('filter.search must be a non-empty string')
+];
+
+/**
+ * Validation rules for creating an API key
+ */
+export const validateCreateApiKey: ValidationChain[] = [
+    body('name')
+        .trim()
+        .notEmpty()
+        .withMessage('API key name is required')
+        .isLength({ max: 100 })
+        .withMessage('API key name cannot exceed 100 characters'),
+
+    body('scopes')
+        .isArray({ min: 1 })
+        .withMessage('At least one scope is required'),
+
+    body('scopes.*')
+        .isIn(Object.keys(PERMISSIONS))
+        .withMessage('Invalid scope'),
+
+    body('expiresAt')
+        .optional({ values: 'null' })
+        .isISO8601()
+        .withMessage('Expiry must be a valid date')
+        .custom((value) => {
+            if (new Date(value) <= new Date()) {
+                throw new Error('Expiry must be in the future');
+            }
+            return true;
+        })
+];
+
+/**
+ * Validation rules for API key routes
+ */
+export const validateApiKeyId: ValidationChain[] = [
+    param('keyId')
+        .isMongoId()
+        .withMessage('Invalid API key id')
+];
+
+/**
+ * Validation rules for data export routes
+ */
+export const validateDataExportId: ValidationChain[] = [
+    param('exportId')
+        .isMongoId()
+        .withMessage('Invalid data export id')
+];
+
+export const validateDataExportDownload: ValidationChain[] = [
+    query('token')
+        .isString()
+        .notEmpty()
+        .withMessage('Download token is required')
 ];